@@ -28,6 +28,7 @@ export default {
     },
     plugins: [
       "expo-secure-store",
+      "expo-sqlite",
       [
         "expo-file-system",
         {
@@ -47,6 +48,16 @@ export default {
       },
       OPENAI_API_KEY: process.env.OPENAI_API_KEY || '',
       GEMINI_API_KEY: process.env.GEMINI_API_KEY || process.env.EXPO_PUBLIC_GEMINI_API_KEY || '',
+      LOCAL_WHISPER_URL: process.env.LOCAL_WHISPER_URL || '',
+      TRANSCRIPTION_PROVIDER_ORDER: process.env.TRANSCRIPTION_PROVIDER_ORDER || '',
+      TRANSCRIPTION_PROVIDERS_DISABLED: process.env.TRANSCRIPTION_PROVIDERS_DISABLED || '',
+      TRASH_RETENTION_DAYS: process.env.TRASH_RETENTION_DAYS || '',
+      LETTERHEAD_INSTITUTION: process.env.LETTERHEAD_INSTITUTION || '',
+      LETTERHEAD_ADDRESS: process.env.LETTERHEAD_ADDRESS || '',
+      LETTERHEAD_CONTACT: process.env.LETTERHEAD_CONTACT || '',
+      LETTERHEAD_LOGO_URL: process.env.LETTERHEAD_LOGO_URL || '',
+      FHIR_SERVER_URL: process.env.FHIR_SERVER_URL || '',
+      FHIR_ACCESS_TOKEN: process.env.FHIR_ACCESS_TOKEN || '',
       supabaseUrl: process.env.SUPABASE_URL,
       supabaseKey: process.env.SUPABASE_KEY,
       eas: {
@@ -37,12 +37,21 @@ app.post('/api/whisper', upload.single('file'), async (req, res) => {
     formData.append('model', 'whisper-1');
     formData.append('language', 'en');
     
+    // Pass through verbose_json and timestamp granularities so segment and word timings survive the proxy
+    if (req.body.response_format) {
+      formData.append('response_format', req.body.response_format);
+    }
+    const granularities = req.body.timestamp_granularities || req.body['timestamp_granularities[]'] || [];
+    [].concat(granularities).forEach(granularity => {
+      formData.append('timestamp_granularities[]', granularity);
+    });
+    
     const response = await axios.post('https://api.openai.com/v1/audio/transcriptions', formData, {
       headers: {
         'Authorization': `Bearer ${apiKey}`,
         ...formData.getHeaders()
       },
-      timeout: 30000
+      timeout: 150000
     });
     
     // Clean up the uploaded file
@@ -90,7 +99,7 @@ app.post('/api/gemini', async (req, res) => {
           'Content-Type': 'application/json',
           'x-goog-api-key': apiKey
         },
-        timeout: 30000
+        timeout: 150000
       }
     );
     
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { Text, Card, Chip, Button, TextInput } from 'react-native-paper';
+
+interface BulkEditPanelProps {
+  // Number of selected notes
+  count: number;
+  // Values found in the user's notes
+  procedureTypes: string[];
+  tags: string[];
+  disabled?: boolean;
+  onAddTags: (tags: string[]) => void;
+  onRemoveTags: (tags: string[]) => void;
+  onSetProcedureType: (procedureType: string) => void;
+  onClose: () => void;
+}
+
+function parseTags(value: string): string[] {
+  const tags = value.split(',').map(tag => tag.trim()).filter(Boolean);
+  return tags.filter((tag, index) => tags.findIndex(other => other.toLowerCase() === tag.toLowerCase()) === index);
+}
+
+export default function BulkEditPanel({
+  count, procedureTypes, tags, disabled, onAddTags, onRemoveTags, onSetProcedureType, onClose,
+}: BulkEditPanelProps) {
+  const [tagText, setTagText] = useState('');
+  const [procedureType, setProcedureType] = useState('');
+
+  const enteredTags = parseTags(tagText);
+  const notesLabel = count === 1 ? '1 note' : `${count} notes`;
+
+  // Tapping a known tag adds it to the list, or takes it out again
+  const toggleTag = (tag: string) => {
+    const next = enteredTags.some(existing => existing.toLowerCase() === tag.toLowerCase())
+      ? enteredTags.filter(existing => existing.toLowerCase() !== tag.toLowerCase())
+      : [...enteredTags, tag];
+    setTagText(next.join(', '));
+  };
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <Text style={styles.label}>Tags</Text>
+        <TextInput
+          mode="outlined"
+          dense
+          label="Tags, separated by commas"
+          value={tagText}
+          onChangeText={setTagText}
+          disabled={disabled}
+        />
+        {tags.length > 0 && (
+          <View style={styles.wrapRow}>
+            {tags.map(tag => (
+              <Chip
+                key={tag}
+                selected={enteredTags.some(existing => existing.toLowerCase() === tag.toLowerCase())}
+                onPress={() => toggleTag(tag)}
+                disabled={disabled}
+                style={styles.chip}
+              >
+                {tag}
+              </Chip>
+            ))}
+          </View>
+        )}
+        <View style={styles.actions}>
+          <Button onPress={() => onRemoveTags(enteredTags)} disabled={disabled || enteredTags.length === 0}>
+            Remove from {notesLabel}
+          </Button>
+          <Button mode="contained" onPress={() => onAddTags(enteredTags)} disabled={disabled || enteredTags.length === 0}>
+            Add to {notesLabel}
+          </Button>
+        </View>
+
+        <Text style={styles.label}>Procedure type</Text>
+        <TextInput
+          mode="outlined"
+          dense
+          label="Procedure type"
+          value={procedureType}
+          onChangeText={setProcedureType}
+          disabled={disabled}
+        />
+        {procedureTypes.length > 0 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+            {procedureTypes.map(option => (
+              <Chip
+                key={option}
+                selected={procedureType === option}
+                onPress={() => setProcedureType(option)}
+                disabled={disabled}
+                style={styles.chip}
+              >
+                {option}
+              </Chip>
+            ))}
+          </ScrollView>
+        )}
+        <View style={styles.actions}>
+          <Button onPress={onClose}>Close</Button>
+          <Button
+            mode="contained"
+            onPress={() => onSetProcedureType(procedureType.trim())}
+            disabled={disabled || !procedureType.trim()}
+          >
+            Set for {notesLabel}
+          </Button>
+        </View>
+      </Card.Content>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    margin: 16,
+    marginBottom: 0,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  wrapRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  chipRow: {
+    marginTop: 8,
+  },
+  chip: {
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,32 @@
+import React from 'react';
+import { StyleSheet, StyleProp, TextStyle } from 'react-native';
+import { Text } from 'react-native-paper';
+import { splitHighlights } from '../utils/searchQuery';
+
+interface HighlightedTextProps {
+  // Text with matches marked by the search
+  text: string;
+  style?: StyleProp<TextStyle>;
+  numberOfLines?: number;
+}
+
+export default function HighlightedText({ text, style, numberOfLines }: HighlightedTextProps) {
+  return (
+    <Text style={style} numberOfLines={numberOfLines} ellipsizeMode="tail">
+      {splitHighlights(text).map((part, index) => (
+        part.highlighted ? (
+          <Text key={index} style={styles.highlight}>{part.text}</Text>
+        ) : (
+          part.text
+        )
+      ))}
+    </Text>
+  );
+}
+
+const styles = StyleSheet.create({
+  highlight: {
+    backgroundColor: '#fff3a8',
+    fontWeight: 'bold',
+  },
+});
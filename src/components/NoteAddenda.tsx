@@ -0,0 +1,297 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { View, StyleSheet, ScrollView, Alert } from 'react-native';
+import { Text, Card, Button, TextInput, Chip, IconButton, ActivityIndicator } from 'react-native-paper';
+import { Audio } from 'expo-av';
+import { startRecording, stopRecording, cleanupTempFile } from '../services/audioRecorderService';
+import { transcribeAudio } from '../services/transcriptionService';
+import { formatDuration } from '../services/audioDurationService';
+import { ADDENDUM_REASONS, addNoteAddendum } from '../services/addendumService';
+import { NoteAddendum } from '../types';
+
+interface NoteAddendaProps {
+  noteId: string;
+  addenda: NoteAddendum[];
+  onAdded: (addendum: NoteAddendum) => void;
+  // Reason picked when the form opens, e.g. Correction for signed notes
+  defaultReason?: string;
+  disabled?: boolean;
+}
+
+interface AddendumForm {
+  reason: string;
+  text: string;
+  audioUri?: string;
+  audioDuration?: number;
+}
+
+export default function NoteAddenda({ noteId, addenda, onAdded, defaultReason, disabled }: NoteAddendaProps) {
+  // null unless the new addendum form is open
+  const [form, setForm] = useState<AddendumForm | null>(null);
+  const [recording, setRecording] = useState(false);
+  const [transcribing, setTranscribing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const soundRef = useRef<Audio.Sound | null>(null);
+  const recordingRef = useRef(false);
+
+  // Stop any dictation or playback when leaving the note
+  useEffect(() => {
+    return () => {
+      soundRef.current?.unloadAsync().catch(() => {});
+      if (recordingRef.current) {
+        stopRecording().catch(() => {}).finally(() => cleanupTempFile());
+      }
+    };
+  }, []);
+
+  const closeForm = async () => {
+    setForm(null);
+    await cleanupTempFile();
+  };
+
+  const handleDictate = async () => {
+    try {
+      await startRecording();
+      recordingRef.current = true;
+      setRecording(true);
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleStopDictation = async () => {
+    try {
+      setRecording(false);
+      recordingRef.current = false;
+      const audioUri = await stopRecording();
+      if (!audioUri) return;
+
+      setTranscribing(true);
+      const result = await transcribeAudio(audioUri);
+      setForm(current => current && {
+        ...current,
+        text: current.text ? `${current.text}\n${result.text}` : result.text,
+        audioUri,
+        audioDuration: result.duration,
+      });
+    } catch (error) {
+      Alert.alert('Transcription Failed', error instanceof Error ? error.message : String(error));
+    } finally {
+      setTranscribing(false);
+    }
+  };
+
+  const handleRemoveAudio = async () => {
+    await cleanupTempFile();
+    setForm(current => current && { ...current, audioUri: undefined, audioDuration: undefined });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    try {
+      setSaving(true);
+      const addendum = await addNoteAddendum(noteId, form);
+      onAdded(addendum);
+      await closeForm();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : String(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePlay = async (addendum: NoteAddendum) => {
+    if (!addendum.audioFileUrl) return;
+
+    try {
+      await soundRef.current?.unloadAsync();
+      const { sound } = await Audio.Sound.createAsync({ uri: addendum.audioFileUrl }, { shouldPlay: true });
+      soundRef.current = sound;
+    } catch (error) {
+      console.error('Error playing addendum audio:', error);
+      Alert.alert('Error', 'Could not play the dictated audio.');
+    }
+  };
+
+  const busy = recording || transcribing || saving;
+
+  return (
+    <View>
+      {addenda.map(addendum => (
+        <Card key={addendum.id} style={styles.card}>
+          <Card.Content>
+            <View style={styles.addendumHeader}>
+              <View style={styles.addendumInfo}>
+                <Text style={styles.addendumTitle}>Addendum • {addendum.reason}</Text>
+                <Text style={styles.metaText}>
+                  {new Date(addendum.createdAt).toLocaleString()}
+                  {addendum.authorName ? ` • ${addendum.authorName}` : ''}
+                </Text>
+              </View>
+              {addendum.audioFileUrl ? (
+                <IconButton icon="play-circle-outline" size={22} onPress={() => handlePlay(addendum)} />
+              ) : null}
+            </View>
+            <Text style={styles.addendumText}>{addendum.text}</Text>
+          </Card.Content>
+        </Card>
+      ))}
+
+      {form ? (
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text style={styles.sectionTitle}>New Addendum</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.reasonRow}>
+              {ADDENDUM_REASONS.map(reason => (
+                <Chip
+                  key={reason}
+                  selected={form.reason === reason}
+                  onPress={() => setForm({ ...form, reason })}
+                  disabled={saving}
+                  style={styles.reasonChip}
+                >
+                  {reason}
+                </Chip>
+              ))}
+            </ScrollView>
+            <TextInput
+              mode="outlined"
+              label="Reason"
+              value={form.reason}
+              onChangeText={reason => setForm({ ...form, reason })}
+              disabled={saving}
+              style={styles.input}
+            />
+            <TextInput
+              mode="outlined"
+              label="Addendum"
+              value={form.text}
+              onChangeText={text => setForm({ ...form, text })}
+              multiline
+              disabled={busy}
+              style={[styles.input, styles.textInput]}
+            />
+
+            {transcribing ? (
+              <View style={styles.transcribingRow}>
+                <ActivityIndicator size="small" />
+                <Text style={styles.metaText}>  Transcribing dictation...</Text>
+              </View>
+            ) : form.audioUri ? (
+              <View style={styles.dictationRow}>
+                <Text style={styles.metaText}>
+                  Dictated audio attached{form.audioDuration ? ` (${formatDuration(form.audioDuration)})` : ''}
+                </Text>
+                <Button compact onPress={handleRemoveAudio} disabled={saving}>Remove</Button>
+              </View>
+            ) : (
+              <Button
+                icon={recording ? 'stop' : 'microphone'}
+                onPress={recording ? handleStopDictation : handleDictate}
+                disabled={saving}
+                style={styles.dictateButton}
+              >
+                {recording ? 'Stop and Transcribe' : 'Dictate'}
+              </Button>
+            )}
+
+            <View style={styles.actions}>
+              <Button onPress={closeForm} disabled={busy}>Cancel</Button>
+              <Button
+                mode="contained"
+                onPress={handleSave}
+                loading={saving}
+                disabled={busy || !form.reason.trim() || !form.text.trim()}
+              >
+                Save Addendum
+              </Button>
+            </View>
+            <Text style={styles.metaText}>Addenda cannot be changed once saved.</Text>
+          </Card.Content>
+        </Card>
+      ) : (
+        <Button
+          mode="outlined"
+          icon="plus"
+          onPress={() => setForm({ reason: defaultReason || ADDENDUM_REASONS[0], text: '' })}
+          disabled={disabled}
+          style={styles.addButton}
+        >
+          Add Addendum
+        </Button>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    margin: 16,
+    marginTop: 8,
+    marginBottom: 8,
+    borderLeftWidth: 4,
+    borderLeftColor: '#f0a020',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  addendumHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  addendumInfo: {
+    flex: 1,
+  },
+  addendumTitle: {
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+  addendumText: {
+    marginTop: 8,
+    fontSize: 16,
+    lineHeight: 24,
+  },
+  metaText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  reasonRow: {
+    marginBottom: 8,
+  },
+  reasonChip: {
+    marginRight: 8,
+  },
+  input: {
+    marginBottom: 8,
+  },
+  textInput: {
+    minHeight: 100,
+  },
+  dictationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  transcribingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  dictateButton: {
+    alignSelf: 'flex-start',
+    marginBottom: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginBottom: 8,
+  },
+  addButton: {
+    margin: 16,
+    marginTop: 8,
+    marginBottom: 8,
+  },
+});
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, TextInput, Chip, Card, IconButton, Button } from 'react-native-paper';
+import { NoteSection } from '../types';
+
+/**
+ * The editable parts of a note, with the content split into sections
+ */
+export interface NoteDraft {
+  title: string;
+  procedureType: string;
+  tags: string[];
+  sections: NoteSection[];
+}
+
+interface NoteEditorProps {
+  draft: NoteDraft;
+  onChange: (draft: NoteDraft) => void;
+  disabled?: boolean;
+}
+
+export default function NoteEditor({ draft, onChange, disabled }: NoteEditorProps) {
+  const [newTag, setNewTag] = useState('');
+
+  const updateSection = (index: number, changes: Partial<NoteSection>) => {
+    onChange({
+      ...draft,
+      sections: draft.sections.map((section, i) => i === index ? { ...section, ...changes } : section),
+    });
+  };
+
+  const removeSection = (index: number) => {
+    onChange({ ...draft, sections: draft.sections.filter((_, i) => i !== index) });
+  };
+
+  const addSection = () => {
+    onChange({ ...draft, sections: [...draft.sections, { heading: '', content: '' }] });
+  };
+
+  const addTag = () => {
+    const tag = newTag.trim();
+    if (tag && !draft.tags.some(existing => existing.toLowerCase() === tag.toLowerCase())) {
+      onChange({ ...draft, tags: [...draft.tags, tag] });
+    }
+    setNewTag('');
+  };
+
+  return (
+    <View>
+      <Card style={styles.card}>
+        <Card.Content>
+          <TextInput
+            mode="outlined"
+            label="Title"
+            value={draft.title}
+            onChangeText={title => onChange({ ...draft, title })}
+            disabled={disabled}
+            style={styles.input}
+          />
+          <TextInput
+            mode="outlined"
+            label="Procedure type"
+            value={draft.procedureType}
+            onChangeText={procedureType => onChange({ ...draft, procedureType })}
+            disabled={disabled}
+            style={styles.input}
+          />
+
+          <Text style={styles.label}>Tags</Text>
+          <View style={styles.tagsContainer}>
+            {draft.tags.map(tag => (
+              <Chip
+                key={tag}
+                style={styles.tag}
+                onClose={disabled ? undefined : () => onChange({ ...draft, tags: draft.tags.filter(existing => existing !== tag) })}
+              >
+                {tag}
+              </Chip>
+            ))}
+          </View>
+          <TextInput
+            mode="outlined"
+            label="Add tag"
+            value={newTag}
+            onChangeText={setNewTag}
+            onSubmitEditing={addTag}
+            disabled={disabled}
+            right={<TextInput.Icon icon="plus" onPress={addTag} />}
+          />
+        </Card.Content>
+      </Card>
+
+      {draft.sections.map((section, index) => (
+        <Card key={index} style={styles.card}>
+          <Card.Content>
+            <View style={styles.sectionHeader}>
+              <TextInput
+                mode="outlined"
+                label="Section heading"
+                value={section.heading}
+                onChangeText={heading => updateSection(index, { heading })}
+                autoCapitalize="characters"
+                disabled={disabled}
+                style={styles.headingInput}
+              />
+              <IconButton icon="delete" size={20} disabled={disabled} onPress={() => removeSection(index)} />
+            </View>
+            <TextInput
+              mode="outlined"
+              label="Content"
+              value={section.content}
+              onChangeText={content => updateSection(index, { content })}
+              multiline
+              disabled={disabled}
+              style={styles.contentInput}
+            />
+          </Card.Content>
+        </Card>
+      ))}
+
+      <Button mode="outlined" icon="plus" onPress={addSection} disabled={disabled} style={styles.addButton}>
+        Add Section
+      </Button>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    margin: 16,
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  input: {
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  tagsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  tag: {
+    marginRight: 8,
+    marginBottom: 8,
+    backgroundColor: '#e0f2fa',
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headingInput: {
+    flex: 1,
+  },
+  contentInput: {
+    marginTop: 8,
+    minHeight: 120,
+  },
+  addButton: {
+    margin: 16,
+    marginTop: 8,
+    marginBottom: 8,
+  },
+});
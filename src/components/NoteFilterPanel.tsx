@@ -0,0 +1,256 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, Alert } from 'react-native';
+import { Text, Card, Chip, Button, TextInput, HelperText } from 'react-native-paper';
+import { getNoteTemplates, subscribeToNoteTemplates } from '../services/noteTemplates';
+import { parseFilterDate } from '../utils/noteFilters';
+import { NoteFilters } from '../types';
+
+interface NoteFilterPanelProps {
+  filters: NoteFilters;
+  // Values found in the user's notes
+  procedureTypes: string[];
+  tags: string[];
+  onApply: (filters: NoteFilters) => void;
+  onSave: (name: string, filters: NoteFilters) => Promise<void>;
+  onClose: () => void;
+}
+
+type TagState = 'include' | 'exclude' | undefined;
+
+function toggle(values: string[] | undefined, value: string): string[] {
+  const current = values || [];
+  return current.includes(value) ? current.filter(item => item !== value) : [...current, value];
+}
+
+export default function NoteFilterPanel({ filters, procedureTypes, tags, onApply, onSave, onClose }: NoteFilterPanelProps) {
+  const [draft, setDraft] = useState<NoteFilters>(filters);
+  const [templates, setTemplates] = useState(getNoteTemplates());
+  // null unless the save form is open
+  const [saveName, setSaveName] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => subscribeToNoteTemplates(setTemplates), []);
+
+  const fromInvalid = !!draft.createdFrom?.trim() && !parseFilterDate(draft.createdFrom);
+  const toInvalid = !!draft.createdTo?.trim() && !parseFilterDate(draft.createdTo);
+  const valid = !fromInvalid && !toInvalid;
+
+  const tagState = (tag: string): TagState =>
+    draft.includeTags?.includes(tag) ? 'include' : draft.excludeTags?.includes(tag) ? 'exclude' : undefined;
+
+  // Each press moves a tag from ignored to required to excluded and back
+  const cycleTag = (tag: string) => {
+    const state = tagState(tag);
+    const includeTags = (draft.includeTags || []).filter(item => item !== tag);
+    const excludeTags = (draft.excludeTags || []).filter(item => item !== tag);
+
+    if (state === undefined) includeTags.push(tag);
+    if (state === 'include') excludeTags.push(tag);
+
+    setDraft({ ...draft, includeTags, excludeTags });
+  };
+
+  const handleSave = async () => {
+    if (saveName === null) return;
+
+    try {
+      setSaving(true);
+      await onSave(saveName, draft);
+      setSaveName(null);
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : String(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <Text style={styles.label}>Created</Text>
+        <View style={styles.dateRow}>
+          <View style={styles.dateField}>
+            <TextInput
+              mode="outlined"
+              dense
+              label="From"
+              placeholder="YYYY-MM-DD"
+              value={draft.createdFrom || ''}
+              onChangeText={createdFrom => setDraft({ ...draft, createdFrom })}
+              error={fromInvalid}
+            />
+          </View>
+          <View style={styles.dateField}>
+            <TextInput
+              mode="outlined"
+              dense
+              label="To"
+              placeholder="YYYY-MM-DD"
+              value={draft.createdTo || ''}
+              onChangeText={createdTo => setDraft({ ...draft, createdTo })}
+              error={toInvalid}
+            />
+          </View>
+        </View>
+        <HelperText type="error" visible={!valid}>
+          Enter dates as YYYY-MM-DD
+        </HelperText>
+
+        {procedureTypes.length > 0 && (
+          <>
+            <Text style={styles.label}>Procedure type</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+              {procedureTypes.map(procedureType => (
+                <Chip
+                  key={procedureType}
+                  selected={!!draft.procedureTypes?.includes(procedureType)}
+                  onPress={() => setDraft({ ...draft, procedureTypes: toggle(draft.procedureTypes, procedureType) })}
+                  style={styles.chip}
+                >
+                  {procedureType}
+                </Chip>
+              ))}
+            </ScrollView>
+          </>
+        )}
+
+        {tags.length > 0 && (
+          <>
+            <Text style={styles.label}>Tags</Text>
+            <Text style={styles.hint}>Tap once to require a tag, twice to exclude it</Text>
+            <View style={styles.wrapRow}>
+              {tags.map(tag => {
+                const state = tagState(tag);
+                return (
+                  <Chip
+                    key={tag}
+                    icon={state === 'include' ? 'check' : state === 'exclude' ? 'minus-circle-outline' : undefined}
+                    onPress={() => cycleTag(tag)}
+                    style={[styles.chip, state === 'include' && styles.includeChip, state === 'exclude' && styles.excludeChip]}
+                  >
+                    {tag}
+                  </Chip>
+                );
+              })}
+            </View>
+          </>
+        )}
+
+        <Text style={styles.label}>Template</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+          {templates.map(template => (
+            <Chip
+              key={template.id}
+              selected={!!draft.templateIds?.includes(template.id)}
+              onPress={() => setDraft({ ...draft, templateIds: toggle(draft.templateIds, template.id) })}
+              style={styles.chip}
+            >
+              {template.name}
+            </Chip>
+          ))}
+        </ScrollView>
+
+        <Text style={styles.label}>Audio</Text>
+        <View style={styles.wrapRow}>
+          {([['Any', undefined], ['With audio', true], ['Without audio', false]] as [string, boolean | undefined][]).map(([label, hasAudio]) => (
+            <Chip
+              key={label}
+              selected={draft.hasAudio === hasAudio}
+              onPress={() => setDraft({ ...draft, hasAudio })}
+              style={styles.chip}
+            >
+              {label}
+            </Chip>
+          ))}
+        </View>
+
+        {saveName !== null ? (
+          <View style={styles.saveRow}>
+            <TextInput
+              mode="outlined"
+              dense
+              label="Filter name"
+              value={saveName}
+              onChangeText={setSaveName}
+              disabled={saving}
+              style={styles.saveInput}
+            />
+            <Button onPress={() => setSaveName(null)} disabled={saving}>Cancel</Button>
+            <Button onPress={handleSave} loading={saving} disabled={saving || !valid || !saveName.trim()}>
+              Save
+            </Button>
+          </View>
+        ) : null}
+
+        <View style={styles.actions}>
+          <Button onPress={() => setDraft({ statuses: draft.statuses })}>Clear</Button>
+          <Button icon="content-save-outline" onPress={() => setSaveName('')} disabled={saveName !== null}>
+            Save as...
+          </Button>
+          <Button onPress={onClose}>Close</Button>
+          <Button mode="contained" onPress={() => onApply(draft)} disabled={!valid}>
+            Apply
+          </Button>
+        </View>
+      </Card.Content>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    margin: 16,
+    marginBottom: 0,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: -4,
+    marginBottom: 8,
+  },
+  dateRow: {
+    flexDirection: 'row',
+  },
+  dateField: {
+    flex: 1,
+    marginRight: 8,
+  },
+  chipRow: {
+    marginBottom: 4,
+  },
+  wrapRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  includeChip: {
+    backgroundColor: '#e6f4ea',
+  },
+  excludeChip: {
+    backgroundColor: '#fdecea',
+  },
+  saveRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  saveInput: {
+    flex: 1,
+    marginRight: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+});
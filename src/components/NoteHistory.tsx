@@ -0,0 +1,244 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { Text, Card, Button, ActivityIndicator } from 'react-native-paper';
+import { getNoteRevisions } from '../services/revisionService';
+import { restoreNoteRevision } from '../services/notesRepository';
+import { diffText } from '../utils/textDiff';
+import { Note, NoteRevision } from '../types';
+
+interface NoteHistoryProps {
+  noteId: string;
+  // Changes whenever the note is saved, so the list reloads
+  refreshKey?: string;
+  onRestored: (note: Note) => void;
+  // Signed notes are locked, so their history can be viewed but not restored
+  readOnly?: boolean;
+}
+
+const REASON_LABELS: Record<NoteRevision['reason'], string> = {
+  created: 'Generated',
+  edited: 'Edited',
+  restored: 'Restored',
+};
+
+export default function NoteHistory({ noteId, refreshKey, onRestored, readOnly }: NoteHistoryProps) {
+  const [revisions, setRevisions] = useState<NoteRevision[] | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    getNoteRevisions(noteId)
+      .then(loaded => {
+        setRevisions(loaded);
+        // Start by comparing the latest revision with the one before it
+        setSelectedIds(loaded.slice(0, 2).map(revision => revision.id).reverse());
+      })
+      .catch(error => {
+        console.error('Error loading note history:', error);
+        setRevisions([]);
+      });
+  }, [noteId, refreshKey]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(current => {
+      if (current.includes(id)) return current.filter(selectedId => selectedId !== id);
+      // Keep at most two, dropping the one picked first
+      return [...current, id].slice(-2);
+    });
+  };
+
+  const handleRestore = (revision: NoteRevision) => {
+    Alert.alert(
+      'Restore Revision',
+      `Replace the current note with revision ${revision.revisionNumber}? The current version stays in the history.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Restore',
+          onPress: async () => {
+            try {
+              setRestoring(true);
+              onRestored(await restoreNoteRevision(revision));
+            } catch (error) {
+              Alert.alert('Error', error instanceof Error ? error.message : String(error));
+            } finally {
+              setRestoring(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (!revisions) {
+    return <ActivityIndicator style={styles.loading} />;
+  }
+
+  if (revisions.length === 0) {
+    return <Text style={styles.emptyText}>No history recorded for this note yet.</Text>;
+  }
+
+  const compared = revisions
+    .filter(revision => selectedIds.includes(revision.id))
+    .sort((a, b) => a.revisionNumber - b.revisionNumber);
+
+  return (
+    <View>
+      {revisions.map((revision, index) => {
+        const selected = selectedIds.includes(revision.id);
+
+        return (
+          <TouchableOpacity key={revision.id} onPress={() => toggleSelected(revision.id)}>
+            <View style={[styles.revisionRow, selected ? styles.revisionSelected : null]}>
+              <View style={styles.revisionInfo}>
+                <Text style={styles.revisionTitle}>
+                  Revision {revision.revisionNumber} • {REASON_LABELS[revision.reason]}
+                  {revision.restoredFrom ? ` from ${revision.restoredFrom}` : ''}
+                </Text>
+                <Text style={styles.revisionMeta}>
+                  {new Date(revision.createdAt).toLocaleString()}
+                  {revision.authorName ? ` • ${revision.authorName}` : ''}
+                </Text>
+                {revision.changedFields.length > 0 ? (
+                  <Text style={styles.revisionMeta}>Changed: {revision.changedFields.join(', ')}</Text>
+                ) : null}
+              </View>
+              {index === 0 ? (
+                <Text style={styles.currentLabel}>Current</Text>
+              ) : !readOnly ? (
+                <Button compact disabled={restoring} onPress={() => handleRestore(revision)}>
+                  Restore
+                </Button>
+              ) : null}
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+
+      {compared.length === 2 ? (
+        <RevisionDiff before={compared[0]} after={compared[1]} />
+      ) : (
+        <Text style={styles.hintText}>Select two revisions to compare them.</Text>
+      )}
+    </View>
+  );
+}
+
+function RevisionDiff({ before, after }: { before: NoteRevision; after: NoteRevision }) {
+  const fieldChanges = [
+    { label: 'Title', before: before.title, after: after.title },
+    { label: 'Procedure', before: before.procedureType, after: after.procedureType },
+    { label: 'Tags', before: before.tags.join(', '), after: after.tags.join(', ') },
+  ].filter(change => change.before !== change.after);
+
+  const contentParts = diffText(before.content, after.content);
+  const contentChanged = contentParts.some(part => part.type !== 'equal');
+
+  return (
+    <Card style={styles.diffCard}>
+      <Card.Content>
+        <Text style={styles.diffTitle}>
+          Revision {before.revisionNumber} → {after.revisionNumber}
+        </Text>
+
+        {fieldChanges.map(change => (
+          <Text key={change.label} style={styles.fieldChange}>
+            <Text style={styles.fieldLabel}>{change.label}: </Text>
+            <Text style={styles.removedText}>{change.before || '(empty)'}</Text>
+            {' → '}
+            <Text style={styles.addedText}>{change.after || '(empty)'}</Text>
+          </Text>
+        ))}
+
+        {contentChanged ? (
+          <Text style={styles.diffContent}>
+            {contentParts.map((part, index) => (
+              <Text
+                key={index}
+                style={part.type === 'added' ? styles.addedText : part.type === 'removed' ? styles.removedText : undefined}
+              >
+                {part.text}
+              </Text>
+            ))}
+          </Text>
+        ) : (
+          <Text style={styles.hintText}>The note content is the same in both revisions.</Text>
+        )}
+      </Card.Content>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  loading: {
+    margin: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  revisionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+    borderRadius: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  revisionSelected: {
+    backgroundColor: '#e8f0fe',
+  },
+  revisionInfo: {
+    flex: 1,
+  },
+  revisionTitle: {
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+  revisionMeta: {
+    fontSize: 13,
+    color: '#666',
+  },
+  currentLabel: {
+    fontSize: 13,
+    color: '#0077CC',
+    marginHorizontal: 12,
+  },
+  hintText: {
+    marginTop: 12,
+    fontSize: 13,
+    fontStyle: 'italic',
+    color: '#888',
+  },
+  diffCard: {
+    marginTop: 12,
+    backgroundColor: '#fafafa',
+  },
+  diffTitle: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  fieldChange: {
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  fieldLabel: {
+    fontWeight: 'bold',
+  },
+  diffContent: {
+    marginTop: 8,
+    fontSize: 14,
+    lineHeight: 22,
+  },
+  addedText: {
+    backgroundColor: '#e6f4ea',
+    color: '#1e7b34',
+  },
+  removedText: {
+    backgroundColor: '#fde8e8',
+    color: '#b3261e',
+    textDecorationLine: 'line-through',
+  },
+});
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, Alert } from 'react-native';
+import { Text, Card, Button, TextInput } from 'react-native-paper';
+import { getAuth } from 'firebase/auth';
+import {
+  DEFAULT_ATTESTATION,
+  getNoteStatus,
+  isNoteLocked,
+  setNoteReviewStatus,
+  signNote,
+} from '../services/noteSigningService';
+import { Note } from '../types';
+
+interface NoteSignaturePanelProps {
+  note: Note;
+  onChange: (note: Note) => void;
+  // Set while the note is being edited or saved
+  disabled?: boolean;
+}
+
+export default function NoteSignaturePanel({ note, onChange, disabled }: NoteSignaturePanelProps) {
+  // null unless the sign form is open
+  const [attestation, setAttestation] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const status = getNoteStatus(note);
+  const user = getAuth().currentUser;
+
+  const run = async (action: () => Promise<Note>) => {
+    try {
+      setBusy(true);
+      onChange(await action());
+      setAttestation(null);
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!isNoteLocked(note)) {
+    return (
+      <Card style={styles.card}>
+        <Card.Content>
+          <Text style={styles.sectionTitle}>Signature</Text>
+          <Text style={styles.infoText}>
+            {status === 'pending_review'
+              ? 'This note is waiting for review. Sign it once it is final.'
+              : 'This note is a draft. Sign it once it is final; signed notes can only be added to with addenda, not edited.'}
+          </Text>
+
+          {attestation !== null ? (
+            <>
+              <TextInput
+                mode="outlined"
+                label="Attestation"
+                value={attestation}
+                onChangeText={setAttestation}
+                multiline
+                disabled={busy}
+                style={styles.input}
+              />
+              <Text style={styles.metaText}>
+                Signing as {user?.displayName || user?.email || 'the current user'}
+              </Text>
+              <View style={styles.actions}>
+                <Button onPress={() => setAttestation(null)} disabled={busy}>Cancel</Button>
+                <Button
+                  mode="contained"
+                  icon="draw"
+                  onPress={() => run(() => signNote(note.id, attestation))}
+                  loading={busy}
+                  disabled={busy || !attestation.trim()}
+                >
+                  Sign Note
+                </Button>
+              </View>
+            </>
+          ) : (
+            <View style={styles.actions}>
+              <Button
+                onPress={() => run(() => setNoteReviewStatus(note.id, status === 'draft' ? 'pending_review' : 'draft'))}
+                disabled={disabled || busy}
+              >
+                {status === 'draft' ? 'Submit for Review' : 'Return to Draft'}
+              </Button>
+              <Button
+                mode="contained"
+                icon="draw"
+                onPress={() => setAttestation(DEFAULT_ATTESTATION)}
+                disabled={disabled || busy}
+              >
+                Sign
+              </Button>
+            </View>
+          )}
+        </Card.Content>
+      </Card>
+    );
+  }
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <Text style={styles.sectionTitle}>Signature</Text>
+        {note.signature ? (
+          <>
+            <Text style={styles.infoText}>
+              Signed by {note.signature.byName || note.signature.by} on {new Date(note.signature.at).toLocaleString()}
+            </Text>
+            <Text style={styles.attestationText}>{note.signature.attestation}</Text>
+          </>
+        ) : null}
+      </Card.Content>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    margin: 16,
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  infoText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  attestationText: {
+    marginTop: 4,
+    fontSize: 14,
+    fontStyle: 'italic',
+    color: '#555',
+  },
+  metaText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  input: {
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+});
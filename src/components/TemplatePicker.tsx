@@ -0,0 +1,57 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { Text, Chip } from 'react-native-paper';
+import { getNoteTemplates, resolveNoteTemplate, subscribeToNoteTemplates } from '../services/noteTemplates';
+
+interface TemplatePickerProps {
+  selectedTemplateId: string;
+  onSelect: (templateId: string) => void;
+  disabled?: boolean;
+}
+
+export default function TemplatePicker({ selectedTemplateId, onSelect, disabled }: TemplatePickerProps) {
+  const [templates, setTemplates] = useState(getNoteTemplates());
+  const selectedTemplate = resolveNoteTemplate(selectedTemplateId);
+
+  // Custom templates are registered after they load from Supabase
+  useEffect(() => subscribeToNoteTemplates(setTemplates), []);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Note template</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {templates.map(template => (
+          <Chip
+            key={template.id}
+            selected={template.id === selectedTemplate.id}
+            onPress={() => onSelect(template.id)}
+            disabled={disabled}
+            style={styles.chip}
+          >
+            {template.name}
+          </Chip>
+        ))}
+      </ScrollView>
+      <Text style={styles.description}>{selectedTemplate.description}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginVertical: 10,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  chip: {
+    marginRight: 8,
+  },
+  description: {
+    marginTop: 8,
+    fontSize: 13,
+    color: '#666',
+  },
+});
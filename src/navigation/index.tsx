@@ -1,5 +1,5 @@
 // src/navigation/index.tsx
-import React from 'react';
+import React, { useEffect } from 'react';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { Ionicons } from '@expo/vector-icons';
@@ -7,12 +7,20 @@ import HomeScreen from '../screens/HomeScreen';
 import HistoryScreen from '../screens/HistoryScreen';
 import NoteDetailScreen from '../screens/NoteDetailScreen';
 import SettingsScreen from '../screens/SettingsScreen';
+import RecordingQueueScreen from '../screens/RecordingQueueScreen';
+import TemplatesScreen from '../screens/TemplatesScreen';
+import TemplateEditorScreen from '../screens/TemplateEditorScreen';
+import TrashScreen from '../screens/TrashScreen';
 import SignInScreen from '../screens/SignInScreen';
 import SignUpScreen from '../screens/SignUpScreen';
 import { Note } from '../types';
 import { useAuth } from '../context/AuthContext';
 import { ActivityIndicator, View } from 'react-native';
 import VoiceRecorderScreen from '../screens/VoiceRecorderScreen';
+import { startRecordingQueue } from '../services/recordingQueueService';
+import { startNoteSync } from '../services/noteSyncService';
+import { loadCustomTemplates } from '../services/templateService';
+import { purgeExpiredNotes } from '../services/trashService';
 
 export type RootStackParamList = {
   // Include all screens that can be navigated to from anywhere
@@ -32,6 +40,10 @@ export type AuthStackParamList = {
 export type AppStackParamList = {
   MainTabs: undefined;
   NoteDetail: { noteId: string };
+  RecordingQueue: undefined;
+  Templates: undefined;
+  TemplateEditor: { templateId?: string };
+  Trash: undefined;
 };
 
 export type MainTabsParamList = {
@@ -94,6 +106,32 @@ function AuthScreens() {
 }
 
 function AppScreens() {
+  // Queued recordings need a signed-in user to save their notes, and their
+  // custom templates loaded so the notes are generated with the right one
+  useEffect(() => {
+    let cancelled = false;
+    let stopQueue: (() => void) | null = null;
+
+    loadCustomTemplates()
+      .catch(error => console.error('Error loading custom templates:', error))
+      .finally(() => {
+        if (!cancelled) stopQueue = startRecordingQueue();
+      });
+
+    return () => {
+      cancelled = true;
+      stopQueue?.();
+    };
+  }, []);
+
+  // Notes are read from the device; keep them in step with Supabase while signed in
+  useEffect(() => startNoteSync(), []);
+
+  // Notes left in the trash past the retention period are deleted for good
+  useEffect(() => {
+    purgeExpiredNotes().catch(error => console.warn('Could not purge expired notes from the trash:', error));
+  }, []);
+
   return (
     <AppStack.Navigator>
       <AppStack.Screen 
@@ -106,6 +144,26 @@ function AppScreens() {
         component={NoteDetailScreen} 
         options={{ title: 'Note Details' }}
       />
+      <AppStack.Screen 
+        name="RecordingQueue" 
+        component={RecordingQueueScreen} 
+        options={{ title: 'Recording Queue' }}
+      />
+      <AppStack.Screen 
+        name="Templates" 
+        component={TemplatesScreen} 
+        options={{ title: 'Note Templates' }}
+      />
+      <AppStack.Screen 
+        name="TemplateEditor" 
+        component={TemplateEditorScreen} 
+        options={({ route }) => ({ title: route.params?.templateId ? 'Edit Template' : 'New Template' })}
+      />
+      <AppStack.Screen 
+        name="Trash" 
+        component={TrashScreen} 
+        options={{ title: 'Trash' }}
+      />
     </AppStack.Navigator>
   );
 }
@@ -1,90 +1,351 @@
-import React, { useState, useEffect } from 'react';
-import { View, StyleSheet, FlatList, TouchableOpacity, Alert } from 'react-native';
-import { Appbar, Searchbar, Card, Text, Chip, ActivityIndicator, IconButton } from 'react-native-paper';
+import React, { useState, useEffect, useRef } from 'react';
+import { View, StyleSheet, SectionList, TouchableOpacity, Alert, ScrollView } from 'react-native';
+import { Appbar, Searchbar, Card, Text, Chip, ActivityIndicator, IconButton, Button, Checkbox, ProgressBar, Snackbar, Menu } from 'react-native-paper';
 import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../navigation';
-import { getNotes, searchNotes, deleteNote } from '../services/storageService';
-import { Note } from '../types';
+import {
+  NOTES_PAGE_SIZE,
+  BulkProgressListener,
+  BulkResult,
+  NoteConflict,
+  NoteSyncState,
+  bulkEditNotes,
+  bulkRemoveNotes,
+  countLocalNotes,
+  getLocalFilterOptions,
+  getLocalNoteIds,
+  getLocalNotes,
+  getLocalNotesById,
+  removeNote,
+  resolveNoteConflict,
+  searchLocalNotes,
+  subscribeToNoteSync,
+  syncNotes,
+} from '../services/noteSyncService';
+import { NoteSearchResult, searchNotes } from '../services/notesRepository';
+import { NOTE_STATUS_LABELS, getNoteStatus, isNoteLocked } from '../services/noteSigningService';
+import { deleteSavedFilter, getSavedFilters, saveNoteFilter } from '../services/savedFilterService';
+import { exportNotes, exportNotesAsFhir, exportNotesAsPdf, sendNotesToFhirServer } from '../services/noteExportService';
+import BulkEditPanel from '../components/BulkEditPanel';
+import HighlightedText from '../components/HighlightedText';
+import NoteFilterPanel from '../components/NoteFilterPanel';
+import { countActiveFilters, matchesNoteFilters, sameNoteFilters } from '../utils/noteFilters';
+import { NoteCursor, groupNotesByDay, mergeNotes } from '../utils/noteList';
+import { Note, NoteFilters, NoteStatus, SavedNoteFilter } from '../types';
 
 type HistoryScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'History'>;
 
+type StatusFilter = 'all' | 'unsigned' | NoteStatus;
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+// How long a bulk delete can be undone before it is sent to Supabase
+const UNDO_WINDOW_MS = 6000;
+
+const UNSIGNED_STATUSES: NoteStatus[] = ['draft', 'pending_review'];
+
+const STATUS_FILTERS: { key: StatusFilter; label: string; statuses?: NoteStatus[] }[] = [
+  { key: 'all', label: 'All' },
+  { key: 'unsigned', label: 'Unsigned', statuses: UNSIGNED_STATUSES },
+  { key: 'draft', label: NOTE_STATUS_LABELS.draft, statuses: ['draft'] },
+  { key: 'pending_review', label: NOTE_STATUS_LABELS.pending_review, statuses: ['pending_review'] },
+  { key: 'signed', label: NOTE_STATUS_LABELS.signed, statuses: ['signed'] },
+  { key: 'amended', label: NOTE_STATUS_LABELS.amended, statuses: ['amended'] },
+];
+
+function statusesFor(filter: StatusFilter): NoteStatus[] | undefined {
+  return STATUS_FILTERS.find(option => option.key === filter)?.statuses;
+}
+
+function countLabel(count: number): string {
+  return count === 1 ? '1 note' : `${count} notes`;
+}
+
+function statusFilterOf(filters: NoteFilters): StatusFilter | undefined {
+  const key = JSON.stringify([...(filters.statuses || [])].sort());
+  return STATUS_FILTERS.find(option => JSON.stringify([...(option.statuses || [])].sort()) === key)?.key;
+}
+
 export default function HistoryScreen() {
   const navigation = useNavigation<HistoryScreenNavigationProp>();
   const [notes, setNotes] = useState<Note[]>([]);
   const [filteredNotes, setFilteredNotes] = useState<Note[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [loading, setLoading] = useState(true);
-  const [page, setPage] = useState(1);
-  const [hasMore, setHasMore] = useState(true);
+  // Where the loaded notes end; null once everything is loaded
+  const [nextCursor, setNextCursor] = useState<NoteCursor | null>(null);
   const [loadingMore, setLoadingMore] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [totalCount, setTotalCount] = useState<number | null>(null);
+  const [filters, setFilters] = useState<NoteFilters>({});
+  const [showFilters, setShowFilters] = useState(false);
+  const [filterOptions, setFilterOptions] = useState<{ procedureTypes: string[]; tags: string[] }>({ procedureTypes: [], tags: [] });
+  const [savedFilters, setSavedFilters] = useState<SavedNoteFilter[]>([]);
+  const [unsignedCount, setUnsignedCount] = useState(0);
+  const [syncState, setSyncState] = useState<NoteSyncState | null>(null);
+  // Search results by note ID, for their highlighted title and excerpt
+  const [searchResults, setSearchResults] = useState<Map<string, NoteSearchResult>>(new Map());
+  const [searching, setSearching] = useState(false);
+  const searchTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const searchRequest = useRef<AbortController | null>(null);
+  // IDs of the selected notes; null unless selecting
+  const [selectedIds, setSelectedIds] = useState<Set<string> | null>(null);
+  const [showBulkEdit, setShowBulkEdit] = useState(false);
+  const [bulkProgress, setBulkProgress] = useState<{ label: string; done: number; total: number } | null>(null);
+  const [fhirMenuVisible, setFhirMenuVisible] = useState(false);
+  // Notes deleted in bulk are hidden until the undo window closes, then deleted
+  const [pendingDeleteIds, setPendingDeleteIds] = useState<Set<string> | null>(null);
+  const [deletingIds, setDeletingIds] = useState<Set<string> | null>(null);
+  const pendingDelete = useRef<string[] | null>(null);
+  const pendingDeleteTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // The undo timer runs the latest commit, which reloads with the current filters
+  const commitPendingDeleteRef = useRef<() => void>(() => {});
 
   useEffect(() => {
     loadNotes();
+    getSavedFilters()
+      .then(setSavedFilters)
+      .catch(error => console.warn('Could not load saved filters:', error));
+    const unsubscribe = subscribeToNoteSync(setSyncState);
+    
+    return () => {
+      unsubscribe();
+      cancelSearch();
+      // Leaving the screen closes the undo window
+      if (pendingDeleteTimer.current) clearTimeout(pendingDeleteTimer.current);
+      if (pendingDelete.current) {
+        bulkRemoveNotes(pendingDelete.current).catch(error => console.error('Error deleting notes:', error));
+      }
+    };
   }, []);
 
-  const loadNotes = async (resetPagination = true) => {
+  // The tab stays mounted, so pick up notes saved elsewhere in the app when it is shown again
+  useEffect(() => {
+    return navigation.addListener('focus', () => {
+      if (!loading && !searchQuery) reloadLoadedNotes();
+    });
+  }, [navigation, loading, searchQuery, notes.length, filters]);
+
+  // Show what the last sync or live update brought in without resetting the list
+  useEffect(() => {
+    if ((syncState?.lastSyncedAt || syncState?.lastRemoteChange) && !loading && !searchQuery) {
+      reloadLoadedNotes();
+    }
+  }, [syncState?.lastSyncedAt, syncState?.lastRemoteChange?.at]);
+
+  const loadNotes = async (activeFilters = filters) => {
     try {
       setLoading(true);
-      if (resetPagination) {
-        setPage(1);
-      }
-      
-      const { notes: loadedNotes, hasMore: moreAvailable } = await getNotes(resetPagination ? 1 : page);
+      refreshCounts(activeFilters);
       
-      if (resetPagination) {
-        setNotes(loadedNotes);
-        setFilteredNotes(loadedNotes);
-      } else {
-        setNotes(prev => [...prev, ...loadedNotes]);
-        setFilteredNotes(prev => [...prev, ...loadedNotes]);
-      }
-      
-      setHasMore(moreAvailable);
-      setLoading(false);
+      const page = await getLocalNotes(null, NOTES_PAGE_SIZE, activeFilters);
+      setNotes(page.notes);
+      setFilteredNotes(page.notes);
+      setNextCursor(page.nextCursor);
     } catch (error) {
       console.error('Error loading notes:', error);
-      setLoading(false);
       Alert.alert('Error', 'Failed to load notes. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Counted once per load rather than with every page
+  const refreshCounts = (activeFilters: NoteFilters) => {
+    countLocalNotes({ statuses: UNSIGNED_STATUSES })
+      .then(setUnsignedCount)
+      .catch(error => console.warn('Could not count unsigned notes:', error));
+    countLocalNotes(activeFilters)
+      .then(setTotalCount)
+      .catch(error => console.warn('Could not count notes:', error));
+  };
+
+  // Reload as many notes as are shown, keeping the scroll position
+  const reloadLoadedNotes = async () => {
+    try {
+      const page = await getLocalNotes(null, Math.max(notes.length, NOTES_PAGE_SIZE), filters);
+      setNotes(page.notes);
+      if (!searchQuery) setFilteredNotes(page.notes);
+      setNextCursor(page.nextCursor);
+      refreshCounts(filters);
+    } catch (error) {
+      console.warn('Could not reload notes:', error);
     }
   };
 
   const loadMoreNotes = async () => {
-    if (!hasMore || loadingMore || loading) return;
+    if (!nextCursor || loadingMore || loading) return;
     
     try {
       setLoadingMore(true);
-      const nextPage = page + 1;
-      setPage(nextPage);
-      await loadNotes(false);
-      setLoadingMore(false);
+      const page = await getLocalNotes(nextCursor, NOTES_PAGE_SIZE, filters);
+      setNotes(prev => mergeNotes(prev, page.notes));
+      setFilteredNotes(prev => mergeNotes(prev, page.notes));
+      setNextCursor(page.nextCursor);
     } catch (error) {
       console.error('Error loading more notes:', error);
+    } finally {
       setLoadingMore(false);
     }
   };
 
-  const handleSearch = async (query: string) => {
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await syncNotes().catch(error => console.warn('Sync failed:', error));
+    await reloadLoadedNotes();
+    setRefreshing(false);
+  };
+
+  const handleReviewConflict = (conflict: NoteConflict) => {
+    if (conflict.local) {
+      navigation.navigate('NoteDetail', { noteId: conflict.id });
+      return;
+    }
+
+    // Deleted here but changed elsewhere: there is no local note to open
+    Alert.alert(
+      'Deleted Note Was Changed',
+      `"${conflict.remote?.title || 'Untitled Note'}" was deleted on this device but edited on another one.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Keep Deleted',
+          style: 'destructive',
+          onPress: () => resolveConflict(conflict.id, 'local'),
+        },
+        { text: 'Restore', onPress: () => resolveConflict(conflict.id, 'remote') },
+      ]
+    );
+  };
+
+  const resolveConflict = async (id: string, keep: 'local' | 'remote') => {
+    try {
+      await resolveNoteConflict(id, keep);
+      loadNotes();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const applyFilters = (nextFilters: NoteFilters) => {
+    setFilters(nextFilters);
+    setShowFilters(false);
+    // Select all picks from the filtered notes, so a selection does not outlive them
+    exitSelection();
+    
+    // The text search stays and is narrowed by the new filters
+    if (searchQuery.trim()) {
+      cancelSearch();
+      setSearching(true);
+      runSearch(searchQuery, nextFilters);
+    } else {
+      loadNotes(nextFilters);
+    }
+  };
+
+  const handleStatusFilter = (filter: StatusFilter) => {
+    applyFilters({ ...filters, statuses: statusesFor(filter) });
+  };
+
+  const handleToggleFilters = async () => {
+    if (showFilters) {
+      setShowFilters(false);
+      return;
+    }
+    
+    try {
+      setFilterOptions(await getLocalFilterOptions());
+    } catch (error) {
+      console.warn('Could not load filter options:', error);
+    }
+    setShowFilters(true);
+  };
+
+  const handleSaveFilter = async (name: string, filtersToSave: NoteFilters) => {
+    const saved = await saveNoteFilter(name, filtersToSave);
+    setSavedFilters(current => [...current.filter(item => item.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+    applyFilters(saved.filters);
+  };
+
+  const handleDeleteSavedFilter = (savedFilter: SavedNoteFilter) => {
+    Alert.alert('Delete Saved Filter', `Delete the saved filter "${savedFilter.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteSavedFilter(savedFilter.id);
+            setSavedFilters(current => current.filter(item => item.id !== savedFilter.id));
+          } catch (error) {
+            Alert.alert('Error', error instanceof Error ? error.message : String(error));
+          }
+        },
+      },
+    ]);
+  };
+
+  const cancelSearch = () => {
+    if (searchTimer.current) clearTimeout(searchTimer.current);
+    searchTimer.current = null;
+    searchRequest.current?.abort();
+    searchRequest.current = null;
+  };
+
+  const handleSearch = (query: string) => {
     setSearchQuery(query);
+    cancelSearch();
     
     if (query.trim() === '') {
       setFilteredNotes(notes);
+      setSearchResults(new Map());
+      setSearching(false);
       return;
     }
     
+    setSearching(true);
+    searchTimer.current = setTimeout(() => runSearch(query), SEARCH_DEBOUNCE_MS);
+  };
+
+  const runSearch = async (query: string, activeFilters = filters) => {
+    const controller = new AbortController();
+    searchRequest.current = controller;
+    
     try {
-      const results = await searchNotes(query);
-      setFilteredNotes(results);
+      let results: NoteSearchResult[];
+      if (syncState?.online === false) {
+        results = await searchLocalNotes(query);
+      } else {
+        try {
+          results = await searchNotes(query, controller.signal);
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          console.warn('Searching notes on this device instead:', error);
+          results = await searchLocalNotes(query);
+        }
+      }
+      if (controller.signal.aborted) return;
+      
+      const visible = results.filter(result => matchesNoteFilters(result.note, activeFilters));
+      setFilteredNotes(visible.map(result => result.note));
+      setSearchResults(new Map(visible.map(result => [result.note.id, result])));
     } catch (error) {
       console.error('Error searching notes:', error);
       Alert.alert('Error', 'Failed to search notes. Please try again.');
+    } finally {
+      if (searchRequest.current === controller) {
+        searchRequest.current = null;
+        setSearching(false);
+      }
     }
   };
 
   const handleDeleteNote = (id: string) => {
     Alert.alert(
       'Delete Note',
-      'Are you sure you want to delete this note? This action cannot be undone.',
+      'Move this note to the trash? You can restore it from Settings until it is deleted for good.',
       [
         {
           text: 'Cancel',
@@ -95,7 +356,7 @@ export default function HistoryScreen() {
           style: 'destructive',
           onPress: async () => {
             try {
-              await deleteNote(id);
+              await removeNote(id);
               // Refresh the notes list
               loadNotes();
             } catch (error) {
@@ -108,44 +369,255 @@ export default function HistoryScreen() {
     );
   };
 
+  const startSelection = (id?: string) => {
+    setSelectedIds(new Set(id ? [id] : []));
+  };
+
+  const exitSelection = () => {
+    setSelectedIds(null);
+    setShowBulkEdit(false);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(current => {
+      if (!current) return current;
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleSelectAll = async () => {
+    if (allSelected) {
+      setSelectedIds(new Set());
+      return;
+    }
+
+    try {
+      // Search results are all loaded; otherwise every note matching the filters counts, loaded or not
+      const ids = searchQuery ? visibleNotes.map(note => note.id) : await getLocalNoteIds(filters);
+      setSelectedIds(new Set(ids.filter(id => !hiddenIds.has(id))));
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleToggleBulkEdit = async () => {
+    if (showBulkEdit) {
+      setShowBulkEdit(false);
+      return;
+    }
+    
+    try {
+      setFilterOptions(await getLocalFilterOptions());
+    } catch (error) {
+      console.warn('Could not load filter options:', error);
+    }
+    setShowBulkEdit(true);
+  };
+
+  // Reload what is shown after notes changed in bulk
+  const refreshList = () => {
+    if (searchQuery.trim()) {
+      cancelSearch();
+      setSearching(true);
+      runSearch(searchQuery);
+    } else {
+      reloadLoadedNotes();
+    }
+  };
+
+  /**
+   * Run a bulk action with a progress bar, then tell the user about notes it skipped
+   * @returns Whether the action ran
+   */
+  const runBulkAction = async (
+    label: string,
+    action: (onProgress: BulkProgressListener) => Promise<BulkResult>
+  ): Promise<boolean> => {
+    setBulkProgress({ label, done: 0, total: 0 });
+
+    try {
+      const result = await action((done, total) => setBulkProgress({ label, done, total }));
+      if (result.skipped > 0) {
+        Alert.alert(
+          'Some Notes Were Skipped',
+          `${countLabel(result.skipped)} could not be changed. Notes that are signed, have changes that have not synced yet or were changed on another device are left as they were.`
+        );
+      }
+      return true;
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : String(error));
+      return false;
+    } finally {
+      setBulkProgress(null);
+      refreshList();
+    }
+  };
+
+  const runBulkEdit = async (label: string, edit: (note: Note) => Partial<Note> | null) => {
+    if (!selectedIds || selectedIds.size === 0) return;
+
+    const ids = Array.from(selectedIds);
+    if (await runBulkAction(label, onProgress => bulkEditNotes(ids, edit, onProgress))) {
+      exitSelection();
+    }
+  };
+
+  const handleAddTags = (tags: string[]) => {
+    runBulkEdit('Adding tags', note => {
+      const current = note.tags || [];
+      const added = tags.filter(tag => !current.some(existing => existing.toLowerCase() === tag.toLowerCase()));
+      return added.length > 0 ? { tags: [...current, ...added] } : null;
+    });
+  };
+
+  const handleRemoveTags = (tags: string[]) => {
+    const removed = tags.map(tag => tag.toLowerCase());
+    runBulkEdit('Removing tags', note => {
+      const current = note.tags || [];
+      const kept = current.filter(tag => !removed.includes(tag.toLowerCase()));
+      return kept.length < current.length ? { tags: kept } : null;
+    });
+  };
+
+  const handleSetProcedureType = (procedureType: string) => {
+    runBulkEdit('Changing procedure type', note => (
+      note.procedureType === procedureType ? null : { procedureType }
+    ));
+  };
+
+  // Selected notes go into one text file, PDF or FHIR bundle
+  const handleBulkExport = async (format: 'text' | 'pdf' | 'fhir' | 'fhirServer') => {
+    setFhirMenuVisible(false);
+    if (!selectedIds || selectedIds.size === 0) return;
+
+    try {
+      switch (format) {
+        case 'pdf':
+          setBulkProgress({ label: 'Preparing PDF', done: 0, total: 0 });
+          await exportNotesAsPdf(await getLocalNotesById(Array.from(selectedIds)));
+          break;
+        case 'fhir':
+          setBulkProgress({ label: 'Preparing FHIR bundle', done: 0, total: 0 });
+          await exportNotesAsFhir(await getLocalNotesById(Array.from(selectedIds)));
+          break;
+        case 'fhirServer': {
+          setBulkProgress({ label: 'Sending to FHIR server', done: 0, total: 0 });
+          const sent = await sendNotesToFhirServer(await getLocalNotesById(Array.from(selectedIds)));
+          Alert.alert('Notes Sent', `${countLabel(sent)} sent to the FHIR server.`);
+          break;
+        }
+        default:
+          setBulkProgress({ label: 'Preparing export', done: 0, total: 0 });
+          await exportNotes(await getLocalNotesById(Array.from(selectedIds)));
+      }
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : String(error));
+    } finally {
+      setBulkProgress(null);
+    }
+  };
+
+  // Deleting again before the undo window closes adds to the same delete
+  const handleBulkDelete = () => {
+    if (!selectedIds || selectedIds.size === 0) return;
+
+    const ids = [...(pendingDelete.current || []), ...Array.from(selectedIds)];
+    pendingDelete.current = ids;
+    setPendingDeleteIds(new Set(ids));
+    if (pendingDeleteTimer.current) clearTimeout(pendingDeleteTimer.current);
+    pendingDeleteTimer.current = setTimeout(() => commitPendingDeleteRef.current(), UNDO_WINDOW_MS);
+    exitSelection();
+  };
+
+  const handleUndoDelete = () => {
+    if (pendingDeleteTimer.current) clearTimeout(pendingDeleteTimer.current);
+    pendingDeleteTimer.current = null;
+    pendingDelete.current = null;
+    setPendingDeleteIds(null);
+  };
+
+  const commitPendingDelete = async () => {
+    const ids = pendingDelete.current;
+    if (!ids) return;
+
+    if (pendingDeleteTimer.current) clearTimeout(pendingDeleteTimer.current);
+    pendingDeleteTimer.current = null;
+    pendingDelete.current = null;
+
+    // The notes stay hidden while they are deleted
+    setDeletingIds(new Set(ids));
+    setPendingDeleteIds(null);
+    await runBulkAction(`Deleting ${countLabel(ids.length)}`, onProgress => bulkRemoveNotes(ids, onProgress));
+    setDeletingIds(null);
+  };
+  commitPendingDeleteRef.current = commitPendingDelete;
+
   const renderNoteItem = ({ item }: { item: Note }) => {
-    // Format date for display
+    // Day headers carry the date, except in ranked search results
     const date = new Date(item.createdAt || Date.now());
-    const formattedDate = date.toLocaleDateString('en-US', { 
-      year: 'numeric', 
-      month: 'short', 
-      day: 'numeric' 
-    });
+    const formattedDate = searchQuery
+      ? date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })
+      : date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+    const locked = isNoteLocked(item);
+    const match = searchQuery ? searchResults.get(item.id) : undefined;
+    const selected = !!selectedIds?.has(item.id);
 
     return (
       <TouchableOpacity
-        onPress={() => navigation.navigate('NoteDetail', { noteId: item.id })}
+        onPress={() => selectedIds ? toggleSelected(item.id) : navigation.navigate('NoteDetail', { noteId: item.id })}
+        onLongPress={() => selectedIds ? toggleSelected(item.id) : startSelection(item.id)}
       >
-        <Card style={styles.noteCard}>
+        <Card style={[styles.noteCard, locked ? null : styles.unsignedCard, selected && styles.selectedCard]}>
           <Card.Content>
             <View style={styles.cardHeader}>
-              <Text style={styles.noteTitle} numberOfLines={1} ellipsizeMode="tail">
-                {item.title || 'Untitled Note'}
-              </Text>
-              <IconButton
-                icon="delete"
-                size={20}
-                onPress={() => handleDeleteNote(item.id)}
-                style={styles.deleteButton}
-              />
+              {match ? (
+                <HighlightedText text={match.titleHighlight || 'Untitled Note'} style={styles.noteTitle} numberOfLines={1} />
+              ) : (
+                <Text style={styles.noteTitle} numberOfLines={1} ellipsizeMode="tail">
+                  {item.title || 'Untitled Note'}
+                </Text>
+              )}
+              {selectedIds ? (
+                <Checkbox status={selected ? 'checked' : 'unchecked'} onPress={() => toggleSelected(item.id)} />
+              ) : (
+                <IconButton
+                  icon="delete"
+                  size={20}
+                  onPress={() => handleDeleteNote(item.id)}
+                  style={styles.deleteButton}
+                />
+              )}
             </View>
             
             <Text style={styles.noteDate}>{formattedDate}</Text>
             
-            {item.procedureType && (
-              <Chip style={styles.procedureChip}>
-                {item.procedureType}
+            <View style={styles.chipRow}>
+              <Chip
+                style={locked ? styles.signedChip : styles.unsignedChip}
+                icon={locked ? 'lock' : 'pencil-outline'}
+              >
+                {NOTE_STATUS_LABELS[getNoteStatus(item)]}
               </Chip>
-            )}
+              {item.procedureType && (
+                <Chip style={styles.procedureChip}>
+                  {item.procedureType}
+                </Chip>
+              )}
+            </View>
             
-            <Text style={styles.noteContent} numberOfLines={2} ellipsizeMode="tail">
-              {item.content || item.transcription || 'No content'}
-            </Text>
+            {match ? (
+              <HighlightedText text={match.contentHighlight || 'No content'} style={styles.noteContent} numberOfLines={3} />
+            ) : (
+              <Text style={styles.noteContent} numberOfLines={2} ellipsizeMode="tail">
+                {item.content || item.transcription || 'No content'}
+              </Text>
+            )}
             
             {item.tags && item.tags.length > 0 && (
               <View style={styles.tagsContainer}>
@@ -177,33 +649,194 @@ export default function HistoryScreen() {
     );
   };
 
+  const statusFilter = statusFilterOf(filters);
+  const activeFilterCount = countActiveFilters(filters);
+  const filtered = activeFilterCount > 0 || statusFilter !== 'all';
+  const hiddenIds = new Set([...(pendingDeleteIds || []), ...(deletingIds || [])]);
+  const visibleNotes = hiddenIds.size > 0 ? filteredNotes.filter(note => !hiddenIds.has(note.id)) : filteredNotes;
+  const visibleCount = totalCount === null ? null : Math.max(totalCount - hiddenIds.size, 0);
+  const selectableCount = searchQuery ? visibleNotes.length : visibleCount ?? visibleNotes.length;
+  const allSelected = !!selectedIds && selectedIds.size > 0 && selectedIds.size >= selectableCount;
+  const bulkDisabled = !selectedIds || selectedIds.size === 0 || !!bulkProgress;
+
   return (
     <View style={styles.container}>
-      <Appbar.Header>
-        <Appbar.BackAction onPress={() => navigation.goBack()} />
-        <Appbar.Content title="Note History" />
-        <Appbar.Action icon="refresh" onPress={() => loadNotes()} />
-      </Appbar.Header>
+      {selectedIds ? (
+        <Appbar.Header>
+          <Appbar.Action icon="close" onPress={exitSelection} />
+          <Appbar.Content title={`${selectedIds.size} selected`} />
+          <Appbar.Action icon="pencil-box-multiple-outline" onPress={handleToggleBulkEdit} disabled={bulkDisabled} />
+          <Appbar.Action icon="export-variant" onPress={() => handleBulkExport('text')} disabled={bulkDisabled} />
+          <Appbar.Action icon="file-pdf-box" onPress={() => handleBulkExport('pdf')} disabled={bulkDisabled} />
+          <Menu
+            visible={fhirMenuVisible}
+            onDismiss={() => setFhirMenuVisible(false)}
+            anchor={
+              <Appbar.Action icon="hospital-box-outline" onPress={() => setFhirMenuVisible(true)} disabled={bulkDisabled} />
+            }
+          >
+            <Menu.Item leadingIcon="download" title="Download FHIR JSON" onPress={() => handleBulkExport('fhir')} />
+            <Menu.Item leadingIcon="send" title="Send to FHIR Server" onPress={() => handleBulkExport('fhirServer')} />
+          </Menu>
+          <Appbar.Action icon="delete" onPress={handleBulkDelete} disabled={bulkDisabled} />
+        </Appbar.Header>
+      ) : (
+        <Appbar.Header>
+          <Appbar.BackAction onPress={() => navigation.goBack()} />
+          <Appbar.Content title="Note History" />
+          <Appbar.Action icon="checkbox-multiple-marked-outline" onPress={() => startSelection()} />
+          <Appbar.Action
+            icon={activeFilterCount > 0 ? 'filter' : 'filter-outline'}
+            onPress={handleToggleFilters}
+          />
+          <Appbar.Action icon="refresh" onPress={handleRefresh} disabled={refreshing || syncState?.syncing} />
+        </Appbar.Header>
+      )}
+
+      {bulkProgress && (
+        <View style={styles.bulkProgress}>
+          <ProgressBar
+            progress={bulkProgress.total > 0 ? bulkProgress.done / bulkProgress.total : 0}
+            indeterminate={bulkProgress.total === 0}
+          />
+          <Text style={styles.bulkProgressText}>
+            {bulkProgress.total > 0 ? `${bulkProgress.label}: ${bulkProgress.done} of ${bulkProgress.total}` : `${bulkProgress.label}...`}
+          </Text>
+        </View>
+      )}
 
       <View style={styles.searchContainer}>
         <Searchbar
           placeholder="Search notes"
           onChangeText={handleSearch}
           value={searchQuery}
+          loading={searching}
           style={styles.searchBar}
         />
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filterRow}>
+          {STATUS_FILTERS.map(option => (
+            <Chip
+              key={option.key}
+              selected={statusFilter === option.key}
+              onPress={() => handleStatusFilter(option.key)}
+              style={styles.filterChip}
+            >
+              {option.label}
+            </Chip>
+          ))}
+        </ScrollView>
+        {savedFilters.length > 0 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filterRow}>
+            {savedFilters.map(savedFilter => (
+              <Chip
+                key={savedFilter.id}
+                icon="content-save-outline"
+                selected={sameNoteFilters(savedFilter.filters, filters)}
+                onPress={() => applyFilters(savedFilter.filters)}
+                onLongPress={() => handleDeleteSavedFilter(savedFilter)}
+                style={styles.filterChip}
+              >
+                {savedFilter.name}
+              </Chip>
+            ))}
+          </ScrollView>
+        )}
+        {activeFilterCount > 0 && (
+          <View style={styles.activeFiltersRow}>
+            <Text style={styles.activeFiltersText}>
+              {activeFilterCount === 1 ? '1 filter' : `${activeFilterCount} filters`} applied
+            </Text>
+            <Button compact onPress={() => applyFilters({ statuses: filters.statuses })}>Clear</Button>
+          </View>
+        )}
+        {selectedIds && (
+          <View style={styles.activeFiltersRow}>
+            <Text style={styles.activeFiltersText}>
+              {allSelected
+                ? `All ${countLabel(selectedIds.size)}${searchQuery || filtered ? ' matching' : ''} selected`
+                : 'Tap notes to select them'}
+            </Text>
+            <Button compact onPress={handleSelectAll} disabled={!!bulkProgress}>
+              {allSelected ? 'Select None' : searchQuery || filtered ? 'Select All Matching' : 'Select All'}
+            </Button>
+          </View>
+        )}
       </View>
 
+      {selectedIds && showBulkEdit && (
+        <ScrollView style={styles.filterPanel}>
+          <BulkEditPanel
+            count={selectedIds.size}
+            procedureTypes={filterOptions.procedureTypes}
+            tags={filterOptions.tags}
+            disabled={bulkDisabled}
+            onAddTags={handleAddTags}
+            onRemoveTags={handleRemoveTags}
+            onSetProcedureType={handleSetProcedureType}
+            onClose={() => setShowBulkEdit(false)}
+          />
+        </ScrollView>
+      )}
+
+      {showFilters && (
+        <ScrollView style={styles.filterPanel}>
+          <NoteFilterPanel
+            filters={filters}
+            procedureTypes={filterOptions.procedureTypes}
+            tags={filterOptions.tags}
+            onApply={applyFilters}
+            onSave={handleSaveFilter}
+            onClose={() => setShowFilters(false)}
+          />
+        </ScrollView>
+      )}
+
+      {syncState && (!syncState.online || syncState.pendingNoteIds.length > 0 || syncState.lastError) && (
+        <Text style={styles.syncStatusText}>
+          {!syncState.online
+            ? 'Offline. Changes are saved on this device and will sync later.'
+            : syncState.lastError
+              ? `Some changes could not sync: ${syncState.lastError}`
+              : `${syncState.pendingNoteIds.length} ${syncState.pendingNoteIds.length === 1 ? 'change' : 'changes'} waiting to sync`}
+        </Text>
+      )}
+
+      {syncState && syncState.conflicts.length > 0 && (
+        <Card style={styles.conflictBanner}>
+          <Card.Content style={styles.unsignedBannerContent}>
+            <Text style={styles.conflictBannerText}>
+              {syncState.conflicts.length === 1 ? '1 note was' : `${syncState.conflicts.length} notes were`} also changed on another device
+            </Text>
+            <Button compact onPress={() => handleReviewConflict(syncState.conflicts[0])}>Review</Button>
+          </Card.Content>
+        </Card>
+      )}
+
+      {unsignedCount > 0 && statusFilter !== 'unsigned' && (
+        <Card style={styles.unsignedBanner}>
+          <Card.Content style={styles.unsignedBannerContent}>
+            <Text style={styles.unsignedBannerText}>
+              {unsignedCount === 1 ? '1 note still needs' : `${unsignedCount} notes still need`} your signature
+            </Text>
+            <Button compact onPress={() => handleStatusFilter('unsigned')}>Review</Button>
+          </Card.Content>
+        </Card>
+      )}
+
       {loading && !loadingMore ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" />
         </View>
-      ) : filteredNotes.length === 0 ? (
+      ) : visibleNotes.length === 0 ? (
         <View style={styles.emptyContainer}>
           <Text style={styles.emptyText}>
-            {searchQuery ? 'No matching notes found' : 'No notes saved yet'}
+            {searching ? 'Searching...' : searchQuery ? 'No matching notes found' : filtered ? 'No notes match these filters' : 'No notes saved yet'}
           </Text>
-          {searchQuery ? (
+          {filtered && !searchQuery ? (
+            <TouchableOpacity onPress={() => applyFilters({})}>
+              <Text style={styles.clearSearchText}>Show all notes</Text>
+            </TouchableOpacity>
+          ) : searchQuery ? (
             <TouchableOpacity onPress={() => handleSearch('')}>
               <Text style={styles.clearSearchText}>Clear search</Text>
             </TouchableOpacity>
@@ -214,16 +847,37 @@ export default function HistoryScreen() {
           )}
         </View>
       ) : (
-        <FlatList
-          data={filteredNotes}
+        <SectionList
+          sections={searchQuery ? [{ title: '', data: visibleNotes }] : groupNotesByDay(visibleNotes)}
           renderItem={renderNoteItem}
+          extraData={selectedIds}
+          renderSectionHeader={({ section }) => (
+            section.title ? <Text style={styles.sectionHeader}>{section.title}</Text> : null
+          )}
           keyExtractor={(item) => item.id}
           contentContainerStyle={styles.notesList}
+          ListHeaderComponent={!searchQuery && visibleCount !== null ? (
+            <Text style={styles.totalCountText}>{countLabel(visibleCount)}</Text>
+          ) : null}
           onEndReached={!searchQuery ? loadMoreNotes : null}
           onEndReachedThreshold={0.5}
           ListFooterComponent={renderFooter}
+          refreshing={refreshing}
+          onRefresh={handleRefresh}
+          stickySectionHeadersEnabled
+          initialNumToRender={10}
+          windowSize={11}
         />
       )}
+
+      <Snackbar
+        visible={!!pendingDeleteIds}
+        onDismiss={() => commitPendingDeleteRef.current()}
+        duration={UNDO_WINDOW_MS}
+        action={{ label: 'Undo', onPress: handleUndoDelete }}
+      >
+        {`${countLabel(pendingDeleteIds?.size || 0)} moved to the trash`}
+      </Snackbar>
     </View>
   );
 }
@@ -241,6 +895,68 @@ const styles = StyleSheet.create({
     elevation: 0,
     backgroundColor: '#f0f2f5',
   },
+  filterRow: {
+    marginTop: 12,
+  },
+  filterChip: {
+    marginRight: 8,
+  },
+  activeFiltersRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  activeFiltersText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  filterPanel: {
+    maxHeight: '60%',
+  },
+  bulkProgress: {
+    paddingHorizontal: 16,
+    paddingTop: 8,
+    backgroundColor: '#fff',
+  },
+  bulkProgressText: {
+    fontSize: 13,
+    color: '#666',
+    paddingVertical: 6,
+  },
+  syncStatusText: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    fontSize: 13,
+    color: '#666',
+  },
+  conflictBanner: {
+    margin: 16,
+    marginBottom: 0,
+    backgroundColor: '#fdecea',
+  },
+  conflictBannerText: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#a32020',
+  },
+  unsignedBanner: {
+    margin: 16,
+    marginBottom: 0,
+    backgroundColor: '#fff3e0',
+  },
+  unsignedBannerContent: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  unsignedBannerText: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#8a4b00',
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -270,10 +986,29 @@ const styles = StyleSheet.create({
   notesList: {
     padding: 16,
   },
+  totalCountText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  sectionHeader: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#555',
+    backgroundColor: '#f5f7fa',
+    paddingTop: 8,
+    paddingBottom: 8,
+  },
   noteCard: {
     marginBottom: 12,
     elevation: 1,
   },
+  unsignedCard: {
+    borderLeftWidth: 4,
+    borderLeftColor: '#f0a020',
+  },
+  selectedCard: {
+    backgroundColor: '#e8f0fe',
+  },
   cardHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -292,11 +1027,27 @@ const styles = StyleSheet.create({
     color: '#666',
     marginBottom: 8,
   },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
   procedureChip: {
     alignSelf: 'flex-start',
     marginBottom: 8,
     backgroundColor: '#e8f0fe',
   },
+  unsignedChip: {
+    alignSelf: 'flex-start',
+    marginRight: 8,
+    marginBottom: 8,
+    backgroundColor: '#fff3e0',
+  },
+  signedChip: {
+    alignSelf: 'flex-start',
+    marginRight: 8,
+    marginBottom: 8,
+    backgroundColor: '#e6f4ea',
+  },
   noteContent: {
     fontSize: 15,
     color: '#333',
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { View, StyleSheet, ScrollView, Alert, Platform } from 'react-native';
 import { Button, Card, Text, ActivityIndicator, Divider } from 'react-native-paper';
 import { useNavigation } from '@react-navigation/native';
@@ -8,10 +8,13 @@ import { CompositeNavigationProp } from '@react-navigation/native';
 import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import AudioUploader from '../components/AudioUploader';
 import TranscriptionView from '../components/TranscriptionView';
+import TemplatePicker from '../components/TemplatePicker';
 import { uploadAudio } from '../services/audioService';
-import { transcribeAudio } from '../services/transcriptionService';
+import { transcribeAudio, formatTranscriptionProgress } from '../services/transcriptionService';
 import { generateMedicalNotes } from '../services/geminiService';
-import { saveNote } from '../services/storageService';
+import { createNote } from '../services/noteSyncService';
+import { enqueueRecording, subscribeToRecordingQueue } from '../services/recordingQueueService';
+import { DEFAULT_TEMPLATE_ID } from '../services/noteTemplates';
 import { useAuth } from '../context/AuthContext';
 import { Note,Transcription,GeminiResponse,AudioUploadResult } from '../types';
 
@@ -28,7 +31,15 @@ export default function HomeScreen() {
   const [audioFile, setAudioFile] = useState<any>(null);
   const [transcription, setTranscription] = useState<Transcription | null>(null);
   const [notes, setNotes] = useState<GeminiResponse | null>(null);
+  const [templateId, setTemplateId] = useState(DEFAULT_TEMPLATE_ID);
   const [loading, setLoading] = useState<string | null>(null);
+  const [queuedCount, setQueuedCount] = useState(0);
+
+  useEffect(() => {
+    return subscribeToRecordingQueue(items => {
+      setQueuedCount(items.filter(item => item.status !== 'completed').length);
+    });
+  }, []);
 
   const handleAudioSelect = (file: any) => {
     setAudioFile(file);
@@ -67,7 +78,9 @@ export default function HomeScreen() {
       }
       
       // Get transcription
-      const result = await transcribeAudio(uploadedUri);
+      const result = await transcribeAudio(uploadedUri, progress => {
+        setLoading(formatTranscriptionProgress(progress));
+      });
       
       if (!result || !result.text) {
         throw new Error('Transcription failed. No text was generated.');
@@ -78,7 +91,33 @@ export default function HomeScreen() {
     } catch (error) {
       console.error('Transcription error:', error);
       setLoading(null);
-      Alert.alert('Error', `Failed to transcribe audio: ${error instanceof Error ? error.message : String(error)}`);
+      Alert.alert(
+        'Error',
+        `Failed to transcribe audio: ${error instanceof Error ? error.message : String(error)}`,
+        [
+          { text: 'OK', style: 'cancel' },
+          { text: 'Transcribe Later', onPress: handleQueueForLater }
+        ]
+      );
+    }
+  };
+
+  const handleQueueForLater = async () => {
+    if (!audioFile?.uri) return;
+
+    try {
+      await enqueueRecording(audioFile.uri, { templateId });
+      setAudioFile(null);
+      Alert.alert(
+        'Queued',
+        'The recording will be transcribed and saved as a note when the connection is available.',
+        [
+          { text: 'View Queue', onPress: () => navigation.navigate('RecordingQueue') },
+          { text: 'OK', style: 'cancel' }
+        ]
+      );
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : String(error));
     }
   };
 
@@ -91,27 +130,14 @@ export default function HomeScreen() {
     try {
       setLoading("Generating medical notes...");
       
-      const result = await generateMedicalNotes(transcription.text);
+      const result = await generateMedicalNotes(transcription.text, templateId);
       console.log("Generated notes:", result);
       
-      // Extract the content from the Gemini response
-      const generatedContent = result.candidates?.[0]?.content?.parts?.[0]?.text || '';
-      const procedureType = result.procedureType || '';
-      
-      if (!generatedContent) {
+      if (!result.content) {
         throw new Error("Invalid notes generated");
       }
   
-      // Create a compatible object before setting state
-      const compatibleResult: GeminiResponse = {
-        candidates: result.candidates,
-        title: result.title,
-        content: generatedContent,
-        procedureType: procedureType,
-        tags: result.tags || [] // Ensure tags is always an array
-      };
-  
-      setNotes(compatibleResult);
+      setNotes(result);
       setLoading(null);
     } catch (error) {
       console.error(error);
@@ -138,10 +164,12 @@ export default function HomeScreen() {
         createdAt: new Date().toISOString(),
         procedureType: notes.procedureType || "",
         tags: notes.tags || [],
-        userId: user?.uid || 'anonymous'
+        userId: user?.uid || 'anonymous',
+        duration: transcription.duration ? String(Math.round(transcription.duration)) : undefined,
+        templateId: notes.templateId
       };
       
-      await saveNote(newNote);
+      await createNote(newNote);
       setLoading(null);
       
       Alert.alert(
@@ -190,6 +218,20 @@ export default function HomeScreen() {
           </Card.Actions>
         </Card>
 
+        {queuedCount > 0 && (
+          <Card style={styles.card}>
+            <Card.Title 
+              title="Recording Queue" 
+              subtitle={`${queuedCount} recording${queuedCount === 1 ? '' : 's'} waiting to be processed`} 
+            />
+            <Card.Actions>
+              <Button mode="outlined" onPress={() => navigation.navigate('RecordingQueue')}>
+                View Queue
+              </Button>
+            </Card.Actions>
+          </Card>
+        )}
+
         {loading && (
           <Card style={styles.card}>
             <Card.Content style={styles.loadingContainer}>
@@ -204,6 +246,11 @@ export default function HomeScreen() {
             <Card.Title title="Transcription" subtitle="Raw transcribed text" />
             <Card.Content>
               <TranscriptionView transcription={transcription} />
+              <TemplatePicker 
+                selectedTemplateId={templateId} 
+                onSelect={setTemplateId} 
+                disabled={loading !== null} 
+              />
             </Card.Content>
             <Card.Actions>
               <Button 
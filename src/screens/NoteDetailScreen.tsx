@@ -1,15 +1,61 @@
 import React, { useState, useEffect } from 'react';
-import { View, StyleSheet, ScrollView, Share, ActivityIndicator } from 'react-native';
-import { Appbar, Text, Card, Chip, Button } from 'react-native-paper';
+import { View, StyleSheet, ScrollView, Share, ActivityIndicator, Alert } from 'react-native';
+import { Appbar, Text, Card, Chip, Button, Banner, Menu } from 'react-native-paper';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../navigation';
-import { getNoteById } from '../services/storageService'; // Import your service function
-import { Note } from '../types';
+import {
+  NoteSyncState,
+  cacheNote,
+  editNote,
+  getLocalNote,
+  resolveNoteConflict,
+  subscribeToNoteSync,
+  syncNotes,
+} from '../services/noteSyncService';
+import { formatDuration } from '../services/audioDurationService';
+import { getNoteTemplate, joinNoteSections, orderSectionsByTemplate, splitNoteSections } from '../services/noteTemplates';
+import NoteEditor, { NoteDraft } from '../components/NoteEditor';
+import NoteHistory from '../components/NoteHistory';
+import NoteSignaturePanel from '../components/NoteSignaturePanel';
+import NoteAddenda from '../components/NoteAddenda';
+import { getNoteAddenda } from '../services/addendumService';
+import { exportNotesAsFhir, exportNotesAsPdf, formatNoteForExport, sendNotesToFhirServer } from '../services/noteExportService';
+import { NOTE_STATUS_LABELS, getNoteStatus, isNoteLocked } from '../services/noteSigningService';
+import { Note, NoteAddendum } from '../types';
 
 type NoteDetailRouteProp = RouteProp<RootStackParamList, 'NoteDetail'>;
 type NoteDetailNavigationProp = NativeStackNavigationProp<RootStackParamList, 'NoteDetail'>;
 
+function draftFromNote(note: Note): NoteDraft {
+  const template = note.templateId ? getNoteTemplate(note.templateId) : undefined;
+  const sections = splitNoteSections(note.content || '');
+  
+  return {
+    title: note.title || '',
+    procedureType: note.procedureType || '',
+    tags: note.tags || [],
+    sections: template ? orderSectionsByTemplate(sections, template) : sections.length > 0 ? sections : [{ heading: '', content: '' }],
+  };
+}
+
+/**
+ * Fields of the note that the draft changes, so only those are sent and logged
+ */
+function changesFromDraft(note: Note, draft: NoteDraft): Partial<Note> {
+  const original = draftFromNote(note);
+  const changes: Partial<Note> = {};
+  
+  if (draft.title.trim() !== original.title) changes.title = draft.title.trim();
+  if (draft.procedureType.trim() !== original.procedureType) changes.procedureType = draft.procedureType.trim();
+  if (JSON.stringify(draft.tags) !== JSON.stringify(original.tags)) changes.tags = draft.tags;
+  
+  const content = joinNoteSections(draft.sections);
+  if (content !== joinNoteSections(original.sections)) changes.content = content;
+  
+  return changes;
+}
+
 export default function NoteDetailScreen() {
   const navigation = useNavigation<NoteDetailNavigationProp>();
   const route = useRoute<NoteDetailRouteProp>();
@@ -18,13 +64,31 @@ export default function NoteDetailScreen() {
   const [note, setNote] = useState<Note | null>(null);
   const [loading, setLoading] = useState(true);
   const [showTranscription, setShowTranscription] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [addenda, setAddenda] = useState<NoteAddendum[]>([]);
+  // Set while editing; null in read mode
+  const [draft, setDraft] = useState<NoteDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [syncState, setSyncState] = useState<NoteSyncState | null>(null);
+  const [resolving, setResolving] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [fhirMenuVisible, setFhirMenuVisible] = useState(false);
+  // Latest version of the note when another device changed it during an edit
+  const [changedDuringEdit, setChangedDuringEdit] = useState<Note | null>(null);
+  
+  const isDirty = !!(note && draft && Object.keys(changesFromDraft(note, draft)).length > 0);
   
   useEffect(() => {
     const loadNote = async () => {
       try {
-        const loadedNote = await getNoteById(noteId);
+        const loadedNote = await getLocalNote(noteId);
         setNote(loadedNote);
         setLoading(false);
+        
+        // The note is usable without its addenda if they fail to load
+        getNoteAddenda(noteId)
+          .then(setAddenda)
+          .catch(error => console.error('Error loading addenda:', error));
       } catch (error) {
         console.error('Error loading note:', error);
         setLoading(false);
@@ -33,6 +97,42 @@ export default function NoteDetailScreen() {
     
     loadNote();
   }, [noteId]);
+  
+  useEffect(() => subscribeToNoteSync(setSyncState), []);
+  
+  // Pick up changes from syncs and live updates. An open edit is kept and
+  // flagged instead, so nothing typed is lost.
+  useEffect(() => {
+    if (!syncState?.lastSyncedAt && !syncState?.lastRemoteChange) return;
+    
+    getLocalNote(noteId)
+      .then(latestNote => {
+        if (!draft) {
+          setNote(latestNote);
+        } else if (note && JSON.stringify(draftFromNote(latestNote)) !== JSON.stringify(draftFromNote(note))) {
+          setChangedDuringEdit(latestNote);
+        }
+      })
+      .catch(error => console.warn('Could not reload note:', error));
+  }, [syncState?.lastSyncedAt, syncState?.lastRemoteChange?.at]);
+  
+  const editing = draft !== null;
+  useEffect(() => {
+    if (!editing) setChangedDuringEdit(null);
+  }, [editing]);
+  
+  // Ask before leaving with unsaved edits, whether by the back button or a gesture
+  useEffect(() => {
+    return navigation.addListener('beforeRemove', event => {
+      if (!isDirty) return;
+      
+      event.preventDefault();
+      Alert.alert('Discard changes?', 'You have unsaved changes to this note.', [
+        { text: 'Keep Editing', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: () => navigation.dispatch(event.data.action) },
+      ]);
+    });
+  }, [navigation, isDirty]);
 
   if (loading) {
     return (
@@ -61,58 +161,309 @@ export default function NoteDetailScreen() {
     minute: '2-digit' 
   });
 
+  const status = getNoteStatus(note);
+  const locked = isNoteLocked(note);
+  const pendingSync = !!syncState?.pendingNoteIds.includes(note.id);
+  const conflict = syncState?.conflicts.find(item => item.id === note.id);
+  // Signing or restoring works on the Supabase copy, so it waits for local edits to sync
+  const serverActionsBlocked = saving || pendingSync || !!conflict;
+  const lastEdit = note.editLog && note.editLog.length > 0 ? note.editLog[note.editLog.length - 1] : null;
+  
+  // Notes written with a template show its sections in the template's order
+  const template = note.templateId ? getNoteTemplate(note.templateId) : undefined;
+  const sections = template ? orderSectionsByTemplate(splitNoteSections(note.content), template) : [];
+
   const handleShare = async () => {
     try {
       await Share.share({
         title: note.title,
-        message: `${note.title}\n\n${note.content}\n\nDate: ${formattedDate}${note.procedureType ? `\nProcedure: ${note.procedureType}` : ''}`
+        message: formatNoteForExport(note, addenda),
       });
     } catch (error) {
       console.error('Error sharing note:', error);
     }
   };
+
+  const handleExportPdf = async () => {
+    try {
+      setExporting(true);
+      await exportNotesAsPdf([note]);
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : String(error));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleExportFhir = async (action: 'download' | 'send') => {
+    setFhirMenuVisible(false);
+    try {
+      setExporting(true);
+      if (action === 'send') {
+        await sendNotesToFhirServer([note]);
+        Alert.alert('Note Sent', 'The note was sent to the FHIR server.');
+      } else {
+        await exportNotesAsFhir([note]);
+      }
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : String(error));
+    } finally {
+      setExporting(false);
+    }
+  };
+  
+  const handleAddendumAdded = (addendum: NoteAddendum) => {
+    setAddenda(current => [...current, addendum]);
+    if (status === 'signed') {
+      setNote({ ...note, status: 'amended' });
+      syncNotes().catch(error => console.warn('Sync failed:', error));
+    }
+  };
+  
+  // For actions that changed the note in Supabase directly
+  const handleServerChange = (changedNote: Note) => {
+    setNote(changedNote);
+    cacheNote(changedNote).catch(error => console.warn('Could not store note on this device:', error));
+  };
+  
+  const handleResolveConflict = async (keep: 'local' | 'remote') => {
+    try {
+      setResolving(true);
+      const resultId = await resolveNoteConflict(note.id, keep);
+      
+      if (!resultId) {
+        navigation.goBack();
+      } else if (resultId !== note.id) {
+        navigation.replace('NoteDetail', { noteId: resultId });
+      } else {
+        setNote(await getLocalNote(resultId));
+      }
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : String(error));
+    } finally {
+      setResolving(false);
+    }
+  };
+  
+  const handleCancelEdit = () => {
+    if (!isDirty) {
+      setDraft(null);
+      return;
+    }
+    
+    Alert.alert('Discard changes?', 'You have unsaved changes to this note.', [
+      { text: 'Keep Editing', style: 'cancel' },
+      { text: 'Discard', style: 'destructive', onPress: () => setDraft(null) },
+    ]);
+  };
+  
+  const handleSave = async () => {
+    if (!draft) return;
+    
+    if (!draft.title.trim()) {
+      Alert.alert('Error', 'The note needs a title.');
+      return;
+    }
+    
+    const changes = changesFromDraft(note, draft);
+    if (Object.keys(changes).length === 0) {
+      setDraft(null);
+      return;
+    }
+    
+    // Show the edit straight away and put it back if the save fails
+    const previousNote = note;
+    const previousDraft = draft;
+    setNote({ ...note, ...changes, updatedAt: new Date().toISOString() });
+    setDraft(null);
+    setSaving(true);
+    
+    try {
+      const savedNote = await editNote(note.id, changes);
+      setNote(savedNote);
+    } catch (error) {
+      setNote(previousNote);
+      setDraft(previousDraft);
+      Alert.alert('Error', error instanceof Error ? error.message : String(error));
+    } finally {
+      setSaving(false);
+    }
+  };
   
   return (
     <View style={styles.container}>
       <Appbar.Header>
         <Appbar.BackAction onPress={() => navigation.goBack()} />
-        <Appbar.Content title="Note Details" />
-        <Appbar.Action icon="share" onPress={handleShare} />
+        <Appbar.Content title={draft ? 'Edit Note' : 'Note Details'} />
+        {draft ? (
+          <>
+            <Appbar.Action icon="close" onPress={handleCancelEdit} />
+            <Appbar.Action icon="check" onPress={handleSave} />
+          </>
+        ) : (
+          <>
+            {!locked && (
+              <Appbar.Action icon="pencil" disabled={saving} onPress={() => setDraft(draftFromNote(note))} />
+            )}
+            <Appbar.Action icon="file-pdf-box" disabled={exporting} onPress={handleExportPdf} />
+            <Menu
+              visible={fhirMenuVisible}
+              onDismiss={() => setFhirMenuVisible(false)}
+              anchor={
+                <Appbar.Action icon="hospital-box-outline" disabled={exporting} onPress={() => setFhirMenuVisible(true)} />
+              }
+            >
+              <Menu.Item leadingIcon="download" title="Download FHIR JSON" onPress={() => handleExportFhir('download')} />
+              <Menu.Item leadingIcon="send" title="Send to FHIR Server" onPress={() => handleExportFhir('send')} />
+            </Menu>
+            <Appbar.Action icon="share" onPress={handleShare} />
+          </>
+        )}
       </Appbar.Header>
       
+      <Banner
+        visible={!!draft && !!changedDuringEdit}
+        icon="sync-alert"
+        actions={[
+          { label: 'Keep Editing', onPress: () => setChangedDuringEdit(null) },
+          {
+            label: 'Discard My Edits',
+            onPress: () => {
+              if (changedDuringEdit) setNote(changedDuringEdit);
+              setDraft(null);
+            },
+          },
+        ]}
+      >
+        This note was changed on another device while you were editing. Saving applies the fields you changed on top of their version.
+      </Banner>
+      
       <ScrollView style={styles.scrollView}>
-        <Card style={styles.headerCard}>
-          <Card.Content>
-            <Text style={styles.title}>{note.title}</Text>
-            <Text style={styles.date}>{formattedDate}</Text>
-            
-            {note.procedureType && (
-              <Chip style={styles.procedureChip}>
-                {note.procedureType}
-              </Chip>
+        {draft ? (
+          <NoteEditor draft={draft} onChange={setDraft} />
+        ) : (
+          <>
+            {conflict && (
+              <Card style={styles.conflictCard}>
+                <Card.Content>
+                  <Text style={styles.conflictTitle}>
+                    {conflict.remote ? 'This note was also changed on another device' : 'This note was deleted on another device'}
+                  </Text>
+                  {conflict.remote ? (
+                    <>
+                      <Text style={styles.conflictText}>
+                        Their version{conflict.remote.updatedAt ? ` (${new Date(conflict.remote.updatedAt).toLocaleString()})` : ''}:
+                      </Text>
+                      <Text style={styles.conflictPreview} numberOfLines={6}>
+                        {conflict.remote.title}{'\n'}{conflict.remote.content}
+                      </Text>
+                      {isNoteLocked(conflict.remote) && (
+                        <Text style={styles.conflictText}>
+                          It has been signed there, so your changes can only be added as an addendum.
+                        </Text>
+                      )}
+                    </>
+                  ) : (
+                    <Text style={styles.conflictText}>Keeping your version saves it as a new note.</Text>
+                  )}
+                  <View style={styles.conflictActions}>
+                    <Button
+                      onPress={() => handleResolveConflict('remote')}
+                      disabled={resolving}
+                    >
+                      {conflict.remote ? 'Use Theirs' : 'Discard Mine'}
+                    </Button>
+                    <Button
+                      mode="contained"
+                      onPress={() => handleResolveConflict('local')}
+                      disabled={resolving || (!!conflict.remote && isNoteLocked(conflict.remote))}
+                    >
+                      Keep Mine
+                    </Button>
+                  </View>
+                </Card.Content>
+              </Card>
             )}
-          </Card.Content>
-        </Card>
+            
+            <Card style={styles.headerCard}>
+              <Card.Content>
+                <Text style={styles.title}>{note.title}</Text>
+                <Text style={styles.date}>
+                  {formattedDate}
+                  {note.duration ? ` • ${formatDuration(Number(note.duration))}` : ''}
+                </Text>
+                {lastEdit ? (
+                  <Text style={styles.editedText}>
+                    {saving ? 'Saving...' : `Edited ${new Date(lastEdit.at).toLocaleString()}${lastEdit.byName ? ` by ${lastEdit.byName}` : ''}`}
+                  </Text>
+                ) : saving ? (
+                  <Text style={styles.editedText}>Saving...</Text>
+                ) : null}
+                {pendingSync && (
+                  <Text style={styles.editedText}>Saved on this device, waiting to sync</Text>
+                )}
+            
+                <View style={styles.chipRow}>
+                  <Chip
+                    style={locked ? styles.signedChip : styles.unsignedChip}
+                    icon={locked ? 'lock' : 'pencil-outline'}
+                  >
+                    {NOTE_STATUS_LABELS[status]}
+                  </Chip>
+                  {note.procedureType && (
+                    <Chip style={styles.procedureChip}>
+                      {note.procedureType}
+                    </Chip>
+                  )}
+                  {template && (
+                    <Chip style={styles.templateChip} icon="file-document-outline">
+                      {template.name}
+                    </Chip>
+                  )}
+                </View>
+              </Card.Content>
+            </Card>
         
-        <Card style={styles.contentCard}>
-          <Card.Content>
-            <Text style={styles.contentText}>{note.content}</Text>
-          </Card.Content>
-        </Card>
+            <Card style={styles.contentCard}>
+              <Card.Content>
+                {sections.length > 0 ? (
+                  sections.map((section, index) => (
+                    <View key={index} style={styles.noteSection}>
+                      {section.heading ? <Text style={styles.noteSectionHeading}>{section.heading}</Text> : null}
+                      <Text style={styles.contentText}>{section.content}</Text>
+                    </View>
+                  ))
+                ) : (
+                  <Text style={styles.contentText}>{note.content}</Text>
+                )}
+              </Card.Content>
+            </Card>
+            
+            <NoteAddenda
+              noteId={note.id}
+              addenda={addenda}
+              onAdded={handleAddendumAdded}
+              defaultReason={locked ? 'Correction' : undefined}
+              disabled={serverActionsBlocked}
+            />
         
-        {note.tags && note.tags.length > 0 && (
-          <Card style={styles.tagsCard}>
-            <Card.Content>
-              <Text style={styles.sectionTitle}>Tags</Text>
-              <View style={styles.tagsContainer}>
-                {note.tags.map((tag, index) => (
-                  <Chip key={index} style={styles.tag} textStyle={styles.tagText}>
-                    {tag}
-                  </Chip>
-                ))}
-              </View>
-            </Card.Content>
-          </Card>
+            {note.tags && note.tags.length > 0 && (
+              <Card style={styles.tagsCard}>
+                <Card.Content>
+                  <Text style={styles.sectionTitle}>Tags</Text>
+                  <View style={styles.tagsContainer}>
+                    {note.tags.map((tag, index) => (
+                      <Chip key={index} style={styles.tag} textStyle={styles.tagText}>
+                        {tag}
+                      </Chip>
+                    ))}
+                  </View>
+                </Card.Content>
+              </Card>
+            )}
+            
+            <NoteSignaturePanel note={note} onChange={handleServerChange} disabled={serverActionsBlocked} />
+          </>
         )}
         
         <Button 
@@ -131,6 +482,26 @@ export default function NoteDetailScreen() {
             </Card.Content>
           </Card>
         )}
+        
+        {!draft && (
+          <Button 
+            mode="outlined" 
+            icon="history"
+            onPress={() => setShowHistory(!showHistory)}
+            style={styles.transcriptionButton}
+          >
+            {showHistory ? 'Hide History' : 'Show History'}
+          </Button>
+        )}
+        
+        {!draft && showHistory && (
+          <Card style={styles.transcriptionCard}>
+            <Card.Content>
+              <Text style={styles.sectionTitle}>Version History</Text>
+              <NoteHistory noteId={note.id} refreshKey={note.updatedAt} onRestored={handleServerChange} readOnly={locked || serverActionsBlocked} />
+            </Card.Content>
+          </Card>
+        )}
       </ScrollView>
     </View>
   );
@@ -149,6 +520,34 @@ const styles = StyleSheet.create({
   scrollView: {
     flex: 1,
   },
+  conflictCard: {
+    margin: 16,
+    marginBottom: 8,
+    backgroundColor: '#fdecea',
+  },
+  conflictTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#a32020',
+    marginBottom: 8,
+  },
+  conflictText: {
+    fontSize: 14,
+    color: '#555',
+    marginBottom: 8,
+  },
+  conflictPreview: {
+    fontSize: 14,
+    color: '#333',
+    backgroundColor: '#fff',
+    padding: 8,
+    borderRadius: 4,
+    marginBottom: 8,
+  },
+  conflictActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
   headerCard: {
     margin: 16,
     marginBottom: 8,
@@ -163,9 +562,35 @@ const styles = StyleSheet.create({
     color: '#666',
     marginBottom: 12,
   },
+  editedText: {
+    fontSize: 13,
+    fontStyle: 'italic',
+    color: '#888',
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
   procedureChip: {
     alignSelf: 'flex-start',
     backgroundColor: '#e0f2fa',
+    marginRight: 8,
+  },
+  unsignedChip: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#fff3e0',
+    marginRight: 8,
+  },
+  signedChip: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#e6f4ea',
+    marginRight: 8,
+  },
+  templateChip: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#f0f0f0',
   },
   contentCard: {
     margin: 16,
@@ -176,6 +601,15 @@ const styles = StyleSheet.create({
     fontSize: 16,
     lineHeight: 24,
   },
+  noteSection: {
+    marginBottom: 16,
+  },
+  noteSectionHeading: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#0077CC',
+    marginBottom: 4,
+  },
   tagsCard: {
     margin: 16,
     marginTop: 8,
@@ -0,0 +1,219 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, FlatList, Alert } from 'react-native';
+import { Card, Text, Chip, Button, ActivityIndicator } from 'react-native-paper';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { AppStackParamList } from '../navigation';
+import {
+  QueuedRecording,
+  QueuedRecordingStatus,
+  subscribeToRecordingQueue,
+  processRecordingQueue,
+  retryQueuedRecording,
+  discardQueuedRecording,
+} from '../services/recordingQueueService';
+
+type RecordingQueueScreenNavigationProp = NativeStackNavigationProp<AppStackParamList, 'RecordingQueue'>;
+
+const STATUS_LABELS: Record<QueuedRecordingStatus, string> = {
+  pending: 'Waiting',
+  processing: 'Processing',
+  failed: 'Failed',
+  completed: 'Completed',
+};
+
+const STATUS_COLORS: Record<QueuedRecordingStatus, string> = {
+  pending: '#e8f0fe',
+  processing: '#fff4e0',
+  failed: '#fde8e8',
+  completed: '#e6f4ea',
+};
+
+export default function RecordingQueueScreen() {
+  const navigation = useNavigation<RecordingQueueScreenNavigationProp>();
+  const [items, setItems] = useState<QueuedRecording[] | null>(null);
+
+  useEffect(() => {
+    return subscribeToRecordingQueue(setItems);
+  }, []);
+
+  const handleProcessNow = () => {
+    processRecordingQueue().catch(error => {
+      Alert.alert('Error', error instanceof Error ? error.message : String(error));
+    });
+  };
+
+  const handleRetry = async (id: string) => {
+    try {
+      await retryQueuedRecording(id);
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleDiscard = (item: QueuedRecording) => {
+    Alert.alert(
+      'Discard Recording',
+      item.status === 'completed'
+        ? 'Remove this entry from the queue? The saved note is not affected.'
+        : 'This recording has not been turned into a note yet. Discarding it deletes the audio permanently.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await discardQueuedRecording(item.id);
+            } catch (error) {
+              Alert.alert('Error', error instanceof Error ? error.message : String(error));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderItem = ({ item }: { item: QueuedRecording }) => {
+    const recordedAt = new Date(item.createdAt).toLocaleString();
+
+    let detail = item.transcription ? 'Transcribed, notes not generated yet' : 'Not transcribed yet';
+    if (item.status === 'completed') {
+      detail = `Note saved ${item.completedAt ? new Date(item.completedAt).toLocaleString() : ''}`.trim();
+    } else if (item.status === 'failed') {
+      detail = item.nextAttemptAt
+        ? `Attempt ${item.attempts} failed, retrying at ${new Date(item.nextAttemptAt).toLocaleTimeString()}`
+        : `Gave up after ${item.attempts} attempts`;
+    }
+
+    return (
+      <Card style={styles.itemCard}>
+        <Card.Content>
+          <View style={styles.cardHeader}>
+            <Text style={styles.itemTitle}>{recordedAt}</Text>
+            <Chip style={[styles.statusChip, { backgroundColor: STATUS_COLORS[item.status] }]}>
+              {STATUS_LABELS[item.status]}
+            </Chip>
+          </View>
+
+          <Text style={styles.itemDetail}>{detail}</Text>
+
+          {item.lastError && item.status !== 'completed' ? (
+            <Text style={styles.errorText} numberOfLines={3}>{item.lastError}</Text>
+          ) : null}
+        </Card.Content>
+        <Card.Actions>
+          {item.status === 'completed' && item.noteId ? (
+            <Button onPress={() => navigation.navigate('NoteDetail', { noteId: item.noteId as string })}>
+              View Note
+            </Button>
+          ) : null}
+          {item.status === 'failed' ? (
+            <Button onPress={() => handleRetry(item.id)}>Retry</Button>
+          ) : null}
+          {item.status !== 'processing' ? (
+            <Button onPress={() => handleDiscard(item)}>Discard</Button>
+          ) : null}
+        </Card.Actions>
+      </Card>
+    );
+  };
+
+  if (!items) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
+  // Newest recordings first
+  const sortedItems = [...items].reverse();
+
+  return (
+    <View style={styles.container}>
+      {sortedItems.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>No queued recordings</Text>
+          <Text style={styles.emptyHint}>
+            Recordings that cannot be transcribed straight away are kept here and processed when you are back online.
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={sortedItems}
+          renderItem={renderItem}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.list}
+          ListHeaderComponent={
+            <Button mode="outlined" icon="refresh" onPress={handleProcessNow} style={styles.processButton}>
+              Process Now
+            </Button>
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f7fa',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  emptyText: {
+    fontSize: 18,
+    color: '#666',
+    textAlign: 'center',
+  },
+  emptyHint: {
+    marginTop: 10,
+    fontSize: 14,
+    color: '#888',
+    textAlign: 'center',
+  },
+  list: {
+    padding: 16,
+  },
+  processButton: {
+    marginBottom: 12,
+  },
+  itemCard: {
+    marginBottom: 12,
+    elevation: 1,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  itemTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    flex: 1,
+  },
+  statusChip: {
+    marginLeft: 8,
+  },
+  itemDetail: {
+    fontSize: 14,
+    color: '#666',
+  },
+  errorText: {
+    marginTop: 8,
+    fontSize: 13,
+    color: '#cc0000',
+  },
+});
@@ -1,15 +1,158 @@
 // src/screens/SettingsScreen.tsx
-import React from 'react';
-import { View, StyleSheet } from 'react-native';
-import { Button, List, Switch, Divider } from 'react-native-paper';
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView, Alert } from 'react-native';
+import { Button, List, Switch, Divider, IconButton, TextInput, HelperText } from 'react-native-paper';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { AppStackParamList } from '../navigation';
 import { useAuth } from '../context/AuthContext';
+import { getTranscriptionProviders, resolveProviderChain, TranscriptionProvider } from '../services/transcriptionService';
+import {
+  getTranscriptionProviderOrder,
+  saveTranscriptionProviderOrder,
+  getDisabledTranscriptionProviders,
+  saveDisabledTranscriptionProviders,
+  getLocalWhisperUrl,
+  saveLocalWhisperUrl,
+  getLocalOnlyTranscription,
+  saveLocalOnlyTranscription,
+  getTrashRetentionDays,
+  saveTrashRetentionDays,
+  getLetterhead,
+  saveLetterhead,
+  getFhirServerUrl,
+  saveFhirServerUrl,
+  getFhirAccessToken,
+  saveFhirAccessToken,
+  isConfigValuePersisted,
+} from '../utils/apiKeyManager';
+import { Letterhead } from '../types';
 
 export default function SettingsScreen() {
-  const { signOut } = useAuth();
+  const navigation = useNavigation<NativeStackNavigationProp<AppStackParamList>>();
+  const { user, signOut } = useAuth();
   const [darkMode, setDarkMode] = React.useState(false);
+  const [providers, setProviders] = useState<TranscriptionProvider[]>([]);
+  const [disabledProviders, setDisabledProviders] = useState<string[]>([]);
+  const [localWhisperUrl, setLocalWhisperUrl] = useState('');
+  const [localOnly, setLocalOnly] = useState(false);
+  const [trashRetentionDays, setTrashRetentionDays] = useState('');
+  const [letterhead, setLetterhead] = useState<Letterhead>({ institutionName: '', address: '', contact: '', logoUrl: '' });
+  const [fhirServerUrl, setFhirServerUrl] = useState('');
+  const [fhirAccessToken, setFhirAccessToken] = useState('');
+
+  useEffect(() => {
+    const loadProviderSettings = async () => {
+      try {
+        const order = await getTranscriptionProviderOrder();
+        const disabled = await getDisabledTranscriptionProviders();
+        setProviders(resolveProviderChain(order));
+        setDisabledProviders(disabled);
+        setLocalWhisperUrl(await getLocalWhisperUrl().catch(() => ''));
+        setLocalOnly(user ? await getLocalOnlyTranscription(user.uid) : false);
+        setTrashRetentionDays(String(await getTrashRetentionDays()));
+        setLetterhead(await getLetterhead());
+        setFhirServerUrl(await getFhirServerUrl().catch(() => ''));
+        setFhirAccessToken(await getFhirAccessToken().catch(() => ''));
+      } catch (error) {
+        console.error('Error loading transcription settings:', error);
+        setProviders(getTranscriptionProviders());
+      }
+    };
+
+    loadProviderSettings();
+  }, [user]);
+
+  const handleMoveProviderUp = async (index: number) => {
+    if (index === 0) return;
+
+    const reordered = [...providers];
+    [reordered[index - 1], reordered[index]] = [reordered[index], reordered[index - 1]];
+    setProviders(reordered);
+
+    try {
+      await saveTranscriptionProviderOrder(reordered.map(provider => provider.id));
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save transcription provider order.');
+    }
+  };
+
+  const handleToggleProvider = async (id: string) => {
+    const disabled = disabledProviders.includes(id)
+      ? disabledProviders.filter(providerId => providerId !== id)
+      : [...disabledProviders, id];
+    setDisabledProviders(disabled);
+
+    try {
+      await saveDisabledTranscriptionProviders(disabled);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save transcription provider settings.');
+    }
+  };
+
+  const handleSaveLocalWhisperUrl = async () => {
+    try {
+      await saveLocalWhisperUrl(localWhisperUrl);
+      // The default order puts a configured local server first
+      setProviders(resolveProviderChain(await getTranscriptionProviderOrder()));
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save local transcription server URL.');
+    }
+  };
+
+  const handleToggleLocalOnly = async () => {
+    if (!user) return;
+
+    const value = !localOnly;
+    setLocalOnly(value);
+
+    try {
+      await saveLocalOnlyTranscription(user.uid, value);
+    } catch (error) {
+      setLocalOnly(!value);
+      Alert.alert('Error', 'Failed to save the local-only transcription setting.');
+    }
+  };
+
+  const handleSaveTrashRetentionDays = async () => {
+    const days = parseInt(trashRetentionDays, 10);
+    if (!(days > 0)) {
+      Alert.alert('Invalid Retention Period', 'Enter the number of days as a whole number greater than 0.');
+      setTrashRetentionDays(String(await getTrashRetentionDays()));
+      return;
+    }
+
+    try {
+      await saveTrashRetentionDays(days);
+      setTrashRetentionDays(String(days));
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save the trash retention period.');
+    }
+  };
+
+  const updateLetterhead = (field: keyof Letterhead) => (value: string) => {
+    setLetterhead(current => ({ ...current, [field]: value }));
+  };
+
+  const handleSaveLetterhead = async () => {
+    try {
+      await saveLetterhead(letterhead);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save the letterhead.');
+    }
+  };
+
+  const handleSaveFhirServer = async () => {
+    try {
+      await saveFhirServerUrl(fhirServerUrl);
+      await saveFhirAccessToken(fhirAccessToken);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save the FHIR server settings.');
+    }
+  };
 
   return (
-    <View style={styles.container}>
+    <ScrollView style={styles.container}>
       <List.Section>
         <List.Subheader>Appearance</List.Subheader>
         <List.Item
@@ -22,7 +165,151 @@ export default function SettingsScreen() {
           )}
         />
         <Divider />
-        
+
+        <List.Subheader>Transcription Engines</List.Subheader>
+        {providers.map((provider, index) => (
+          <List.Item
+            key={provider.id}
+            title={provider.name}
+            description={index === 0 ? 'Tried first' : `Fallback ${index}`}
+            left={() => (
+              <IconButton
+                icon="arrow-up"
+                size={20}
+                disabled={index === 0}
+                onPress={() => handleMoveProviderUp(index)}
+              />
+            )}
+            right={() => (
+              <Switch
+                value={!disabledProviders.includes(provider.id)}
+                onValueChange={() => handleToggleProvider(provider.id)}
+              />
+            )}
+          />
+        ))}
+        <List.Item
+          title="Local-only transcription"
+          description="Never send audio to a cloud engine, even if the local server fails"
+          disabled={!user}
+          right={() => (
+            <Switch
+              value={localOnly}
+              disabled={!user}
+              onValueChange={handleToggleLocalOnly}
+            />
+          )}
+        />
+        <View style={styles.inputContainer}>
+          <TextInput
+            mode="outlined"
+            label="Local Whisper server URL"
+            placeholder="http://192.168.1.20:8080/inference"
+            value={localWhisperUrl}
+            onChangeText={setLocalWhisperUrl}
+            onBlur={handleSaveLocalWhisperUrl}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+        </View>
+        <Divider />
+
+        <List.Subheader>Notes</List.Subheader>
+        <List.Item
+          title="Note Templates"
+          description="Create, edit, import and export templates"
+          left={props => <List.Icon {...props} icon="file-document-outline" />}
+          onPress={() => navigation.navigate('Templates')}
+        />
+        <List.Item
+          title="Trash"
+          description="Restore deleted notes or delete them for good"
+          left={props => <List.Icon {...props} icon="delete-outline" />}
+          onPress={() => navigation.navigate('Trash')}
+        />
+        <View style={styles.inputContainer}>
+          <TextInput
+            mode="outlined"
+            label="Days to keep deleted notes"
+            value={trashRetentionDays}
+            onChangeText={setTrashRetentionDays}
+            onBlur={handleSaveTrashRetentionDays}
+            keyboardType="number-pad"
+          />
+        </View>
+        <Divider />
+
+        <List.Subheader>PDF Letterhead</List.Subheader>
+        <View style={styles.inputContainer}>
+          <TextInput
+            mode="outlined"
+            label="Institution name"
+            value={letterhead.institutionName}
+            onChangeText={updateLetterhead('institutionName')}
+            onBlur={handleSaveLetterhead}
+            style={styles.stackedInput}
+          />
+          <TextInput
+            mode="outlined"
+            label="Address"
+            value={letterhead.address}
+            onChangeText={updateLetterhead('address')}
+            onBlur={handleSaveLetterhead}
+            multiline
+            style={styles.stackedInput}
+          />
+          <TextInput
+            mode="outlined"
+            label="Phone, fax or email"
+            value={letterhead.contact}
+            onChangeText={updateLetterhead('contact')}
+            onBlur={handleSaveLetterhead}
+            style={styles.stackedInput}
+          />
+          <TextInput
+            mode="outlined"
+            label="Logo URL"
+            placeholder="https://example.org/logo.png"
+            value={letterhead.logoUrl}
+            onChangeText={updateLetterhead('logoUrl')}
+            onBlur={handleSaveLetterhead}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+        </View>
+        <Divider />
+
+        <List.Subheader>EHR Integration</List.Subheader>
+        <View style={styles.inputContainer}>
+          <TextInput
+            mode="outlined"
+            label="FHIR server URL"
+            placeholder="http://localhost:8080/fhir"
+            value={fhirServerUrl}
+            onChangeText={setFhirServerUrl}
+            onBlur={handleSaveFhirServer}
+            autoCapitalize="none"
+            autoCorrect={false}
+            style={styles.stackedInput}
+          />
+          <TextInput
+            mode="outlined"
+            label="Access token (optional)"
+            value={fhirAccessToken}
+            onChangeText={setFhirAccessToken}
+            onBlur={handleSaveFhirServer}
+            autoCapitalize="none"
+            autoCorrect={false}
+            secureTextEntry
+          />
+          {!isConfigValuePersisted('FHIR_ACCESS_TOKEN') && (
+            <HelperText type="info">
+              In the browser the token is not stored and is forgotten when the page reloads. Set FHIR_ACCESS_TOKEN in .env to keep it.
+            </HelperText>
+          )}
+        </View>
+        <Divider />
+
         <List.Subheader>Account</List.Subheader>
         <List.Item
           title="Email Notifications"
@@ -33,7 +320,7 @@ export default function SettingsScreen() {
           onPress={() => {/* Handle change password */}}
         />
         <Divider />
-        
+
         <List.Subheader>About</List.Subheader>
         <List.Item
           title="Version"
@@ -48,10 +335,10 @@ export default function SettingsScreen() {
           onPress={() => {/* Open privacy policy */}}
         />
       </List.Section>
-      
+
       <View style={styles.buttonContainer}>
-        <Button 
-          mode="contained" 
+        <Button
+          mode="contained"
           onPress={signOut}
           color="#ff3b30"
           style={styles.signOutButton}
@@ -59,7 +346,7 @@ export default function SettingsScreen() {
           Sign Out
         </Button>
       </View>
-    </View>
+    </ScrollView>
   );
 }
 
@@ -67,10 +354,17 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
   },
+  inputContainer: {
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  stackedInput: {
+    marginBottom: 8,
+  },
   buttonContainer: {
     padding: 16,
   },
   signOutButton: {
     marginTop: 20,
   },
-});
\ No newline at end of file
+});
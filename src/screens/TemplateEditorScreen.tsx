@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView, Alert } from 'react-native';
+import { Card, Text, TextInput, Button, IconButton, Switch } from 'react-native-paper';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { AppStackParamList } from '../navigation';
+import { NoteTemplateSection, getNoteTemplate } from '../services/noteTemplates';
+import { saveCustomTemplate, validateNoteTemplate } from '../services/templateService';
+
+type TemplateEditorRouteProp = RouteProp<AppStackParamList, 'TemplateEditor'>;
+type TemplateEditorNavigationProp = NativeStackNavigationProp<AppStackParamList, 'TemplateEditor'>;
+
+export default function TemplateEditorScreen() {
+  const navigation = useNavigation<TemplateEditorNavigationProp>();
+  const route = useRoute<TemplateEditorRouteProp>();
+  const existing = route.params?.templateId ? getNoteTemplate(route.params.templateId) : undefined;
+
+  const [name, setName] = useState(existing?.name || '');
+  const [description, setDescription] = useState(existing?.description || '');
+  const [instructions, setInstructions] = useState(existing?.instructions || '');
+  const [exampleOutput, setExampleOutput] = useState(existing?.exampleOutput || '');
+  const [sections, setSections] = useState<NoteTemplateSection[]>(
+    existing?.sections.map(section => ({ ...section })) || [{ heading: '', instructions: '', required: true }]
+  );
+  const [saving, setSaving] = useState(false);
+
+  const updateSection = (index: number, changes: Partial<NoteTemplateSection>) => {
+    setSections(current => current.map((section, i) => i === index ? { ...section, ...changes } : section));
+  };
+
+  const moveSection = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= sections.length) return;
+
+    const reordered = [...sections];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setSections(reordered);
+  };
+
+  const removeSection = (index: number) => {
+    setSections(current => current.filter((_, i) => i !== index));
+  };
+
+  const addSection = () => {
+    setSections(current => [...current, { heading: '', instructions: '', required: false }]);
+  };
+
+  const handleSave = async () => {
+    const template = {
+      // Built-in templates are never edited in place, only duplicated
+      id: existing?.custom ? existing.id : '',
+      name,
+      description,
+      sections,
+      instructions,
+      exampleOutput,
+      custom: true,
+    };
+
+    const problems = validateNoteTemplate(template);
+    if (problems.length > 0) {
+      Alert.alert('Check Template', problems.join('\n'));
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await saveCustomTemplate(template);
+      navigation.goBack();
+    } catch (error) {
+      setSaving(false);
+      Alert.alert('Error', error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Card style={styles.card}>
+        <Card.Content>
+          <TextInput
+            mode="outlined"
+            label="Template name"
+            value={name}
+            onChangeText={setName}
+            style={styles.input}
+          />
+          <TextInput
+            mode="outlined"
+            label="Description"
+            value={description}
+            onChangeText={setDescription}
+            style={styles.input}
+          />
+          <TextInput
+            mode="outlined"
+            label="Instructions for the whole note"
+            placeholder="e.g. Use British spelling and keep the plan as a numbered list"
+            value={instructions}
+            onChangeText={setInstructions}
+            multiline
+            style={styles.input}
+          />
+        </Card.Content>
+      </Card>
+
+      <Text style={styles.heading}>Sections</Text>
+      {sections.map((section, index) => (
+        <Card key={index} style={styles.card}>
+          <Card.Content>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionNumber}>{index + 1}</Text>
+              <IconButton icon="arrow-up" size={20} disabled={index === 0} onPress={() => moveSection(index, -1)} />
+              <IconButton icon="arrow-down" size={20} disabled={index === sections.length - 1} onPress={() => moveSection(index, 1)} />
+              <IconButton icon="delete" size={20} onPress={() => removeSection(index)} />
+            </View>
+            <TextInput
+              mode="outlined"
+              label="Heading"
+              value={section.heading}
+              onChangeText={heading => updateSection(index, { heading })}
+              autoCapitalize="characters"
+              style={styles.input}
+            />
+            <TextInput
+              mode="outlined"
+              label="What belongs in this section"
+              value={section.instructions}
+              onChangeText={sectionInstructions => updateSection(index, { instructions: sectionInstructions })}
+              multiline
+              style={styles.input}
+            />
+            <View style={styles.requiredRow}>
+              <Text>Always include</Text>
+              <Switch value={section.required} onValueChange={required => updateSection(index, { required })} />
+            </View>
+          </Card.Content>
+        </Card>
+      ))}
+      <Button mode="outlined" icon="plus" onPress={addSection} style={styles.addButton}>
+        Add Section
+      </Button>
+
+      <Card style={styles.card}>
+        <Card.Content>
+          <TextInput
+            mode="outlined"
+            label="Example output (optional)"
+            placeholder="Paste a note written the way you like it"
+            value={exampleOutput}
+            onChangeText={setExampleOutput}
+            multiline
+            numberOfLines={6}
+          />
+        </Card.Content>
+      </Card>
+
+      <Button mode="contained" onPress={handleSave} loading={saving} disabled={saving} style={styles.saveButton}>
+        Save Template
+      </Button>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f7fa',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  card: {
+    marginBottom: 12,
+    elevation: 1,
+  },
+  input: {
+    marginBottom: 8,
+  },
+  heading: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginVertical: 8,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+  },
+  sectionNumber: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#666',
+  },
+  requiredRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  addButton: {
+    marginBottom: 12,
+  },
+  saveButton: {
+    marginTop: 8,
+  },
+});
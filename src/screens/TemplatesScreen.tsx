@@ -0,0 +1,213 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, StyleSheet, FlatList, Alert, Platform, Share } from 'react-native';
+import { Card, Text, Chip, Button, IconButton } from 'react-native-paper';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { AppStackParamList } from '../navigation';
+import { NoteTemplate, getNoteTemplates, subscribeToNoteTemplates } from '../services/noteTemplates';
+import {
+  loadCustomTemplates,
+  duplicateTemplate,
+  deleteCustomTemplate,
+  exportTemplates,
+  importTemplates,
+} from '../services/templateService';
+
+type TemplatesScreenNavigationProp = NativeStackNavigationProp<AppStackParamList, 'Templates'>;
+
+export default function TemplatesScreen() {
+  const navigation = useNavigation<TemplatesScreenNavigationProp>();
+  const [templates, setTemplates] = useState<NoteTemplate[]>(getNoteTemplates());
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => subscribeToNoteTemplates(setTemplates), []);
+
+  // Pick up templates changed on another device when coming back to the list
+  useFocusEffect(
+    useCallback(() => {
+      loadCustomTemplates().catch(error => console.error('Error loading templates:', error));
+    }, [])
+  );
+
+  const handleDuplicate = async (id: string) => {
+    try {
+      setBusy(true);
+      const copy = await duplicateTemplate(id);
+      navigation.navigate('TemplateEditor', { templateId: copy.id });
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = (template: NoteTemplate) => {
+    Alert.alert(
+      'Delete Template',
+      `Delete "${template.name}"? Notes already written with it are not changed.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteCustomTemplate(template.id);
+            } catch (error) {
+              Alert.alert('Error', error instanceof Error ? error.message : String(error));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleExport = async () => {
+    const customTemplates = templates.filter(template => template.custom);
+    if (customTemplates.length === 0) {
+      Alert.alert('Nothing to Export', 'Create or duplicate a template first.');
+      return;
+    }
+
+    const json = exportTemplates(customTemplates);
+
+    try {
+      if (Platform.OS === 'web') {
+        // Browsers cannot share text files, so download it instead
+        const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'note-templates.json';
+        link.click();
+        URL.revokeObjectURL(url);
+      } else {
+        await Share.share({ title: 'Note Templates', message: json });
+      }
+    } catch (error) {
+      Alert.alert('Error', `Failed to export templates: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['application/json', 'text/plain', '*/*'],
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled || !result.assets?.length) return;
+
+      setBusy(true);
+      const uri = result.assets[0].uri;
+      const json = Platform.OS === 'web'
+        ? await (await fetch(uri)).text()
+        : await FileSystem.readAsStringAsync(uri);
+
+      const imported = await importTemplates(json);
+      Alert.alert('Templates Imported', `Imported ${imported.length} template${imported.length === 1 ? '' : 's'}.`);
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renderTemplate = ({ item }: { item: NoteTemplate }) => (
+    <Card style={styles.templateCard}>
+      <Card.Content>
+        <View style={styles.cardHeader}>
+          <Text style={styles.templateName} numberOfLines={1}>{item.name}</Text>
+          <Chip style={item.custom ? styles.customChip : styles.builtInChip}>
+            {item.custom ? 'Custom' : 'Built-in'}
+          </Chip>
+        </View>
+        {item.description ? <Text style={styles.description}>{item.description}</Text> : null}
+        <Text style={styles.sections} numberOfLines={2}>
+          {item.sections.map(section => section.heading).join(' • ')}
+        </Text>
+      </Card.Content>
+      <Card.Actions>
+        {item.custom ? (
+          <>
+            <IconButton icon="pencil" size={20} disabled={busy} onPress={() => navigation.navigate('TemplateEditor', { templateId: item.id })} />
+            <IconButton icon="delete" size={20} disabled={busy} onPress={() => handleDelete(item)} />
+          </>
+        ) : null}
+        <Button disabled={busy} onPress={() => handleDuplicate(item.id)}>Duplicate</Button>
+      </Card.Actions>
+    </Card>
+  );
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={templates}
+        renderItem={renderTemplate}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.list}
+        ListHeaderComponent={
+          <View style={styles.actions}>
+            <Button mode="contained" icon="plus" disabled={busy} onPress={() => navigation.navigate('TemplateEditor', {})}>
+              New
+            </Button>
+            <Button mode="outlined" icon="import" disabled={busy} onPress={handleImport}>
+              Import
+            </Button>
+            <Button mode="outlined" icon="export" disabled={busy} onPress={handleExport}>
+              Export
+            </Button>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f7fa',
+  },
+  list: {
+    padding: 16,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  templateCard: {
+    marginBottom: 12,
+    elevation: 1,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  templateName: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    flex: 1,
+  },
+  customChip: {
+    marginLeft: 8,
+    backgroundColor: '#e6f4ea',
+  },
+  builtInChip: {
+    marginLeft: 8,
+    backgroundColor: '#f0f0f0',
+  },
+  description: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 8,
+  },
+  sections: {
+    fontSize: 13,
+    color: '#444',
+  },
+});
@@ -0,0 +1,204 @@
+import React, { useState, useCallback } from 'react';
+import { View, StyleSheet, FlatList, Alert } from 'react-native';
+import { Card, Text, Button, ActivityIndicator } from 'react-native-paper';
+import { useFocusEffect } from '@react-navigation/native';
+import { emptyTrash, getPurgeDate, getTrashedNotes, purgeFromTrash, restoreFromTrash } from '../services/trashService';
+import { getTrashRetentionDays } from '../utils/apiKeyManager';
+import { Note } from '../types';
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+export default function TrashScreen() {
+  const [notes, setNotes] = useState<Note[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const loadTrash = async () => {
+    try {
+      setLoading(true);
+      const [trashed, days] = await Promise.all([getTrashedNotes(), getTrashRetentionDays()]);
+      setNotes(trashed);
+      setRetentionDays(days);
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : String(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Notes deleted elsewhere in the app meanwhile show up when coming back
+  useFocusEffect(
+    useCallback(() => {
+      loadTrash();
+    }, [])
+  );
+
+  const handleRestore = async (note: Note) => {
+    try {
+      setBusy(true);
+      await restoreFromTrash([note.id]);
+      setNotes(current => current.filter(item => item.id !== note.id));
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePurge = (note: Note) => {
+    Alert.alert(
+      'Delete Forever',
+      `Permanently delete "${note.title || 'Untitled Note'}"? This action cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete Forever',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setBusy(true);
+              await purgeFromTrash([note.id]);
+              setNotes(current => current.filter(item => item.id !== note.id));
+            } catch (error) {
+              Alert.alert('Error', error instanceof Error ? error.message : String(error));
+            } finally {
+              setBusy(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleEmptyTrash = () => {
+    Alert.alert(
+      'Empty Trash',
+      `Permanently delete ${notes.length === 1 ? '1 note' : `all ${notes.length} notes`} in the trash? This action cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Empty Trash',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setBusy(true);
+              await emptyTrash();
+            } catch (error) {
+              Alert.alert('Error', error instanceof Error ? error.message : String(error));
+            } finally {
+              setBusy(false);
+              loadTrash();
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderNote = ({ item }: { item: Note }) => {
+    const purgeDate = retentionDays !== null ? getPurgeDate(item, retentionDays) : null;
+
+    return (
+      <Card style={styles.noteCard}>
+        <Card.Content>
+          <Text style={styles.noteTitle} numberOfLines={1}>{item.title || 'Untitled Note'}</Text>
+          <Text style={styles.noteDate}>
+            Deleted {item.deletedAt ? formatDate(new Date(item.deletedAt)) : ''}
+            {purgeDate ? ` · deleted for good on ${formatDate(purgeDate)}` : ''}
+          </Text>
+          <Text style={styles.noteContent} numberOfLines={2}>
+            {item.content || item.transcription || 'No content'}
+          </Text>
+        </Card.Content>
+        <Card.Actions>
+          <Button disabled={busy} onPress={() => handlePurge(item)} textColor="#a32020">Delete Forever</Button>
+          <Button mode="contained" disabled={busy} onPress={() => handleRestore(item)}>Restore</Button>
+        </Card.Actions>
+      </Card>
+    );
+  };
+
+  if (loading && notes.length === 0) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={notes}
+        renderItem={renderNote}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.list}
+        refreshing={loading}
+        onRefresh={loadTrash}
+        ListHeaderComponent={
+          <View style={styles.header}>
+            <Text style={styles.headerText}>
+              {retentionDays !== null ? `Notes are deleted for good ${retentionDays} days after they are moved here.` : ''}
+            </Text>
+            {notes.length > 0 && (
+              <Button mode="outlined" icon="delete-sweep" disabled={busy} onPress={handleEmptyTrash}>
+                Empty Trash
+              </Button>
+            )}
+          </View>
+        }
+        ListEmptyComponent={<Text style={styles.emptyText}>The trash is empty</Text>}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f7fa',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  list: {
+    padding: 16,
+  },
+  header: {
+    marginBottom: 12,
+  },
+  headerText: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 18,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  noteCard: {
+    marginBottom: 12,
+    elevation: 1,
+  },
+  noteTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  noteDate: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  noteContent: {
+    fontSize: 15,
+    color: '#333',
+  },
+});
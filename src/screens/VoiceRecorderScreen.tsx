@@ -1,46 +1,212 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, ScrollView, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { EventArg, NavigationAction } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
-import { startRecording, stopRecording, cleanupTempFile } from '../services/audioRecorderService';
-import { transcribeAudio } from '../services/transcriptionService';
+import {
+  startRecording,
+  stopRecording,
+  appendTake,
+  pauseRecording,
+  resumeRecording,
+  getRecordingStatus,
+  cleanupTempFile,
+  RecorderStatus,
+} from '../services/audioRecorderService';
+import { formatDuration } from '../services/audioDurationService';
+import { transcribeAudio, formatTranscriptionProgress, Transcription } from '../services/transcriptionService';
+import { createLiveTranscription, LiveTranscriptionSession, LiveTranscriptionUpdate } from '../services/liveTranscriptionService';
 import { generateMedicalNotes } from '../services/geminiService';
-import { saveNote } from '../services/storageService';
+import { createNote } from '../services/noteSyncService';
+import { enqueueRecording } from '../services/recordingQueueService';
+import { DEFAULT_TEMPLATE_ID } from '../services/noteTemplates';
+import TemplatePicker from '../components/TemplatePicker';
 import { Note } from '../types';
 
 export default function VoiceRecorderScreen({ navigation }: any) {
   const [isRecording, setIsRecording] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [recorderStatus, setRecorderStatus] = useState<RecorderStatus | null>(null);
   const [isTranscribing, setIsTranscribing] = useState(false);
+  const [transcriptionStatus, setTranscriptionStatus] = useState('Transcribing audio...');
   const [isGeneratingNotes, setIsGeneratingNotes] = useState(false);
   const [transcription, setTranscription] = useState('');
   const [generatedNotes, setGeneratedNotes] = useState('');
   const [procedureType, setProcedureType] = useState('');
+  const [duration, setDuration] = useState(0);
+  const [templateId, setTemplateId] = useState(DEFAULT_TEMPLATE_ID);
+  const templateIdRef = useRef(templateId);
+  templateIdRef.current = templateId;
+  const [liveTranscript, setLiveTranscript] = useState<LiveTranscriptionUpdate | null>(null);
+  const liveSession = useRef<LiveTranscriptionSession | null>(null);
+  // Audio and transcript of the dictation that has not been saved as a note yet
+  const unsavedDictation = useRef<{ audioUri: string; transcription: Transcription | null } | null>(null);
   
-  // Cleanup on unmount
+  // Cleanup on unmount. Leaving through navigation asks first (below), so
+  // whatever is left here was not chosen to be kept.
   useEffect(() => {
     return () => {
-      cleanupTempFile().catch(console.error);
+      liveSession.current?.cancel();
+      discardDictation().catch(console.error);
     };
   }, []);
   
-  const handleStartRecording = async () => {
+  // Ask whether to keep a dictation that has not been saved before leaving the screen
+  useEffect(() => {
+    return navigation.addListener('beforeRemove', (event: EventArg<'beforeRemove', true, { action: NavigationAction }>) => {
+      const dictation = unsavedDictation.current;
+      if (!isRecording && (!dictation || isKnownEmpty(dictation))) return;
+      
+      event.preventDefault();
+      Alert.alert('Keep this dictation?', 'It has not been saved as a note. Keep it in the recording queue to turn it into a note later, or discard it.', [
+        { text: 'Stay', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () => {
+            discardDictation()
+              .catch(console.error)
+              .finally(() => navigation.dispatch(event.data.action));
+          },
+        },
+        {
+          text: 'Keep',
+          onPress: () => {
+            queueUnsavedDictation()
+              .then(() => navigation.dispatch(event.data.action))
+              .catch(error => Alert.alert('Error', `Failed to keep the recording: ${error instanceof Error ? error.message : String(error)}`));
+          },
+        },
+      ]);
+    });
+  }, [navigation, isRecording]);
+  
+  // Poll elapsed time, take count and input level while recording
+  useEffect(() => {
+    if (!isRecording) return;
+    
+    const interval = setInterval(() => {
+      getRecordingStatus().then(setRecorderStatus).catch(console.error);
+    }, 200);
+    
+    return () => clearInterval(interval);
+  }, [isRecording]);
+  
+  // A dictation that was transcribed without finding any speech
+  const isKnownEmpty = (dictation: { transcription: Transcription | null }) =>
+    dictation.transcription !== null && !dictation.transcription.text.trim();
+  
+  const queueUnsavedDictation = async () => {
+    let dictation = unsavedDictation.current;
+    
+    const status = await getRecordingStatus();
+    if (status.isRecording) {
+      // The latest take has not been transcribed, so the whole dictation is redone
+      const audioUri = await stopRecording();
+      dictation = audioUri ? { audioUri, transcription: null } : dictation;
+    }
+    
+    if (dictation && !isKnownEmpty(dictation)) {
+      await enqueueRecording(dictation.audioUri, {
+        transcription: dictation.transcription || undefined,
+        templateId: templateIdRef.current,
+      });
+    }
+    
+    unsavedDictation.current = null;
+    await cleanupTempFile();
+  };
+  
+  const discardDictation = async () => {
+    const status = await getRecordingStatus();
+    if (status.isRecording) {
+      await stopRecording();
+    }
+    
+    unsavedDictation.current = null;
+    await cleanupTempFile();
+  };
+  
+  const beginTake = async (append: boolean) => {
     try {
-      // Reset states
-      setTranscription('');
-      setGeneratedNotes('');
-      setProcedureType('');
+      if (!append) {
+        // Reset states
+        setTranscription('');
+        setGeneratedNotes('');
+        setProcedureType('');
+        setDuration(0);
+        unsavedDictation.current = null;
+        
+        // Transcribe rolling chunks while recording so text appears as the surgeon speaks
+        liveSession.current?.cancel();
+        liveSession.current = createLiveTranscription(setLiveTranscript);
+      }
+      
+      const session = liveSession.current;
+      const options = {
+        onChunk: session ? session.addChunk : undefined,
+        onChunkError: handleLiveChunkError,
+      };
       
       // Start recording
-      await startRecording();
+      if (append) {
+        await appendTake(options);
+      } else {
+        await startRecording(options);
+      }
+      
+      setIsPaused(false);
       setIsRecording(true);
     } catch (error) {
       Alert.alert('Error', `Failed to start recording: ${error instanceof Error ? error.message : String(error)}`);
     }
   };
   
+  // The live transcript would have a hole in it, so drop it and transcribe the whole recording on stop
+  const handleLiveChunkError = (error: Error) => {
+    liveSession.current?.cancel();
+    liveSession.current = null;
+    setLiveTranscript(null);
+    Alert.alert(
+      'Live Transcription Stopped',
+      `${error.message}\n\nRecording continues. The full recording will be transcribed when you stop.`
+    );
+  };
+  
+  const handleStartRecording = () => {
+    // Starting over discards the takes of an unsaved dictation, so check first
+    if (transcription) {
+      Alert.alert('Start a new recording?', 'The current dictation has not been saved and will be discarded.', [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: () => beginTake(false) },
+      ]);
+      return;
+    }
+    
+    beginTake(false);
+  };
+  
+  const handleAddTake = () => beginTake(true);
+  
+  const handlePauseResume = async () => {
+    try {
+      if (isPaused) {
+        await resumeRecording();
+        setIsPaused(false);
+      } else {
+        await pauseRecording();
+        setIsPaused(true);
+      }
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : String(error));
+    }
+  };
+  
   const handleStopRecording = async () => {
     try {
       setIsRecording(false);
+      setIsPaused(false);
+      setTranscriptionStatus('Finishing transcription...');
       setIsTranscribing(true);
       
       // Stop recording and get the URI
@@ -49,18 +215,38 @@ export default function VoiceRecorderScreen({ navigation }: any) {
       if (!audioUri) {
         throw new Error('No audio recorded');
       }
+      unsavedDictation.current = { audioUri, transcription: null };
+      
+      // Use the live transcript, or transcribe the whole recording if it failed.
+      // The session is kept so that another take can be added to it.
+      const session = liveSession.current;
+      let result: Transcription;
+      
+      try {
+        if (!session) {
+          throw new Error('Live transcription was not running');
+        }
+        result = await session.finish();
+      } catch (liveError) {
+        console.warn('Live transcription unavailable, transcribing full recording:', liveError);
+        setTranscriptionStatus('Transcribing audio...');
+        result = await transcribeAudio(audioUri, progress => {
+          setTranscriptionStatus(formatTranscriptionProgress(progress));
+        });
+      }
       
-      // Transcribe the audio
-      const result = await transcribeAudio(audioUri);
+      setLiveTranscript(null);
       setTranscription(result.text);
+      setDuration(result.duration);
+      unsavedDictation.current = { audioUri, transcription: result };
       
       // If transcription is successful, generate medical notes
       if (result.text) {
         setIsTranscribing(false);
         setIsGeneratingNotes(true);
         
-        const notesResult = await generateMedicalNotes(result.text);
-        setGeneratedNotes(notesResult.candidates?.[0]?.content?.parts?.[0]?.text || '');
+        const notesResult = await generateMedicalNotes(result.text, templateId);
+        setGeneratedNotes(notesResult.content);
         setProcedureType(notesResult.procedureType || '');
         
         setIsGeneratingNotes(false);
@@ -68,14 +254,39 @@ export default function VoiceRecorderScreen({ navigation }: any) {
         setIsTranscribing(false);
         Alert.alert('Warning', 'No text was transcribed. Please try recording again.');
       }
-      
-      // Clean up the temporary file
-      await cleanupTempFile();
     } catch (error) {
+      liveSession.current?.cancel();
+      liveSession.current = null;
+      setLiveTranscript(null);
       setIsRecording(false);
       setIsTranscribing(false);
       setIsGeneratingNotes(false);
-      Alert.alert('Error', `Recording failed: ${error instanceof Error ? error.message : String(error)}`);
+      
+      const message = error instanceof Error ? error.message : String(error);
+      
+      // Offline or every engine failed: keep the recording and process it later
+      if (unsavedDictation.current) {
+        try {
+          await queueUnsavedDictation();
+          setTranscription('');
+          setGeneratedNotes('');
+          setProcedureType('');
+          setDuration(0);
+          Alert.alert(
+            'Recording Queued',
+            `${message}\n\nThe recording has been kept and will be turned into a note when the connection is available.`,
+            [
+              { text: 'View Queue', onPress: () => navigation.navigate('RecordingQueue') },
+              { text: 'OK' }
+            ]
+          );
+          return;
+        } catch (queueError) {
+          console.error('Failed to queue recording:', queueError);
+        }
+      }
+      
+      Alert.alert('Error', `Recording failed: ${message}`);
     }
   };
   
@@ -94,10 +305,12 @@ export default function VoiceRecorderScreen({ navigation }: any) {
         procedureType: procedureType,
         tags: [],
         date: new Date().toISOString(),
+        duration: duration ? String(Math.round(duration)) : undefined,
+        templateId,
       };
       
       // Save the note
-      const noteId = await saveNote(newNote as Note);
+      const noteId = await createNote(newNote as Note);
       
       Alert.alert('Success', 'Note saved successfully!', [
         { 
@@ -111,6 +324,13 @@ export default function VoiceRecorderScreen({ navigation }: any) {
       setTranscription('');
       setGeneratedNotes('');
       setProcedureType('');
+      setDuration(0);
+      
+      // The dictation is saved, so its takes are no longer needed
+      liveSession.current?.cancel();
+      liveSession.current = null;
+      unsavedDictation.current = null;
+      await cleanupTempFile();
     } catch (error) {
       Alert.alert('Error', `Failed to save note: ${error instanceof Error ? error.message : String(error)}`);
     }
@@ -120,13 +340,24 @@ export default function VoiceRecorderScreen({ navigation }: any) {
     <SafeAreaView style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.title}>Voice Recorder</Text>
+        {isRecording && recorderStatus ? (
+          <View style={styles.recorderStatus}>
+            <Text style={styles.elapsedText}>{formatDuration(recorderStatus.elapsedSeconds)}</Text>
+            <Text style={styles.takeText}>
+              Take {recorderStatus.takeCount}{isPaused ? ' • Paused' : ''}
+            </Text>
+            <View style={styles.levelTrack}>
+              <View style={[styles.levelFill, { width: `${Math.round(recorderStatus.level * 100)}%` }]} />
+            </View>
+          </View>
+        ) : null}
       </View>
       
       <ScrollView style={styles.content}>
         {isTranscribing ? (
           <View style={styles.loadingContainer}>
             <ActivityIndicator size="large" color="#0066cc" />
-            <Text style={styles.loadingText}>Transcribing audio...</Text>
+            <Text style={styles.loadingText}>{transcriptionStatus}</Text>
           </View>
         ) : isGeneratingNotes ? (
           <View style={styles.loadingContainer}>
@@ -135,7 +366,28 @@ export default function VoiceRecorderScreen({ navigation }: any) {
           </View>
         ) : (
           <>
-            {transcription ? (
+            {!isRecording && !transcription ? (
+              <View style={styles.section}>
+                <TemplatePicker selectedTemplateId={templateId} onSelect={setTemplateId} />
+              </View>
+            ) : null}
+            
+            {isRecording ? (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Live Transcription</Text>
+                {liveTranscript && (liveTranscript.finalText || liveTranscript.partialText) ? (
+                  <Text style={styles.transcriptionText}>
+                    {liveTranscript.finalText}
+                    {liveTranscript.finalText && liveTranscript.partialText ? ' ' : ''}
+                    <Text style={styles.partialText}>{liveTranscript.partialText}</Text>
+                  </Text>
+                ) : (
+                  <Text style={styles.partialText}>Listening...</Text>
+                )}
+              </View>
+            ) : null}
+            
+            {transcription && !isRecording ? (
               <View style={styles.section}>
                 <Text style={styles.sectionTitle}>Transcription</Text>
                 <Text style={styles.transcriptionText}>{transcription}</Text>
@@ -153,6 +405,23 @@ export default function VoiceRecorderScreen({ navigation }: any) {
       </ScrollView>
       
       <View style={styles.footer}>
+        {isRecording ? (
+          <TouchableOpacity 
+            style={styles.secondaryButton} 
+            onPress={handlePauseResume}
+          >
+            <Ionicons name={isPaused ? "play" : "pause"} size={24} color="#0066cc" />
+          </TouchableOpacity>
+        ) : transcription ? (
+          <TouchableOpacity 
+            style={styles.secondaryButton} 
+            onPress={handleAddTake}
+            disabled={isTranscribing || isGeneratingNotes}
+          >
+            <Ionicons name="add" size={24} color="#0066cc" />
+          </TouchableOpacity>
+        ) : null}
+        
         <TouchableOpacity 
           style={[styles.recordButton, isRecording ? styles.recordingActive : null]} 
           onPress={isRecording ? handleStopRecording : handleStartRecording}
@@ -233,6 +502,12 @@ const styles = StyleSheet.create({
     lineHeight: 24,
     color: '#666',
   },
+  partialText: {
+    fontSize: 16,
+    lineHeight: 24,
+    fontStyle: 'italic',
+    color: '#999',
+  },
   notesText: {
     fontSize: 16,
     lineHeight: 24,
@@ -263,6 +538,40 @@ const styles = StyleSheet.create({
   recordingActive: {
     backgroundColor: '#cc0000',
   },
+  secondaryButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    borderWidth: 2,
+    borderColor: '#0066cc',
+    backgroundColor: '#fff',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 20,
+  },
+  recorderStatus: {
+    marginTop: 8,
+  },
+  elapsedText: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#cc0000',
+  },
+  takeText: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 8,
+  },
+  levelTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#e0e0e0',
+    overflow: 'hidden',
+  },
+  levelFill: {
+    height: 6,
+    backgroundColor: '#4caf50',
+  },
   saveButton: {
     flexDirection: 'row',
     backgroundColor: '#4caf50',
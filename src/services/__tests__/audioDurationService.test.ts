@@ -0,0 +1,111 @@
+import { formatDuration, getAudioDuration } from '../audioDurationService';
+
+// Audio files by URI, served through the mocked expo-file-system
+const mockFiles = new Map<string, Uint8Array>();
+
+jest.mock('expo-file-system', () => ({
+  EncodingType: { Base64: 'base64' },
+  getInfoAsync: jest.fn(async (uri: string) => {
+    const bytes = mockFiles.get(uri);
+    return bytes ? { exists: true, size: bytes.length } : { exists: false };
+  }),
+  readAsStringAsync: jest.fn(async (uri: string, options: { position: number; length: number }) => {
+    const bytes = mockFiles.get(uri)!;
+    return Buffer.from(bytes.subarray(options.position, options.position + options.length)).toString('base64');
+  }),
+}));
+
+// Decoding is the fallback when the headers have no duration; make it fail
+jest.mock('expo-av', () => ({
+  Audio: { Sound: { createAsync: jest.fn(async () => { throw new Error('Cannot decode'); }) } },
+}));
+
+function bytes(...parts: (number[] | string | Uint8Array)[]): Uint8Array {
+  return Uint8Array.from(parts.flatMap(part =>
+    typeof part === 'string' ? Array.from(part, char => char.charCodeAt(0)) : Array.from(part)
+  ));
+}
+
+const uint32BE = (value: number) => [value >>> 24, (value >>> 16) & 0xFF, (value >>> 8) & 0xFF, value & 0xFF];
+const uint32LE = (value: number) => uint32BE(value).reverse();
+const box = (type: string, payload: Uint8Array) => bytes(uint32BE(8 + payload.length), type, payload);
+
+async function durationOf(file: Uint8Array): Promise<number> {
+  mockFiles.set('file:///audio', file);
+  return getAudioDuration('file:///audio');
+}
+
+function wav(byteRate: number, dataSize: number, declaredSize = dataSize): Uint8Array {
+  const fmt = bytes([1, 0, 1, 0], uint32LE(byteRate / 2), uint32LE(byteRate), [2, 0, 16, 0]);
+  return bytes('RIFF', uint32LE(36 + dataSize), 'WAVE', 'fmt ', uint32LE(fmt.length), fmt,
+    'data', uint32LE(declaredSize), new Uint8Array(dataSize));
+}
+
+describe('getAudioDuration', () => {
+  beforeEach(() => {
+    mockFiles.clear();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('divides the WAV data size by the byte rate', async () => {
+    expect(await durationOf(wav(16000, 32000))).toBe(2);
+  });
+
+  it('uses the file size when a streamed WAV left the data size at 0', async () => {
+    expect(await durationOf(wav(16000, 8000, 0))).toBe(0.5);
+  });
+
+  it('reads duration and timescale from the mvhd box of an MP4', async () => {
+    const mvhd = box('mvhd', bytes([0, 0, 0, 0], uint32BE(0), uint32BE(0), uint32BE(1000), uint32BE(12500)));
+    const file = bytes(box('ftyp', bytes('M4A ', uint32BE(0))), box('mdat', new Uint8Array(64)), box('moov', mvhd));
+
+    expect(await durationOf(file)).toBe(12.5);
+  });
+
+  it('reads the Info duration of a WebM segment of unknown size', async () => {
+    const duration = new Uint8Array(8);
+    new DataView(duration.buffer).setFloat64(0, 4500);
+    const info = bytes([0x2A, 0xD7, 0xB1, 0x83, 0x0F, 0x42, 0x40], [0x44, 0x89, 0x88], duration);
+    const file = bytes(
+      [0x1A, 0x45, 0xDF, 0xA3, 0x84], 'webm',
+      [0x18, 0x53, 0x80, 0x67, 0x01, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF],
+      [0x15, 0x49, 0xA9, 0x66, 0x80 | info.length], info
+    );
+
+    expect(await durationOf(file)).toBe(4.5);
+  });
+
+  it('assumes a constant bitrate for an MP3 without a Xing or VBRI header', async () => {
+    // MPEG-1 Layer III, 128 kbps, 44.1 kHz, stereo
+    const file = bytes([0xFF, 0xFB, 0x90, 0x64], new Uint8Array(16000 - 4));
+
+    expect(await durationOf(file)).toBe(1);
+  });
+
+  it('skips an ID3 tag and uses the Xing frame count', async () => {
+    const xing = bytes('Xing', uint32BE(1), uint32BE(100));
+    const frame = bytes([0xFF, 0xFB, 0x90, 0x64], new Uint8Array(32), xing, new Uint8Array(400));
+    const file = bytes('ID3', [3, 0, 0, 0, 0, 0, 10], new Uint8Array(10), frame);
+
+    expect(await durationOf(file)).toBeCloseTo((100 * 1152) / 44100);
+  });
+
+  it('returns 0 when neither the headers nor decoding give a duration', async () => {
+    expect(await durationOf(bytes('not an audio file'))).toBe(0);
+  });
+});
+
+describe('formatDuration', () => {
+  it('formats minutes and zero-padded seconds', () => {
+    expect(formatDuration(0)).toBe('0:00');
+    expect(formatDuration(65.4)).toBe('1:05');
+  });
+
+  it('adds hours for long recordings', () => {
+    expect(formatDuration(3725)).toBe('1:02:05');
+  });
+});
@@ -0,0 +1,89 @@
+import { FhirBundle, FhirComposition, FhirDocumentReference, notesToFhirBundle, validateFhirBundle } from '../fhirService';
+import { Note, UserProfile } from '../../types';
+
+jest.mock('../../utils/apiKeyManager', () => ({
+  getFhirAccessToken: jest.fn(),
+  getFhirServerUrl: jest.fn(),
+}));
+
+const profile: UserProfile = { uid: 'user-1', email: 'doctor@example.test', displayName: 'Dr. Example' };
+
+const signedNote: Note = {
+  id: 'note-1',
+  title: 'Knee arthroscopy',
+  content: '## PROCEDURE\n\nArthroscopic debridement of the left knee.\n\n## PLAN\n\nPhysiotherapy for 6 weeks.',
+  transcription: '',
+  procedureType: 'Arthroscopy',
+  tags: ['knee'],
+  userId: 'user-1',
+  createdAt: '2024-03-10T09:00:00.000Z',
+  updatedAt: '2024-03-10T10:00:00.000Z',
+  status: 'signed',
+  signature: { by: 'user-1', byName: 'Dr. Example', at: '2024-03-10T10:00:00.000Z', attestation: 'Reviewed.' },
+};
+
+// Copy of a valid bundle to break in each test
+const validBundle = (): FhirBundle => JSON.parse(JSON.stringify(notesToFhirBundle([signedNote], profile)));
+
+const resourceOf = <T>(bundle: FhirBundle, index: number) => bundle.entry![index].resource as unknown as T;
+
+describe('validateFhirBundle', () => {
+  it('accepts the bundle built for a signed note', () => {
+    expect(validateFhirBundle(validBundle())).toEqual([]);
+  });
+
+  it('reports references to entries that are not in the bundle', () => {
+    const bundle = validBundle();
+    bundle.entry!.splice(0, 1);
+
+    expect(validateFhirBundle(bundle)).toEqual(expect.arrayContaining([
+      expect.stringMatching(/^Bundle\.entry\[0\]\.resource refers to urn:uuid:.+, which is not in the bundle$/),
+    ]));
+  });
+
+  it('reports duplicate full URLs and transaction entries without a request', () => {
+    const bundle = validBundle();
+    bundle.entry![2].fullUrl = bundle.entry![1].fullUrl;
+    delete bundle.entry![2].request;
+
+    expect(validateFhirBundle(bundle)).toEqual(expect.arrayContaining([
+      `Bundle.entry[2].fullUrl ${bundle.entry![1].fullUrl} is used twice`,
+      'Bundle.entry[2].request needs a method and url in a transaction',
+    ]));
+  });
+
+  it('checks required elements, codes and dateTimes of a Composition', () => {
+    const bundle = validBundle();
+    const composition = resourceOf<FhirComposition>(bundle, 1);
+    composition.status = 'done' as FhirComposition['status'];
+    composition.date = '10/03/2024';
+    composition.title = '';
+
+    expect(validateFhirBundle(bundle)).toEqual([
+      'Bundle.entry[1].resource.status "done" must be one of preliminary, final, amended, entered-in-error',
+      'Bundle.entry[1].resource.date "10/03/2024" is not a FHIR dateTime',
+      'Bundle.entry[1].resource.title is required',
+    ]);
+  });
+
+  it('needs narrative sections to be XHTML divs', () => {
+    const bundle = validBundle();
+    resourceOf<FhirComposition>(bundle, 1).section![0].text!.div = '<p>Not wrapped</p>';
+
+    expect(validateFhirBundle(bundle)).toEqual(['Bundle.entry[1].resource.section[0].text.div must be an XHTML div']);
+  });
+
+  it('needs a content type for attachment data', () => {
+    const bundle = validBundle();
+    delete resourceOf<FhirDocumentReference>(bundle, 2).content[0].attachment.contentType;
+
+    expect(validateFhirBundle(bundle)).toEqual([
+      'Bundle.entry[2].resource.content[0].attachment.contentType is required when data is present',
+    ]);
+  });
+
+  it('rejects bundle types it cannot send', () => {
+    expect(validateFhirBundle({ ...validBundle(), type: 'searchset' as FhirBundle['type'] }))
+      .toEqual(['Bundle.type "searchset" is not supported']);
+  });
+});
@@ -0,0 +1,81 @@
+import axios from 'axios';
+import { generateMedicalNotes } from '../geminiService';
+
+jest.mock('axios');
+jest.mock('../../utils/apiKeyManager', () => ({
+  getGeminiKey: jest.fn(async () => 'test-key'),
+  getGeminiUrl: jest.fn(async () => 'https://gemini.test/v1beta'),
+}));
+
+const post = axios.post as jest.Mock;
+
+const reply = (text: string) => ({ data: { candidates: [{ content: { parts: [{ text }] } }] } });
+
+const validNote = {
+  title: 'Hypertension follow-up',
+  procedureType: 'Follow-up visit',
+  sections: [
+    { heading: 'HISTORY', content: 'Elevated home blood pressure readings.' },
+    { heading: 'PLAN', content: 'Start an ACE inhibitor.' },
+  ],
+  diagnoses: [' Essential hypertension '],
+  medications: [{ name: 'Lisinopril', dose: '10 mg', route: 'PO', frequency: 'daily' }, { name: 'Aspirin' }],
+  tags: ['hypertension', 'Hypertension', 'follow-up'],
+  followUp: 'Review in 4 weeks.',
+};
+
+describe('generateMedicalNotes', () => {
+  beforeEach(() => {
+    post.mockReset();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('writes diagnoses, medications and follow-up into the note content', async () => {
+    post.mockResolvedValueOnce(reply(JSON.stringify(validNote)));
+
+    const notes = await generateMedicalNotes('Blood pressure has been high at home.');
+
+    expect(notes.content).toBe([
+      '## HISTORY\n\nElevated home blood pressure readings.',
+      '## PLAN\n\nStart an ACE inhibitor.',
+      '## DIAGNOSES\n\n- Essential hypertension',
+      '## MEDICATIONS\n\n- Lisinopril 10 mg PO daily\n- Aspirin',
+      '## FOLLOW-UP\n\nReview in 4 weeks.',
+    ].join('\n\n'));
+    expect(notes.diagnoses).toEqual(['Essential hypertension']);
+    expect(notes.tags).toEqual(['hypertension', 'follow-up']);
+  });
+
+  it('accepts JSON wrapped in a markdown code fence', async () => {
+    post.mockResolvedValueOnce(reply(`\`\`\`json\n${JSON.stringify(validNote)}\n\`\`\``));
+
+    const notes = await generateMedicalNotes('Blood pressure has been high at home.');
+
+    expect(notes.title).toBe('Hypertension follow-up');
+  });
+
+  it('asks once for a repair and reports what was wrong', async () => {
+    post
+      .mockResolvedValueOnce(reply(JSON.stringify({ ...validNote, diagnoses: 'Hypertension' })))
+      .mockResolvedValueOnce(reply(JSON.stringify(validNote)));
+
+    const notes = await generateMedicalNotes('Blood pressure has been high at home.');
+
+    expect(notes.title).toBe('Hypertension follow-up');
+    expect(post).toHaveBeenCalledTimes(2);
+    const repairContents = post.mock.calls[1][1].contents;
+    expect(repairContents[repairContents.length - 1].parts[0].text).toContain('diagnoses must be an array of strings');
+  });
+
+  it('fails instead of saving the raw response when the repair is invalid too', async () => {
+    post
+      .mockResolvedValueOnce(reply('Not JSON at all'))
+      .mockResolvedValueOnce(reply(JSON.stringify({ ...validNote, sections: [] })));
+
+    await expect(generateMedicalNotes('Blood pressure has been high at home.')).rejects.toThrow('Gemini did not return a valid note');
+  });
+});
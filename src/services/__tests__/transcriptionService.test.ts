@@ -0,0 +1,106 @@
+import { Transcription, mergeChunkTranscriptions } from '../transcriptionService';
+import { AudioChunk } from '../audioChunkService';
+
+jest.mock('@react-native-async-storage/async-storage', () => require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+jest.mock('firebase/auth', () => ({ getAuth: () => ({ currentUser: null }) }));
+
+const chunk = (index: number, start: number, end: number): AudioChunk => ({ index, uri: `file:///chunk-${index}.m4a`, start, end });
+
+const result = (details: Pick<Transcription, 'text' | 'confidence'> & Partial<Transcription>): Transcription => ({
+  language: 'en',
+  duration: 30,
+  ...details,
+});
+
+const segment = (id: number, start: number, end: number, text: string) => ({ id, start, end, text, confidence: 0.9 });
+
+describe('mergeChunkTranscriptions', () => {
+  // Two 30 second chunks overlapping from 25 s to 30 s
+  const chunks = [chunk(0, 0, 30), chunk(1, 25, 55)];
+
+  it('cuts at the pause both chunks agree on and renumbers the segments', () => {
+    const results: Transcription[] = [
+      result({
+        text: 'Patient reports chest pain. It started two days ago. Pain is',
+        confidence: 0.9,
+        segments: [
+          segment(0, 0, 10, 'Patient reports chest pain.'),
+          segment(1, 10, 27, 'It started two days ago.'),
+          segment(2, 27, 30, 'Pain is'),
+        ],
+      }),
+      result({
+        text: 'days ago. Pain is worse on exertion. No shortness of breath.',
+        confidence: 0.9,
+        segments: [
+          segment(0, 0, 2, 'days ago.'),
+          segment(1, 2, 12, 'Pain is worse on exertion.'),
+          segment(2, 12, 30, 'No shortness of breath.'),
+        ],
+      }),
+    ];
+
+    const merged = mergeChunkTranscriptions(chunks, results, 55);
+
+    expect(merged.text).toBe('Patient reports chest pain. It started two days ago. Pain is worse on exertion. No shortness of breath.');
+    expect(merged.segments!.map(({ id, start, end }) => [id, start, end])).toEqual([
+      [0, 0, 10],
+      [1, 10, 27],
+      [2, 27, 37],
+      [3, 37, 55],
+    ]);
+    expect(merged.duration).toBe(55);
+  });
+
+  it('keeps each word once, on the side of the cut its midpoint falls', () => {
+    const results: Transcription[] = [
+      result({
+        text: 'Blood pressure normal',
+        confidence: 0.9,
+        segments: [segment(0, 0, 27, 'Blood pressure'), segment(1, 27, 30, 'normal')],
+        wordTimestamps: [
+          { word: 'Blood', start: 20, end: 22 },
+          { word: 'pressure', start: 22, end: 26.8 },
+          { word: 'normal', start: 27.2, end: 29.5 },
+        ],
+      }),
+      result({
+        text: 'pressure normal today',
+        confidence: 0.9,
+        segments: [segment(0, 0, 2, 'pressure'), segment(1, 2, 10, 'normal today')],
+        wordTimestamps: [
+          { word: 'pressure', start: 0, end: 1.8 },
+          { word: 'normal', start: 2.2, end: 4.5 },
+          { word: 'today', start: 4.6, end: 5 },
+        ],
+      }),
+    ];
+
+    const merged = mergeChunkTranscriptions(chunks, results, 55);
+
+    expect(merged.wordTimestamps!.map(word => word.word)).toEqual(['Blood', 'pressure', 'normal', 'today']);
+  });
+
+  it('drops the repeated overlap from the text when chunks have no segments', () => {
+    const results: Transcription[] = [
+      result({ text: 'The patient has had a cough and fever since Monday', confidence: 0.8 }),
+      result({ text: 'fever since Monday, and no chills.', confidence: 0.8 }),
+    ];
+
+    const merged = mergeChunkTranscriptions(chunks, results, 55);
+
+    expect(merged.text).toBe('The patient has had a cough and fever since Monday and no chills.');
+    expect(merged.segments!.every(estimated => estimated.synthetic)).toBe(true);
+  });
+
+  it('weights confidence by the length of audio each chunk covered', () => {
+    const results: Transcription[] = [
+      result({ text: 'First part', confidence: 0.9 }),
+      result({ text: 'second part', confidence: 0.6 }),
+    ];
+
+    const merged = mergeChunkTranscriptions([chunk(0, 0, 30), chunk(1, 25, 35)], results, 35);
+
+    expect(merged.confidence).toBeCloseTo((0.9 * 30 + 0.6 * 10) / 40);
+  });
+});
@@ -0,0 +1,132 @@
+// services/addendumService.ts
+import { getAuth } from 'firebase/auth';
+import { getSupabaseClient } from '../firebase/supabaseConfig';
+import { uploadAudio } from './audioService';
+import { getNoteById } from './notesRepository';
+import { markNoteAmended } from './noteSigningService';
+import { NoteAddendum } from '../types';
+
+const ADDENDA_TABLE = 'note_addenda';
+
+// Offered as quick picks; any other reason can be typed in
+export const ADDENDUM_REASONS = ['Late finding', 'Correction', 'Clarification', 'Result received'];
+
+export interface NewAddendum {
+  reason: string;
+  text: string;
+  // Local recording the text was dictated from, uploaded with the addendum
+  audioUri?: string;
+  audioDuration?: number;
+}
+
+/**
+ * Attach an addendum to a note. Addenda are only ever inserted, and adding
+ * one to a signed note marks the note as amended.
+ */
+export async function addNoteAddendum(noteId: string, addendum: NewAddendum): Promise<NoteAddendum> {
+  try {
+    const supabase = await getSupabaseClient();
+    const user = getAuth().currentUser;
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!addendum.reason.trim()) {
+      throw new Error('A reason is required');
+    }
+    if (!addendum.text.trim()) {
+      throw new Error('The addendum is empty');
+    }
+
+    // Also checks that the note belongs to the current user
+    const note = await getNoteById(noteId);
+
+    const audioFileUrl = addendum.audioUri ? await uploadAudio(addendum.audioUri) : null;
+
+    const { data, error } = await supabase
+      .from(ADDENDA_TABLE)
+      .insert({
+        noteId,
+        userId: user.uid,
+        authorName: user.displayName || user.email || null,
+        createdAt: new Date().toISOString(),
+        reason: addendum.reason.trim(),
+        text: addendum.text.trim(),
+        audioFileUrl,
+        audioDuration: addendum.audioUri ? addendum.audioDuration ?? null : null,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    if (note.status === 'signed') {
+      await markNoteAmended(noteId);
+    }
+
+    return data as NoteAddendum;
+  } catch (error) {
+    console.error('[addendumService] Error adding addendum:', error);
+    throw new Error(`Failed to add addendum: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Get the addenda of a note, oldest first
+ */
+export async function getNoteAddenda(noteId: string): Promise<NoteAddendum[]> {
+  try {
+    const supabase = await getSupabaseClient();
+    const { data, error } = await supabase
+      .from(ADDENDA_TABLE)
+      .select('*')
+      .eq('noteId', noteId)
+      .order('createdAt', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []) as NoteAddendum[];
+  } catch (error) {
+    console.error('[addendumService] Error loading addenda:', error);
+    throw new Error(`Failed to load addenda: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Get the addenda of many notes with one request, by note ID
+ */
+export async function getAddendaForNotes(noteIds: string[]): Promise<Map<string, NoteAddendum[]>> {
+  try {
+    const supabase = await getSupabaseClient();
+    const addendaByNote = new Map<string, NoteAddendum[]>();
+    if (noteIds.length === 0) return addendaByNote;
+
+    const { data, error } = await supabase
+      .from(ADDENDA_TABLE)
+      .select('*')
+      .in('noteId', noteIds)
+      .order('createdAt', { ascending: true });
+
+    if (error) throw error;
+
+    ((data || []) as NoteAddendum[]).forEach(addendum => {
+      addendaByNote.set(addendum.noteId, [...(addendaByNote.get(addendum.noteId) || []), addendum]);
+    });
+    return addendaByNote;
+  } catch (error) {
+    console.error('[addendumService] Error loading addenda:', error);
+    throw new Error(`Failed to load addenda: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Plain-text addenda for sharing and export, in the order they were added
+ */
+export function formatAddendaForExport(addenda: NoteAddendum[]): string {
+  return addenda
+    .map(addendum => {
+      const author = addendum.authorName ? `, ${addendum.authorName}` : '';
+      return `ADDENDUM (${addendum.reason}, ${new Date(addendum.createdAt).toLocaleString()}${author}):\n${addendum.text}`;
+    })
+    .join('\n\n');
+}
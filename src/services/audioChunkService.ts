@@ -0,0 +1,978 @@
+// services/audioChunkService.ts
+import { getAudioDuration } from './audioDurationService';
+import {
+  ByteSource,
+  asciiBytes,
+  concatBytes,
+  deleteTempAudioFile,
+  openByteSource,
+  parseMp3FrameHeader,
+  readAscii,
+  readEbmlId,
+  readEbmlSize,
+  readUint32BE,
+  readUint32LE,
+  readUint64BE,
+  readUintBE,
+  uint32BE,
+  uint32LE,
+  writeTempAudioFile,
+} from '../utils/audioBytes';
+
+// Whisper rejects uploads over 25 MB, keep a safety margin
+const MAX_CHUNK_BYTES = 20 * 1024 * 1024;
+// Anything longer than this is split even if it is small, to stay within request timeouts
+const MAX_SINGLE_REQUEST_SECONDS = 10 * 60;
+const DEFAULT_CHUNK_SECONDS = 5 * 60;
+const DEFAULT_OVERLAP_SECONDS = 5;
+
+/**
+ * A slice of a longer recording written to its own temporary file
+ */
+export interface AudioChunk {
+  index: number;
+  uri: string;
+  // Position of the chunk within the original recording, in seconds
+  start: number;
+  end: number;
+}
+
+export interface ChunkOptions {
+  chunkSeconds?: number;
+  overlapSeconds?: number;
+  maxChunkBytes?: number;
+}
+
+// Requested time window before it is aligned to frame/sample boundaries
+interface ChunkWindow {
+  start: number;
+  end: number;
+}
+
+// Bytes for one chunk plus the actual time range they cover
+interface ChunkData {
+  bytes: Uint8Array;
+  start: number;
+  end: number;
+}
+
+/**
+ * Split a long recording into overlapping chunks that each fit provider limits.
+ * Supports m4a/mp4 (remuxed), wav, mp3 and webm without decoding the audio.
+ * @param fileUri - URI to the audio file
+ * @param duration - Measured duration of the recording in seconds
+ * @returns The chunks, or null when the file does not need splitting or its format cannot be split
+ */
+export async function splitAudioIntoChunks(
+  fileUri: string,
+  duration: number,
+  options: ChunkOptions = {}
+): Promise<AudioChunk[] | null> {
+  const maxChunkBytes = options.maxChunkBytes || MAX_CHUNK_BYTES;
+  const overlapSeconds = options.overlapSeconds ?? DEFAULT_OVERLAP_SECONDS;
+  const source = await openByteSource(fileUri);
+
+  if (!duration || duration <= 0) {
+    return null;
+  }
+
+  if (source.size <= maxChunkBytes && duration <= MAX_SINGLE_REQUEST_SECONDS) {
+    return null;
+  }
+
+  // Size chunks so that each one stays under the byte limit
+  const bytesPerSecond = source.size / duration;
+  const chunkSeconds = Math.max(
+    Math.min(options.chunkSeconds || DEFAULT_CHUNK_SECONDS, Math.floor(maxChunkBytes / bytesPerSecond)),
+    overlapSeconds * 2 + 1
+  );
+  const windows = planChunkWindows(duration, chunkSeconds, overlapSeconds);
+
+  const header = await source.read(0, Math.min(64 * 1024, source.size));
+  let splitter: ((window: ChunkWindow) => Promise<ChunkData>) | null = null;
+  let extension = '';
+  let mimeType = '';
+
+  if (readAscii(header, 4, 4) === 'ftyp') {
+    splitter = await createMp4Splitter(source);
+    extension = 'm4a';
+    mimeType = 'audio/mp4';
+  } else if (readAscii(header, 0, 4) === 'RIFF' && readAscii(header, 8, 4) === 'WAVE') {
+    splitter = await createWavSplitter(source);
+    extension = 'wav';
+    mimeType = 'audio/wav';
+  } else if (readUint32BE(header, 0) === 0x1A45DFA3) {
+    splitter = await createWebmSplitter(source, duration);
+    extension = 'webm';
+    mimeType = 'audio/webm';
+  } else if (readAscii(header, 0, 3) === 'ID3' || (header[0] === 0xFF && (header[1] & 0xE0) === 0xE0)) {
+    splitter = await createMp3Splitter(source, header, duration);
+    extension = 'mp3';
+    mimeType = 'audio/mpeg';
+  }
+
+  if (!splitter) {
+    console.warn('[audioChunkService] Unsupported format for chunking, sending as a single file');
+    return null;
+  }
+
+  const chunks: AudioChunk[] = [];
+  const batchId = Date.now();
+
+  try {
+    for (let index = 0; index < windows.length; index++) {
+      const data = await splitter(windows[index]);
+      const uri = await writeTempAudioFile(data.bytes, `chunk-${batchId}-${index}.${extension}`, mimeType);
+      chunks.push({ index, uri, start: data.start, end: data.end });
+    }
+  } catch (error) {
+    await cleanupAudioChunks(chunks);
+    throw error;
+  }
+
+  console.log(`[audioChunkService] Split ${duration.toFixed(1)}s recording into ${chunks.length} chunks`);
+  return chunks;
+}
+
+/**
+ * Delete the temporary files for a set of chunks
+ */
+export async function cleanupAudioChunks(chunks: AudioChunk[]): Promise<void> {
+  for (const chunk of chunks) {
+    try {
+      await deleteTempAudioFile(chunk.uri);
+    } catch (error) {
+      console.warn('[audioChunkService] Failed to delete chunk file:', error);
+    }
+  }
+}
+
+/**
+ * Join recordings made with the same encoder settings into one file, back to back.
+ * Supports m4a/mp4 (native recorder) and webm (MediaRecorder on web).
+ * @param fileUris - URIs of the files to join, in order
+ * @returns URI of a new temporary file in the same format
+ */
+export async function concatenateAudioFiles(fileUris: string[]): Promise<string> {
+  try {
+    if (fileUris.length === 0) {
+      throw new Error('No recordings to join');
+    }
+
+    const firstSource = await openByteSource(fileUris[0]);
+    const firstHeader = await firstSource.read(0, Math.min(12, firstSource.size));
+
+    if (readUint32BE(firstHeader, 0) === 0x1A45DFA3) {
+      return await writeTempAudioFile(await concatenateWebm(fileUris), `joined-${Date.now()}.webm`, 'audio/webm');
+    }
+
+    let timescale = 0;
+    let stsd: Uint8Array | null = null;
+    const samples: Uint8Array[] = [];
+    const durations: number[] = [];
+
+    for (const fileUri of fileUris) {
+      const source = await openByteSource(fileUri);
+      const table = await readMp4SampleTable(source);
+
+      if (!table) {
+        throw new Error(`Not an m4a recording: ${fileUri}`);
+      }
+
+      if (stsd && table.timescale !== timescale) {
+        throw new Error('Recordings use different sample rates');
+      }
+
+      timescale = table.timescale;
+      stsd = stsd || table.stsd;
+      samples.push(...await readMp4Samples(source, table, 0, table.sizes.length));
+      durations.push(...table.durations);
+    }
+
+    return await writeTempAudioFile(buildM4a(timescale, stsd!, samples, durations), `joined-${Date.now()}.m4a`, 'audio/mp4');
+  } catch (error) {
+    console.error('[audioChunkService] Failed to join recordings:', error);
+    throw new Error(`Failed to join recordings: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Lay out overlapping windows that cover the whole recording
+ */
+function planChunkWindows(duration: number, chunkSeconds: number, overlapSeconds: number): ChunkWindow[] {
+  const windows: ChunkWindow[] = [];
+  const step = chunkSeconds - overlapSeconds;
+
+  for (let start = 0; start < duration; start += step) {
+    const end = Math.min(start + chunkSeconds, duration);
+    windows.push({ start, end });
+
+    if (end >= duration) break;
+  }
+
+  return windows;
+}
+
+/* ------------------------------------------------------------------ */
+/* MP4 / M4A                                                           */
+/* ------------------------------------------------------------------ */
+
+interface Mp4Box {
+  boxStart: number;
+  start: number;
+  end: number;
+}
+
+function findMp4Boxes(bytes: Uint8Array, start: number, end: number, type: string): Mp4Box[] {
+  const boxes: Mp4Box[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = readUint32BE(bytes, offset);
+    const boxType = readAscii(bytes, offset + 4, 4);
+    let headerSize = 8;
+
+    if (size === 1) {
+      size = readUint64BE(bytes, offset + 8);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+
+    if (size < headerSize) break;
+
+    if (boxType === type) {
+      boxes.push({ boxStart: offset, start: offset + headerSize, end: offset + size });
+    }
+
+    offset += size;
+  }
+
+  return boxes;
+}
+
+function findMp4Box(bytes: Uint8Array, parent: Mp4Box, path: string[]): Mp4Box | null {
+  let current: Mp4Box | null = parent;
+
+  for (const type of path) {
+    if (!current) return null;
+    current = findMp4Boxes(bytes, current.start, current.end, type)[0] || null;
+  }
+
+  return current;
+}
+
+function mp4Box(type: string, ...payload: Uint8Array[]): Uint8Array {
+  const body = concatBytes(payload);
+  return concatBytes([uint32BE(body.length + 8), asciiBytes(type), body]);
+}
+
+function mp4FullBox(type: string, version: number, flags: number, ...payload: Uint8Array[]): Uint8Array {
+  return mp4Box(type, uint32BE(((version & 0xFF) << 24) | (flags & 0xFFFFFF)), ...payload);
+}
+
+// Identity transform matrix used by mvhd and tkhd
+const MP4_MATRIX = concatBytes([0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000].map(uint32BE));
+
+// Sample table of the audio track in an m4a/mp4 file
+interface Mp4SampleTable {
+  timescale: number;
+  // Sample description box, copied as-is into files we write
+  stsd: Uint8Array;
+  sizes: number[];
+  offsets: number[];
+  times: number[];
+  durations: number[];
+}
+
+/**
+ * Read moov and resolve the size, file offset and timing of every audio sample
+ */
+async function readMp4SampleTable(source: ByteSource): Promise<Mp4SampleTable | null> {
+  // Locate moov among the top-level boxes
+  let offset = 0;
+  let moovBytes: Uint8Array | null = null;
+
+  while (offset + 8 <= source.size) {
+    const boxHeader = await source.read(offset, 16);
+    let boxSize = readUint32BE(boxHeader, 0);
+    const boxType = readAscii(boxHeader, 4, 4);
+
+    if (boxSize === 1) {
+      boxSize = readUint64BE(boxHeader, 8);
+    } else if (boxSize === 0) {
+      boxSize = source.size - offset;
+    }
+
+    if (boxSize < 8) return null;
+
+    if (boxType === 'moov') {
+      moovBytes = await source.read(offset, boxSize);
+      break;
+    }
+
+    offset += boxSize;
+  }
+
+  if (!moovBytes) return null;
+
+  const moov = moovBytes;
+  const root: Mp4Box = { boxStart: 0, start: 8, end: moov.length };
+
+  // Find the audio track
+  const audioTrak = findMp4Boxes(moov, root.start, root.end, 'trak').find(trak => {
+    const hdlr = findMp4Box(moov, trak, ['mdia', 'hdlr']);
+    return hdlr ? readAscii(moov, hdlr.start + 8, 4) === 'soun' : false;
+  });
+
+  if (!audioTrak) return null;
+
+  const mdhd = findMp4Box(moov, audioTrak, ['mdia', 'mdhd']);
+  const stbl = findMp4Box(moov, audioTrak, ['mdia', 'minf', 'stbl']);
+  if (!mdhd || !stbl) return null;
+
+  const timescale = moov[mdhd.start] === 1
+    ? readUint32BE(moov, mdhd.start + 20)
+    : readUint32BE(moov, mdhd.start + 12);
+
+  const stsd = findMp4Boxes(moov, stbl.start, stbl.end, 'stsd')[0];
+  const stts = findMp4Boxes(moov, stbl.start, stbl.end, 'stts')[0];
+  const stsc = findMp4Boxes(moov, stbl.start, stbl.end, 'stsc')[0];
+  const stsz = findMp4Boxes(moov, stbl.start, stbl.end, 'stsz')[0];
+  const stco = findMp4Boxes(moov, stbl.start, stbl.end, 'stco')[0];
+  const co64 = findMp4Boxes(moov, stbl.start, stbl.end, 'co64')[0];
+
+  if (!timescale || !stsd || !stts || !stsc || !stsz || (!stco && !co64)) return null;
+
+  // Sample sizes
+  const fixedSampleSize = readUint32BE(moov, stsz.start + 4);
+  const sampleCount = readUint32BE(moov, stsz.start + 8);
+  const sizes: number[] = [];
+  for (let i = 0; i < sampleCount; i++) {
+    sizes.push(fixedSampleSize || readUint32BE(moov, stsz.start + 12 + i * 4));
+  }
+
+  // Sample timing
+  const times: number[] = [];
+  const durations: number[] = [];
+  const sttsCount = readUint32BE(moov, stts.start + 4);
+  let time = 0;
+  for (let i = 0; i < sttsCount; i++) {
+    const count = readUint32BE(moov, stts.start + 8 + i * 8);
+    const delta = readUint32BE(moov, stts.start + 12 + i * 8);
+    for (let j = 0; j < count && times.length < sampleCount; j++) {
+      times.push(time);
+      durations.push(delta);
+      time += delta;
+    }
+  }
+
+  // Chunk offsets
+  const chunkOffsets: number[] = [];
+  if (stco) {
+    const count = readUint32BE(moov, stco.start + 4);
+    for (let i = 0; i < count; i++) chunkOffsets.push(readUint32BE(moov, stco.start + 8 + i * 4));
+  } else {
+    const count = readUint32BE(moov, co64.start + 4);
+    for (let i = 0; i < count; i++) chunkOffsets.push(readUint64BE(moov, co64.start + 8 + i * 8));
+  }
+
+  // Resolve each sample's file offset from the sample-to-chunk table
+  const offsets: number[] = [];
+  const stscCount = readUint32BE(moov, stsc.start + 4);
+  for (let i = 0; i < stscCount; i++) {
+    const firstChunk = readUint32BE(moov, stsc.start + 8 + i * 12);
+    const samplesPerChunk = readUint32BE(moov, stsc.start + 12 + i * 12);
+    const nextFirstChunk = i + 1 < stscCount
+      ? readUint32BE(moov, stsc.start + 8 + (i + 1) * 12)
+      : chunkOffsets.length + 1;
+
+    for (let chunk = firstChunk; chunk < nextFirstChunk; chunk++) {
+      let sampleOffset = chunkOffsets[chunk - 1];
+      for (let j = 0; j < samplesPerChunk && offsets.length < sampleCount; j++) {
+        offsets.push(sampleOffset);
+        sampleOffset += sizes[offsets.length - 1];
+      }
+    }
+  }
+
+  if (offsets.length < sampleCount || times.length < sampleCount) return null;
+
+  return { timescale, stsd: moov.slice(stsd.boxStart, stsd.end), sizes, offsets, times, durations };
+}
+
+/**
+ * Copy samples [first, last) of a file into a list of sample payloads
+ */
+async function readMp4Samples(source: ByteSource, table: Mp4SampleTable, first: number, last: number): Promise<Uint8Array[]> {
+  if (last <= first) return [];
+
+  // Read the covering byte range once, then copy out each sample
+  let rangeStart = Infinity;
+  let rangeEnd = 0;
+  for (let i = first; i < last; i++) {
+    rangeStart = Math.min(rangeStart, table.offsets[i]);
+    rangeEnd = Math.max(rangeEnd, table.offsets[i] + table.sizes[i]);
+  }
+  const range = await source.read(rangeStart, rangeEnd - rangeStart);
+  const samples: Uint8Array[] = [];
+  for (let i = first; i < last; i++) {
+    samples.push(range.subarray(table.offsets[i] - rangeStart, table.offsets[i] - rangeStart + table.sizes[i]));
+  }
+  return samples;
+}
+
+/**
+ * Build a standalone m4a with a single audio track holding the given samples
+ */
+function buildM4a(timescale: number, stsd: Uint8Array, samples: Uint8Array[], sampleDurations: number[]): Uint8Array {
+  const sampleSizes = samples.map(sample => sample.length);
+  const totalDuration = sampleDurations.reduce((sum, value) => sum + value, 0);
+
+  // Run-length encode the sample durations for stts
+  const sttsEntries: Uint8Array[] = [];
+  let runCount = 0;
+  for (let i = 0; i < sampleDurations.length; i++) {
+    runCount++;
+    if (i + 1 === sampleDurations.length || sampleDurations[i + 1] !== sampleDurations[i]) {
+      sttsEntries.push(uint32BE(runCount), uint32BE(sampleDurations[i]));
+      runCount = 0;
+    }
+  }
+
+  const ftyp = mp4Box('ftyp', asciiBytes('M4A '), uint32BE(0), asciiBytes('M4A mp42isom'));
+
+  const buildMoov = (mdatOffset: number) => mp4Box('moov',
+    mp4FullBox('mvhd', 0, 0,
+      uint32BE(0), uint32BE(0), uint32BE(timescale), uint32BE(totalDuration),
+      uint32BE(0x00010000), new Uint8Array([0x01, 0x00]), new Uint8Array(10),
+      MP4_MATRIX, new Uint8Array(24), uint32BE(2)
+    ),
+    mp4Box('trak',
+      mp4FullBox('tkhd', 0, 3,
+        uint32BE(0), uint32BE(0), uint32BE(1), uint32BE(0), uint32BE(totalDuration),
+        new Uint8Array(8), new Uint8Array(4), new Uint8Array([0x01, 0x00, 0x00, 0x00]),
+        MP4_MATRIX, uint32BE(0), uint32BE(0)
+      ),
+      mp4Box('mdia',
+        mp4FullBox('mdhd', 0, 0,
+          uint32BE(0), uint32BE(0), uint32BE(timescale), uint32BE(totalDuration),
+          new Uint8Array([0x55, 0xC4, 0x00, 0x00])
+        ),
+        mp4FullBox('hdlr', 0, 0, uint32BE(0), asciiBytes('soun'), new Uint8Array(12), asciiBytes('SoundHandler\0')),
+        mp4Box('minf',
+          mp4FullBox('smhd', 0, 0, new Uint8Array(4)),
+          mp4Box('dinf', mp4FullBox('dref', 0, 0, uint32BE(1), mp4FullBox('url ', 0, 1))),
+          mp4Box('stbl',
+            stsd,
+            mp4FullBox('stts', 0, 0, uint32BE(sttsEntries.length / 2), ...sttsEntries),
+            mp4FullBox('stsc', 0, 0, uint32BE(1), uint32BE(1), uint32BE(sampleSizes.length), uint32BE(1)),
+            mp4FullBox('stsz', 0, 0, uint32BE(0), uint32BE(sampleSizes.length), ...sampleSizes.map(uint32BE)),
+            mp4FullBox('stco', 0, 0, uint32BE(1), uint32BE(mdatOffset))
+          )
+        )
+      )
+    )
+  );
+
+  // The mdat payload starts after ftyp, moov and the mdat header
+  const moovLength = buildMoov(0).length;
+  const moovBox = buildMoov(ftyp.length + moovLength + 8);
+
+  return concatBytes([ftyp, moovBox, mp4Box('mdat', concatBytes(samples))]);
+}
+
+/**
+ * Build a splitter that copies the AAC samples for each window into a new standalone m4a
+ */
+async function createMp4Splitter(source: ByteSource): Promise<((window: ChunkWindow) => Promise<ChunkData>) | null> {
+  const table = await readMp4SampleTable(source);
+  if (!table) return null;
+
+  const { timescale, times, durations } = table;
+  const sampleCount = times.length;
+
+  return async (window) => {
+    const startTs = window.start * timescale;
+    const endTs = window.end * timescale;
+    let first = times.findIndex(t => t >= startTs);
+    if (first < 0) first = sampleCount - 1;
+    let last = times.findIndex(t => t >= endTs);
+    if (last < 0) last = sampleCount;
+    if (last <= first) last = first + 1;
+
+    const samples = await readMp4Samples(source, table, first, last);
+
+    return {
+      bytes: buildM4a(timescale, table.stsd, samples, durations.slice(first, last)),
+      start: times[first] / timescale,
+      end: (times[last - 1] + durations[last - 1]) / timescale,
+    };
+  };
+}
+
+/* ------------------------------------------------------------------ */
+/* AAC (ADTS)                                                          */
+/* ------------------------------------------------------------------ */
+
+// Samples per channel in every AAC frame
+export const AAC_FRAME_SAMPLES = 1024;
+
+const ADTS_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+/**
+ * AAC frames read from an ADTS stream, such as a native recording that is still being written
+ */
+export interface AdtsFrames {
+  sampleRate: number;
+  // Sample description for an m4a holding these frames
+  stsd: Uint8Array;
+  // Raw AAC frames with their ADTS headers removed
+  frames: Uint8Array[];
+  // Bytes up to the end of the last complete frame; anything after it is still being written
+  length: number;
+}
+
+/**
+ * Read the complete ADTS frames at the start of the given bytes. A frame cut
+ * off at the end is left for the next read.
+ * @returns The frames, or null if there is no complete frame yet
+ */
+export function readAdtsFrames(bytes: Uint8Array): AdtsFrames | null {
+  const frames: Uint8Array[] = [];
+  let offset = 0;
+  let length = 0;
+  let header: { profile: number; rateIndex: number; channels: number } | null = null;
+
+  while (offset + 7 <= bytes.length) {
+    // Sync word, then MPEG layer 0
+    if (bytes[offset] !== 0xFF || (bytes[offset + 1] & 0xF6) !== 0xF0) {
+      offset++;
+      continue;
+    }
+
+    const headerLength = bytes[offset + 1] & 0x01 ? 7 : 9;
+    const frameLength = ((bytes[offset + 3] & 0x03) << 11) | (bytes[offset + 4] << 3) | (bytes[offset + 5] >> 5);
+
+    if (frameLength <= headerLength) {
+      offset++;
+      continue;
+    }
+    if (offset + frameLength > bytes.length) break;
+
+    header = header || {
+      profile: bytes[offset + 2] >> 6,
+      rateIndex: (bytes[offset + 2] >> 2) & 0x0F,
+      channels: ((bytes[offset + 2] & 0x01) << 2) | (bytes[offset + 3] >> 6),
+    };
+
+    frames.push(bytes.subarray(offset + headerLength, offset + frameLength));
+    offset += frameLength;
+    length = offset;
+  }
+
+  if (!header || !ADTS_SAMPLE_RATES[header.rateIndex]) return null;
+
+  const sampleRate = ADTS_SAMPLE_RATES[header.rateIndex];
+  return { sampleRate, stsd: buildAacStsd(sampleRate, header.profile + 1, header.rateIndex, header.channels), frames, length };
+}
+
+/**
+ * Build the stsd box (mp4a sample entry with its esds descriptors) for an AAC track
+ */
+function buildAacStsd(sampleRate: number, objectType: number, rateIndex: number, channels: number): Uint8Array {
+  const descriptor = (tag: number, ...payload: Uint8Array[]) => {
+    const body = concatBytes(payload);
+    return concatBytes([new Uint8Array([tag, body.length]), body]);
+  };
+
+  const audioSpecificConfig = new Uint8Array([(objectType << 3) | (rateIndex >> 1), ((rateIndex & 0x01) << 7) | (channels << 3)]);
+  const decoderConfig = descriptor(0x04,
+    // MPEG-4 audio, audio stream, no buffer size or bitrate hints
+    new Uint8Array([0x40, 0x15, 0x00, 0x00, 0x00]), uint32BE(0), uint32BE(0),
+    descriptor(0x05, audioSpecificConfig)
+  );
+  const esDescriptor = descriptor(0x03, new Uint8Array([0x00, 0x00, 0x00]), decoderConfig, descriptor(0x06, new Uint8Array([0x02])));
+
+  return mp4FullBox('stsd', 0, 0, uint32BE(1),
+    mp4Box('mp4a',
+      new Uint8Array(6), new Uint8Array([0x00, 0x01]), new Uint8Array(8),
+      new Uint8Array([0x00, channels, 0x00, 0x10]), new Uint8Array(4), uint32BE(sampleRate * 0x10000),
+      mp4FullBox('esds', 0, 0, esDescriptor)
+    )
+  );
+}
+
+/**
+ * Build a standalone m4a from frames of an ADTS stream
+ * @param frames - Frames to include, all of the stream's frames by default
+ */
+export function adtsFramesToM4a(adts: AdtsFrames, frames: Uint8Array[] = adts.frames): Uint8Array {
+  return buildM4a(adts.sampleRate, adts.stsd, frames, frames.map(() => AAC_FRAME_SAMPLES));
+}
+
+/**
+ * Rewrap an ADTS recording as m4a, which every transcription provider accepts
+ * @returns URI of a new temporary m4a file
+ */
+export async function convertAdtsToM4a(fileUri: string): Promise<string> {
+  try {
+    const source = await openByteSource(fileUri);
+    const adts = readAdtsFrames(await source.read(0, source.size));
+
+    if (!adts) {
+      throw new Error('The recording contains no audio');
+    }
+
+    return await writeTempAudioFile(adtsFramesToM4a(adts), `take-${Date.now()}.m4a`, 'audio/mp4');
+  } catch (error) {
+    console.error('[audioChunkService] Failed to convert recording:', error);
+    throw new Error(`Failed to convert recording: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/* WAV                                                                 */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Build a splitter that slices PCM data on block boundaries and writes a fresh RIFF header
+ */
+async function createWavSplitter(source: ByteSource): Promise<((window: ChunkWindow) => Promise<ChunkData>) | null> {
+  let offset = 12;
+  let fmtChunk: Uint8Array | null = null;
+  let byteRate = 0;
+  let blockAlign = 0;
+
+  while (offset + 8 <= source.size) {
+    const chunkHeader = await source.read(offset, 8);
+    const chunkId = readAscii(chunkHeader, 0, 4);
+    const chunkSize = readUint32LE(chunkHeader, 4);
+
+    if (chunkId === 'fmt ') {
+      fmtChunk = await source.read(offset, 8 + chunkSize);
+      byteRate = readUint32LE(fmtChunk, 16);
+      blockAlign = fmtChunk[20] | (fmtChunk[21] << 8);
+    } else if (chunkId === 'data') {
+      if (!fmtChunk || !byteRate || !blockAlign) return null;
+
+      const format = fmtChunk;
+      const dataStart = offset + 8;
+      const dataSize = chunkSize === 0 || chunkSize === 0xFFFFFFFF
+        ? source.size - dataStart
+        : Math.min(chunkSize, source.size - dataStart);
+
+      const alignedOffset = (seconds: number) =>
+        Math.min(Math.floor((seconds * byteRate) / blockAlign) * blockAlign, dataSize);
+
+      return async (window) => {
+        const startByte = alignedOffset(window.start);
+        const endByte = alignedOffset(window.end);
+        const data = await source.read(dataStart + startByte, endByte - startByte);
+
+        return {
+          bytes: concatBytes([
+            asciiBytes('RIFF'), uint32LE(4 + format.length + 8 + data.length), asciiBytes('WAVE'),
+            format,
+            asciiBytes('data'), uint32LE(data.length), data,
+          ]),
+          start: startByte / byteRate,
+          end: endByte / byteRate,
+        };
+      };
+    }
+
+    // Chunks are word aligned
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+
+  return null;
+}
+
+/* ------------------------------------------------------------------ */
+/* MP3                                                                 */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Build a splitter that cuts on MPEG frame boundaries (frames are self-contained)
+ */
+async function createMp3Splitter(
+  source: ByteSource,
+  header: Uint8Array,
+  duration: number
+): Promise<((window: ChunkWindow) => Promise<ChunkData>) | null> {
+  let audioStart = 0;
+
+  // Skip an ID3v2 tag (size is a 28-bit syncsafe integer)
+  if (readAscii(header, 0, 3) === 'ID3') {
+    const tagSize = ((header[6] & 0x7F) << 21) | ((header[7] & 0x7F) << 14) | ((header[8] & 0x7F) << 7) | (header[9] & 0x7F);
+    audioStart = 10 + tagSize + ((header[5] & 0x10) !== 0 ? 10 : 0);
+  }
+
+  const audioBytes = source.size - audioStart;
+  const bytesPerSecond = audioBytes / duration;
+
+  // Find the first frame at or after a byte offset
+  const alignToFrame = async (approxOffset: number): Promise<number> => {
+    if (approxOffset >= source.size) return source.size;
+
+    const bytes = await source.read(approxOffset, 8192);
+    for (let i = 0; i + 4 <= bytes.length; i++) {
+      if (bytes[i] === 0xFF && (bytes[i + 1] & 0xE0) === 0xE0 && parseMp3FrameHeader(bytes, i)) {
+        return approxOffset + i;
+      }
+    }
+
+    return Math.min(approxOffset + bytes.length, source.size);
+  };
+
+  return async (window) => {
+    const startByte = await alignToFrame(audioStart + Math.floor(window.start * bytesPerSecond));
+    const endByte = window.end >= duration
+      ? source.size
+      : await alignToFrame(audioStart + Math.floor(window.end * bytesPerSecond));
+
+    return {
+      bytes: await source.read(startByte, endByte - startByte),
+      start: (startByte - audioStart) / bytesPerSecond,
+      end: Math.min((endByte - audioStart) / bytesPerSecond, duration),
+    };
+  };
+}
+
+/* ------------------------------------------------------------------ */
+/* WebM                                                                */
+/* ------------------------------------------------------------------ */
+
+const WEBM_CLUSTER_ID = [0x1F, 0x43, 0xB6, 0x75];
+const WEBM_TIMECODE_ID = 0xE7;
+const WEBM_SCAN_WINDOW = 1024 * 1024;
+// Length of one Opus frame as written by MediaRecorder
+const WEBM_FRAME_MS = 20;
+
+// A cluster found in a webm file, with where its children start after the Timecode element
+interface WebmCluster {
+  offset: number;
+  time: number;
+  afterTimecode: number;
+}
+
+/**
+ * Scan for cluster ids and validate each by its Timecode child
+ */
+async function scanWebmClusters(source: ByteSource): Promise<WebmCluster[]> {
+  const clusters: WebmCluster[] = [];
+
+  for (let windowStart = 0; windowStart < source.size; windowStart += WEBM_SCAN_WINDOW) {
+    const bytes = await source.read(windowStart, WEBM_SCAN_WINDOW + 32);
+
+    for (let i = 0; i + 4 <= Math.min(bytes.length, WEBM_SCAN_WINDOW); i++) {
+      if (
+        bytes[i] !== WEBM_CLUSTER_ID[0] || bytes[i + 1] !== WEBM_CLUSTER_ID[1] ||
+        bytes[i + 2] !== WEBM_CLUSTER_ID[2] || bytes[i + 3] !== WEBM_CLUSTER_ID[3]
+      ) {
+        continue;
+      }
+
+      const size = readEbmlSize(bytes, i + 4);
+      if (!size) continue;
+      const childOffset = i + 4 + size.length;
+      const childId = readEbmlId(bytes, childOffset);
+      if (!childId || childId.value !== WEBM_TIMECODE_ID) continue;
+      const childSize = readEbmlSize(bytes, childOffset + 1);
+      if (!childSize || childSize.value > 8) continue;
+
+      const valueOffset = childOffset + 1 + childSize.length;
+      const timecode = readUintBE(bytes, valueOffset, childSize.value);
+      clusters.push({
+        offset: windowStart + i,
+        time: timecode / 1000,
+        afterTimecode: windowStart + valueOffset + childSize.value,
+      });
+    }
+  }
+
+  return clusters;
+}
+
+/**
+ * Build a splitter that prefixes a run of clusters with the original header
+ * (EBML, Segment, Info, Tracks). Clusters carry their own timecodes, so each
+ * chunk decodes on its own. MediaRecorder always writes the default 1 ms
+ * TimecodeScale, which is assumed here.
+ */
+async function createWebmSplitter(
+  source: ByteSource,
+  duration: number
+): Promise<((window: ChunkWindow) => Promise<ChunkData>) | null> {
+  const clusters = await scanWebmClusters(source);
+
+  if (clusters.length === 0) return null;
+
+  const headerBytes = await source.read(0, clusters[0].offset);
+
+  return async (window) => {
+    // Start at the last cluster that begins at or before the window start
+    let first = 0;
+    for (let i = 0; i < clusters.length; i++) {
+      if (clusters[i].time <= window.start) first = i;
+    }
+
+    let last = clusters.findIndex(cluster => cluster.time >= window.end);
+    if (last < 0 || window.end >= duration) last = clusters.length;
+    if (last <= first) last = first + 1;
+
+    const byteStart = clusters[first].offset;
+    const byteEnd = last < clusters.length ? clusters[last].offset : source.size;
+    const body = await source.read(byteStart, byteEnd - byteStart);
+
+    return {
+      bytes: concatBytes([headerBytes, body]),
+      start: clusters[first].time,
+      end: last < clusters.length ? clusters[last].time : duration,
+    };
+  };
+}
+
+/**
+ * Join webm recordings by appending the clusters of each file to the first
+ * file's header, shifting their timecodes past the audio before them
+ */
+async function concatenateWebm(fileUris: string[]): Promise<Uint8Array> {
+  const parts: Uint8Array[] = [];
+  let offsetMs = 0;
+
+  for (const fileUri of fileUris) {
+    const source = await openByteSource(fileUri);
+    const clusters = await scanWebmClusters(source);
+
+    if (clusters.length === 0) {
+      throw new Error(`Not a webm recording: ${fileUri}`);
+    }
+
+    if (parts.length === 0) {
+      parts.push(openEndedWebmHeader(await source.read(0, clusters[0].offset)));
+    }
+
+    for (let i = 0; i < clusters.length; i++) {
+      const end = i + 1 < clusters.length ? clusters[i + 1].offset : source.size;
+      const timecode = Math.round(clusters[i].time * 1000) + offsetMs;
+
+      // Rewrite the cluster with an unknown size so the longer Timecode fits
+      parts.push(
+        new Uint8Array([...WEBM_CLUSTER_ID, 0x01, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF]),
+        new Uint8Array([WEBM_TIMECODE_ID, 0x88]),
+        uint32BE(Math.floor(timecode / 0x100000000)),
+        uint32BE(timecode % 0x100000000),
+        await source.read(clusters[i].afterTimecode, end - clusters[i].afterTimecode)
+      );
+    }
+
+    // The next file starts after the last block, or the measured duration if that is later
+    const lastCluster = clusters[clusters.length - 1];
+    const lastBlockMs = lastWebmBlockTime(await source.read(lastCluster.afterTimecode, source.size - lastCluster.afterTimecode));
+    const duration = await getAudioDuration(fileUri);
+    offsetMs += Math.max(
+      Math.round(duration * 1000),
+      Math.round(lastCluster.time * 1000) + lastBlockMs + WEBM_FRAME_MS
+    );
+  }
+
+  return concatBytes(parts);
+}
+
+/**
+ * Relative timecode (ms) of the last SimpleBlock or Block in a cluster's children
+ */
+function lastWebmBlockTime(children: Uint8Array): number {
+  const SIMPLE_BLOCK_ID = 0xA3;
+  const BLOCK_GROUP_ID = 0xA0;
+  const BLOCK_ID = 0xA1;
+  let lastTime = 0;
+  let offset = 0;
+
+  while (offset < children.length) {
+    const id = readEbmlId(children, offset);
+    if (!id) break;
+    const size = readEbmlSize(children, offset + id.length);
+    if (!size || size.unknown) break;
+    let dataStart = offset + id.length + size.length;
+
+    if (id.value === BLOCK_GROUP_ID) {
+      // The Block is normally the first child of its group
+      const blockId = readEbmlId(children, dataStart);
+      const blockSize = blockId && readEbmlSize(children, dataStart + blockId.length);
+      dataStart = blockId && blockId.value === BLOCK_ID && blockSize
+        ? dataStart + blockId.length + blockSize.length
+        : -1;
+    } else if (id.value !== SIMPLE_BLOCK_ID) {
+      dataStart = -1;
+    }
+
+    if (dataStart >= 0) {
+      // Track number (vint) followed by a signed 16-bit relative timecode
+      const track = readEbmlSize(children, dataStart);
+      if (track && dataStart + track.length + 2 <= children.length) {
+        const raw = (children[dataStart + track.length] << 8) | children[dataStart + track.length + 1];
+        lastTime = Math.max(lastTime, raw >= 0x8000 ? raw - 0x10000 : raw);
+      }
+    }
+
+    offset += id.length + size.length + size.value;
+  }
+
+  return lastTime;
+}
+
+/**
+ * Make a webm header suitable for appending clusters: mark the Segment size as
+ * unknown and blank out Info > Duration, both in place so no offsets move
+ */
+function openEndedWebmHeader(header: Uint8Array): Uint8Array {
+  const SEGMENT_ID = 0x18538067;
+  const INFO_ID = 0x1549A966;
+  const DURATION_ID = 0x4489;
+  const VOID_ID = 0xEC;
+  const bytes = header.slice();
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    const id = readEbmlId(bytes, offset);
+    if (!id) break;
+    const size = readEbmlSize(bytes, offset + id.length);
+    if (!size) break;
+    const dataStart = offset + id.length + size.length;
+
+    if (id.value === SEGMENT_ID) {
+      // All ones after the length marker means unknown size
+      bytes[offset + id.length] = (2 << (8 - size.length)) - 1;
+      bytes.fill(0xFF, offset + id.length + 1, dataStart);
+      offset = dataStart;
+    } else if (id.value === INFO_ID) {
+      let childOffset = dataStart;
+      const infoEnd = Math.min(dataStart + size.value, bytes.length);
+
+      while (childOffset < infoEnd) {
+        const childId = readEbmlId(bytes, childOffset);
+        if (!childId) break;
+        const childSize = readEbmlSize(bytes, childOffset + childId.length);
+        if (!childSize) break;
+        const childLength = childId.length + childSize.length + childSize.value;
+
+        if (childId.value === DURATION_ID && childLength - 2 < 0x7F) {
+          bytes[childOffset] = VOID_ID;
+          bytes[childOffset + 1] = 0x80 | (childLength - 2);
+          bytes.fill(0, childOffset + 2, childOffset + childLength);
+        }
+
+        childOffset += childLength;
+      }
+
+      offset = dataStart + size.value;
+    } else {
+      offset = dataStart + size.value;
+    }
+  }
+
+  return bytes;
+}
@@ -0,0 +1,348 @@
+// services/audioDurationService.ts
+import { Audio } from 'expo-av';
+import { Platform } from 'react-native';
+import {
+  ByteSource,
+  openByteSource,
+  parseMp3FrameHeader,
+  readAscii,
+  readEbmlId,
+  readEbmlSize,
+  readUint32BE,
+  readUint32LE,
+  readUint64BE,
+  readUintBE,
+} from '../utils/audioBytes';
+
+// Check if we're running on web platform
+const isWeb = Platform.OS === 'web';
+
+// How much of the file to read when looking for headers
+const HEADER_READ_SIZE = 64 * 1024;
+
+/**
+ * Get the duration of an audio file in seconds.
+ * Reads container metadata first (m4a/mp4, mp3, wav, webm), then falls back to
+ * decoding with Web Audio on web or loading the sound with expo-av on native.
+ * @param fileUri - URI to the audio file
+ * @returns Promise with the duration in seconds, or 0 if it cannot be determined
+ */
+export async function getAudioDuration(fileUri: string): Promise<number> {
+  try {
+    const source = await openByteSource(fileUri);
+    const metadataDuration = await readContainerDuration(source);
+
+    if (metadataDuration && isFinite(metadataDuration) && metadataDuration > 0) {
+      return metadataDuration;
+    }
+  } catch (error) {
+    console.warn('[audioDurationService] Could not read container metadata:', error);
+  }
+
+  try {
+    const decodedDuration = isWeb
+      ? await decodeDurationOnWeb(fileUri)
+      : await loadDurationOnNative(fileUri);
+
+    if (decodedDuration > 0) {
+      return decodedDuration;
+    }
+  } catch (error) {
+    console.warn('[audioDurationService] Could not decode audio to measure duration:', error);
+  }
+
+  return 0;
+}
+
+/**
+ * Format a duration in seconds as m:ss or h:mm:ss
+ */
+export function formatDuration(seconds: number): string {
+  const totalSeconds = Math.max(Math.round(seconds), 0);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const secs = totalSeconds % 60;
+  const paddedSeconds = secs.toString().padStart(2, '0');
+
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${paddedSeconds}`;
+  }
+
+  return `${minutes}:${paddedSeconds}`;
+}
+
+/**
+ * Detect the container from its magic bytes and read the duration from its headers
+ */
+async function readContainerDuration(source: ByteSource): Promise<number | null> {
+  const header = await source.read(0, Math.min(HEADER_READ_SIZE, source.size));
+
+  if (header.length < 12) {
+    return null;
+  }
+
+  if (readAscii(header, 4, 4) === 'ftyp') {
+    return readMp4Duration(source);
+  }
+
+  if (readAscii(header, 0, 4) === 'RIFF' && readAscii(header, 8, 4) === 'WAVE') {
+    return readWavDuration(source);
+  }
+
+  if (readUint32BE(header, 0) === 0x1A45DFA3) {
+    return readWebmDuration(header);
+  }
+
+  if (readAscii(header, 0, 3) === 'ID3' || (header[0] === 0xFF && (header[1] & 0xE0) === 0xE0)) {
+    return readMp3Duration(source, header);
+  }
+
+  return null;
+}
+
+/**
+ * MP4/M4A: duration and timescale live in moov/mvhd, which may be at either end of the file
+ */
+async function readMp4Duration(source: ByteSource): Promise<number | null> {
+  let offset = 0;
+
+  while (offset + 8 <= source.size) {
+    const boxHeader = await source.read(offset, 16);
+    let boxSize = readUint32BE(boxHeader, 0);
+    const boxType = readAscii(boxHeader, 4, 4);
+    let headerSize = 8;
+
+    if (boxSize === 1) {
+      boxSize = readUint64BE(boxHeader, 8);
+      headerSize = 16;
+    } else if (boxSize === 0) {
+      boxSize = source.size - offset;
+    }
+
+    if (boxSize < headerSize) {
+      return null;
+    }
+
+    if (boxType === 'moov') {
+      const moov = await source.read(offset + headerSize, boxSize - headerSize);
+      return readMvhdDuration(moov);
+    }
+
+    offset += boxSize;
+  }
+
+  return null;
+}
+
+/**
+ * Find the mvhd box within the moov payload and compute duration / timescale
+ */
+function readMvhdDuration(moov: Uint8Array): number | null {
+  let offset = 0;
+
+  while (offset + 8 <= moov.length) {
+    const boxSize = readUint32BE(moov, offset);
+    const boxType = readAscii(moov, offset + 4, 4);
+
+    if (boxType === 'mvhd') {
+      const version = moov[offset + 8];
+
+      if (version === 1) {
+        const timescale = readUint32BE(moov, offset + 28);
+        const duration = readUint64BE(moov, offset + 32);
+        return timescale > 0 ? duration / timescale : null;
+      }
+
+      const timescale = readUint32BE(moov, offset + 20);
+      const duration = readUint32BE(moov, offset + 24);
+      return timescale > 0 ? duration / timescale : null;
+    }
+
+    if (boxSize < 8) {
+      return null;
+    }
+
+    offset += boxSize;
+  }
+
+  return null;
+}
+
+/**
+ * WAV: data chunk size divided by the byte rate from the fmt chunk
+ */
+async function readWavDuration(source: ByteSource): Promise<number | null> {
+  let offset = 12;
+  let byteRate = 0;
+
+  while (offset + 8 <= source.size) {
+    const chunkHeader = await source.read(offset, 20);
+    const chunkId = readAscii(chunkHeader, 0, 4);
+    const chunkSize = readUint32LE(chunkHeader, 4);
+
+    if (chunkId === 'fmt ') {
+      // fmt data: format(2) channels(2) sampleRate(4) byteRate(4)
+      byteRate = readUint32LE(chunkHeader, 16);
+    } else if (chunkId === 'data') {
+      // Recorders that stream WAV sometimes leave the size as 0 or 0xFFFFFFFF
+      const dataSize = chunkSize === 0 || chunkSize === 0xFFFFFFFF
+        ? source.size - offset - 8
+        : Math.min(chunkSize, source.size - offset - 8);
+      return byteRate > 0 ? dataSize / byteRate : null;
+    }
+
+    // Chunks are word aligned
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+
+  return null;
+}
+
+/**
+ * MP3: use the Xing/Info or VBRI frame count when present, otherwise assume CBR
+ */
+async function readMp3Duration(source: ByteSource, header: Uint8Array): Promise<number | null> {
+  let audioStart = 0;
+
+  // Skip an ID3v2 tag (size is a 28-bit syncsafe integer)
+  if (readAscii(header, 0, 3) === 'ID3') {
+    const tagSize = ((header[6] & 0x7F) << 21) | ((header[7] & 0x7F) << 14) | ((header[8] & 0x7F) << 7) | (header[9] & 0x7F);
+    const hasFooter = (header[5] & 0x10) !== 0;
+    audioStart = 10 + tagSize + (hasFooter ? 10 : 0);
+  }
+
+  const frameBytes = await source.read(audioStart, 4096);
+
+  // Find the first frame sync
+  let frameOffset = -1;
+  for (let i = 0; i + 4 <= frameBytes.length; i++) {
+    if (frameBytes[i] === 0xFF && (frameBytes[i + 1] & 0xE0) === 0xE0 && parseMp3FrameHeader(frameBytes, i)) {
+      frameOffset = i;
+      break;
+    }
+  }
+
+  if (frameOffset < 0) {
+    return null;
+  }
+
+  const frame = parseMp3FrameHeader(frameBytes, frameOffset)!;
+
+  // Xing/Info header sits after the side information
+  const sideInfoSize = frame.isMpeg1
+    ? (frame.isMono ? 17 : 32)
+    : (frame.isMono ? 9 : 17);
+  const xingOffset = frameOffset + 4 + sideInfoSize;
+  const xingTag = readAscii(frameBytes, xingOffset, 4);
+
+  if ((xingTag === 'Xing' || xingTag === 'Info') && (readUint32BE(frameBytes, xingOffset + 4) & 0x1)) {
+    const frameCount = readUint32BE(frameBytes, xingOffset + 8);
+    return (frameCount * frame.samplesPerFrame) / frame.sampleRate;
+  }
+
+  // VBRI header is always 32 bytes after the frame header
+  const vbriOffset = frameOffset + 4 + 32;
+  if (readAscii(frameBytes, vbriOffset, 4) === 'VBRI') {
+    const frameCount = readUint32BE(frameBytes, vbriOffset + 14);
+    return (frameCount * frame.samplesPerFrame) / frame.sampleRate;
+  }
+
+  // Constant bitrate
+  const audioBytes = source.size - audioStart - frameOffset;
+  return (audioBytes * 8) / frame.bitrate;
+}
+
+/**
+ * WebM/Matroska: Segment > Info > Duration (float, in TimecodeScale units).
+ * MediaRecorder often omits Duration, in which case we return null and decode instead.
+ */
+function readWebmDuration(header: Uint8Array): number | null {
+  const EBML_HEADER_ID = 0x1A45DFA3;
+  const SEGMENT_ID = 0x18538067;
+  const INFO_ID = 0x1549A966;
+  const CLUSTER_ID = 0x1F43B675;
+  const TIMECODE_SCALE_ID = 0x2AD7B1;
+  const DURATION_ID = 0x4489;
+
+  let offset = 0;
+
+  while (offset < header.length) {
+    const id = readEbmlId(header, offset);
+    if (!id) return null;
+    const size = readEbmlSize(header, offset + id.length);
+    if (!size) return null;
+    const dataStart = offset + id.length + size.length;
+
+    if (id.value === EBML_HEADER_ID) {
+      offset = dataStart + size.value;
+    } else if (id.value === SEGMENT_ID) {
+      // Descend into the segment (its size is often unknown while recording)
+      offset = dataStart;
+    } else if (id.value === INFO_ID) {
+      let timecodeScale = 1000000;
+      let duration: number | null = null;
+      let infoOffset = dataStart;
+      const infoEnd = Math.min(dataStart + size.value, header.length);
+
+      while (infoOffset < infoEnd) {
+        const childId = readEbmlId(header, infoOffset);
+        if (!childId) break;
+        const childSize = readEbmlSize(header, infoOffset + childId.length);
+        if (!childSize) break;
+        const childStart = infoOffset + childId.length + childSize.length;
+
+        if (childId.value === TIMECODE_SCALE_ID) {
+          timecodeScale = readUintBE(header, childStart, childSize.value);
+        } else if (childId.value === DURATION_ID) {
+          const view = new DataView(header.buffer, header.byteOffset + childStart, childSize.value);
+          duration = childSize.value === 4 ? view.getFloat32(0) : view.getFloat64(0);
+        }
+
+        infoOffset = childStart + childSize.value;
+      }
+
+      return duration !== null ? (duration * timecodeScale) / 1e9 : null;
+    } else if (id.value === CLUSTER_ID || size.unknown) {
+      // Audio data starts before any Info element was found
+      return null;
+    } else {
+      offset = dataStart + size.value;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Web fallback: decode the whole file with Web Audio
+ */
+async function decodeDurationOnWeb(fileUri: string): Promise<number> {
+  const AudioContextClass = (window as any).AudioContext || (window as any).webkitAudioContext;
+  if (!AudioContextClass) {
+    return 0;
+  }
+
+  const response = await fetch(fileUri);
+  const buffer = await response.arrayBuffer();
+  const context = new AudioContextClass();
+
+  try {
+    const audioBuffer = await context.decodeAudioData(buffer);
+    return audioBuffer.duration;
+  } finally {
+    context.close();
+  }
+}
+
+/**
+ * Native fallback: load the sound without playing it and read its status
+ */
+async function loadDurationOnNative(fileUri: string): Promise<number> {
+  const { sound, status } = await Audio.Sound.createAsync({ uri: fileUri }, { shouldPlay: false });
+
+  try {
+    return status.isLoaded && status.durationMillis ? status.durationMillis / 1000 : 0;
+  } finally {
+    await sound.unloadAsync();
+  }
+}
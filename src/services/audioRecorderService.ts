@@ -2,23 +2,35 @@ import { Audio } from 'expo-av';
 import * as FileSystem from 'expo-file-system';
 import { Platform } from 'react-native';
 import { transcribeAudio } from './transcriptionService';
+import {
+  AAC_FRAME_SAMPLES,
+  AudioChunk,
+  adtsFramesToM4a,
+  concatenateAudioFiles,
+  convertAdtsToM4a,
+  readAdtsFrames,
+} from './audioChunkService';
+import { openByteSource, writeTempAudioFile } from '../utils/audioBytes';
 import { Transcription } from '../types';
 
 // Check if we're running on web platform
 const isWeb = Platform.OS === 'web';
 
-// Configuration for recording
+// Configuration for recording. Native takes are written as ADTS (the file type
+// follows the .aac extension on iOS) so complete frames can be read while the
+// file grows; each take is rewrapped as m4a when it stops.
 const RECORDING_OPTIONS = {
+  isMeteringEnabled: true,
   android: {
-    extension: '.m4a',
-    outputFormat: Audio.AndroidOutputFormat.MPEG_4,
+    extension: '.aac',
+    outputFormat: Audio.AndroidOutputFormat.AAC_ADTS,
     audioEncoder: Audio.AndroidAudioEncoder.AAC,
     sampleRate: 44100,
     numberOfChannels: 1,
     bitRate: 128000,
   },
   ios: {
-    extension: '.m4a',
+    extension: '.aac',
     outputFormat: Audio.IOSOutputFormat.MPEG4AAC,
     audioQuality: Audio.IOSAudioQuality.MEDIUM,
     sampleRate: 44100,
@@ -34,13 +46,72 @@ const RECORDING_OPTIONS = {
   }
 };
 
+// Rolling chunks for live transcription
+const DEFAULT_CHUNK_INTERVAL_MS = 10000;
+// Consecutive chunks overlap by this much so words at the seams are not cut
+const CHUNK_OVERLAP_MS = 1000;
+// Input levels at or below this (dBFS) show as an empty meter
+const METER_FLOOR_DB = -60;
+
+export interface RecordingOptions {
+  // Called with each rolling chunk of audio while recording is in progress
+  onChunk?: (chunk: AudioChunk) => void;
+  // How often a chunk is emitted, in milliseconds
+  chunkIntervalMs?: number;
+  // Called if no more chunks can be cut from this take. The recording itself carries on.
+  onChunkError?: (error: Error) => void;
+}
+
+/**
+ * Snapshot of the recorder for display while dictating
+ */
+export interface RecorderStatus {
+  // A take is in progress (it may be paused)
+  isRecording: boolean;
+  isPaused: boolean;
+  // Audio recorded in this dictation across all takes, in seconds
+  elapsedSeconds: number;
+  // Finished takes plus the one in progress
+  takeCount: number;
+  // Input level from 0 (silence) to 1 (full scale)
+  level: number;
+}
+
 let recording: Audio.Recording | null = null;
 let tempUri: string | null = null;
 
+// Takes of the current dictation, and every temporary file made for it
+let takeUris: string[] = [];
+let dictationFiles: string[] = [];
+let isPaused = false;
+
+// Elapsed audio: finished takes plus the active spans of the current take
+let finishedTakesSeconds = 0;
+let currentTakeMs = 0;
+let activeSince: number | null = null;
+
+// Rolling chunk state shared by both platforms
+let chunkListener: ((chunk: AudioChunk) => void) | null = null;
+let chunkErrorListener: ((error: Error) => void) | null = null;
+let chunkTimer: ReturnType<typeof setInterval> | null = null;
+let chunkIntervalMs = DEFAULT_CHUNK_INTERVAL_MS;
+let chunkIndex = 0;
+
+// Native: each take is one continuous recording, chunks are cut from the growing file
+let nativeReadOffset = 0;
+let nativeChunkEnd = 0;
+let nativeOverlapFrames: Uint8Array[] = [];
+let nativeChunking: Promise<void> = Promise.resolve();
+
 // Web-specific variables
 let mediaRecorder: MediaRecorder | null = null;
 let audioChunks: Blob[] = [];
 let webAudioBlob: Blob | null = null;
+let webChunkRecorder: { recorder: MediaRecorder; stopped: Promise<void> } | null = null;
+// Chunk recorders still running through their overlap with the next chunk
+let webRetiringChunkRecorders: Array<{ recorder: MediaRecorder; stopped: Promise<void> }> = [];
+let webAudioContext: AudioContext | null = null;
+let webAnalyser: AnalyserNode | null = null;
 
 /**
  * Safely delete a file with platform compatibility
@@ -53,65 +124,384 @@ async function safeDeleteFile(uri: string): Promise<void> {
 }
 
 /**
- * Starts a new audio recording
+ * Seconds of audio recorded so far in this dictation, excluding pauses
+ */
+function elapsedSeconds(): number {
+  const activeMs = activeSince !== null ? Date.now() - activeSince : 0;
+  return finishedTakesSeconds + (currentTakeMs + activeMs) / 1000;
+}
+
+/**
+ * Convert a dBFS reading to a 0-1 meter level
+ */
+function levelFromDecibels(decibels: number): number {
+  return Math.min(Math.max((decibels - METER_FLOOR_DB) / -METER_FLOOR_DB, 0), 1);
+}
+
+/**
+ * Start a MediaRecorder on the shared stream that captures one rolling chunk
+ */
+function startWebChunkRecorder(stream: MediaStream): { recorder: MediaRecorder; stopped: Promise<void> } {
+  const recorder = new MediaRecorder(stream, { mimeType: 'audio/webm' });
+  const parts: Blob[] = [];
+  const index = chunkIndex++;
+  const start = elapsedSeconds();
+  
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) {
+      parts.push(event.data);
+    }
+  };
+  
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => {
+      const end = elapsedSeconds();
+      
+      if (parts.length > 0 && chunkListener) {
+        const uri = `${URL.createObjectURL(new Blob(parts, { type: 'audio/webm' }))}#live-${index}.webm`;
+        dictationFiles.push(uri);
+        chunkListener({ index, uri, start, end });
+      }
+      
+      resolve();
+    };
+  });
+  
+  recorder.start();
+  return { recorder, stopped };
+}
+
+/**
+ * Web: start the next chunk recorder, then stop the current one a moment later
+ */
+function rotateWebChunkRecorder(): void {
+  if (!mediaRecorder || !webChunkRecorder) return;
+  
+  const previous = webChunkRecorder;
+  webChunkRecorder = startWebChunkRecorder(mediaRecorder.stream);
+  webRetiringChunkRecorders.push(previous);
+  
+  setTimeout(() => {
+    if (previous.recorder.state !== 'inactive') {
+      previous.recorder.stop();
+    }
+    webRetiringChunkRecorders = webRetiringChunkRecorders.filter(item => item !== previous);
+  }, CHUNK_OVERLAP_MS);
+}
+
+/**
+ * Web: stop chunk recorders that are only running out their overlap
+ */
+function stopRetiringWebChunkRecorders(): Promise<void[]> {
+  const retiring = webRetiringChunkRecorders;
+  webRetiringChunkRecorders = [];
+  retiring.forEach(({ recorder }) => {
+    if (recorder.state !== 'inactive') {
+      recorder.stop();
+    }
+  });
+  return Promise.all(retiring.map(({ stopped }) => stopped));
+}
+
+/**
+ * Native: cut the frames written since the last chunk out of the recording in
+ * progress and hand them out as a chunk, led by the tail of the previous one
+ */
+async function emitNativeChunk(): Promise<void> {
+  const uri = recording?.getURI();
+  if (!uri || !chunkListener) return;
+  
+  const source = await openByteSource(uri);
+  const adts = readAdtsFrames(await source.read(nativeReadOffset, source.size - nativeReadOffset));
+  if (!adts || adts.frames.length === 0) return;
+  
+  nativeReadOffset += adts.length;
+  
+  const frameSeconds = AAC_FRAME_SAMPLES / adts.sampleRate;
+  const frames = [...nativeOverlapFrames, ...adts.frames];
+  const start = nativeChunkEnd - nativeOverlapFrames.length * frameSeconds;
+  const end = nativeChunkEnd + adts.frames.length * frameSeconds;
+  const index = chunkIndex++;
+  
+  nativeChunkEnd = end;
+  nativeOverlapFrames = frames.slice(-Math.ceil(CHUNK_OVERLAP_MS / 1000 / frameSeconds));
+  
+  const chunkUri = await writeTempAudioFile(adtsFramesToM4a(adts, frames), `live-${Date.now()}-${index}.m4a`, 'audio/mp4');
+  dictationFiles.push(chunkUri);
+  chunkListener?.({ index, uri: chunkUri, start, end });
+}
+
+/**
+ * Native: queue a chunk cut behind any still in progress. If one fails the
+ * take gets no more chunks and the listener is told why.
+ */
+function queueNativeChunk(): Promise<void> {
+  nativeChunking = nativeChunking.then(emitNativeChunk).catch(error => {
+    console.warn('Failed to cut a live transcription chunk from the recording', error);
+    stopChunkTimer();
+    chunkListener = null;
+    chunkErrorListener?.(error instanceof Error ? error : new Error(String(error)));
+    chunkErrorListener = null;
+  });
+  return nativeChunking;
+}
+
+/**
+ * Start emitting rolling chunks on an interval, if anyone is listening
+ */
+function startChunkTimer(): void {
+  if (!chunkListener || chunkTimer) return;
+  
+  chunkTimer = setInterval(() => {
+    if (isWeb) {
+      rotateWebChunkRecorder();
+    } else {
+      queueNativeChunk();
+    }
+  }, chunkIntervalMs);
+}
+
+function stopChunkTimer(): void {
+  if (chunkTimer) {
+    clearInterval(chunkTimer);
+    chunkTimer = null;
+  }
+}
+
+/**
+ * Begin recording a take with the given chunk options
+ */
+async function startTake(options: RecordingOptions): Promise<void> {
+  chunkListener = options.onChunk || null;
+  chunkErrorListener = options.onChunkError || null;
+  chunkIntervalMs = options.chunkIntervalMs || DEFAULT_CHUNK_INTERVAL_MS;
+  
+  if (isWeb) {
+    // Web implementation using MediaRecorder API
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    mediaRecorder = new MediaRecorder(stream, { mimeType: 'audio/webm' });
+    
+    audioChunks = [];
+    mediaRecorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        audioChunks.push(event.data);
+      }
+    };
+    
+    // Tap the stream for the level meter
+    const AudioContextClass = (window as any).AudioContext || (window as any).webkitAudioContext;
+    if (AudioContextClass) {
+      webAudioContext = new AudioContextClass() as AudioContext;
+      webAnalyser = webAudioContext.createAnalyser();
+      webAnalyser.fftSize = 1024;
+      webAudioContext.createMediaStreamSource(stream).connect(webAnalyser);
+    }
+    
+    mediaRecorder.start();
+    currentTakeMs = 0;
+    activeSince = Date.now();
+    isPaused = false;
+    
+    if (chunkListener) {
+      webChunkRecorder = startWebChunkRecorder(stream);
+    }
+    startChunkTimer();
+    
+    console.log('Web recording started');
+  } else {
+    // Native implementation using Expo Audio
+    // Request permissions
+    const permission = await Audio.requestPermissionsAsync();
+    if (!permission.granted) {
+      throw new Error('Permission to access microphone was denied');
+    }
+    
+    // Set audio mode for recording
+    await Audio.setAudioModeAsync({
+      allowsRecordingIOS: true,
+      playsInSilentModeIOS: true,
+      staysActiveInBackground: true,
+    });
+    
+    // Create a new recording
+    const newRecording = new Audio.Recording();
+    try {
+      await newRecording.prepareToRecordAsync(RECORDING_OPTIONS);
+      await newRecording.startAsync();
+    } catch (error) {
+      // Release the recorder so the next attempt can prepare one
+      await newRecording.stopAndUnloadAsync().catch(() => undefined);
+      throw error;
+    }
+    
+    recording = newRecording;
+    nativeReadOffset = 0;
+    nativeChunkEnd = finishedTakesSeconds;
+    nativeOverlapFrames = [];
+    nativeChunking = Promise.resolve();
+    currentTakeMs = 0;
+    activeSince = Date.now();
+    isPaused = false;
+    startChunkTimer();
+    
+    console.log('Native recording started');
+  }
+}
+
+/**
+ * Starts a new dictation, discarding the takes of any previous one
+ * @param options - Optional rolling chunk listener for live transcription
+ * @returns Promise that resolves when recording starts
+ */
+export async function startRecording(options: RecordingOptions = {}): Promise<void> {
+  try {
+    if (recording || mediaRecorder) {
+      throw new Error('A recording is already in progress. Stop it before starting a new one.');
+    }
+    
+    // Start from a clean slate
+    await cleanupTempFile();
+    chunkIndex = 0;
+    
+    await startTake(options);
+  } catch (error) {
+    console.error('Failed to start recording', error);
+    throw new Error(`Failed to start recording: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Records another take that is appended to the current dictation.
+ * Chunk times continue from the end of the previous takes.
+ * @param options - Optional rolling chunk listener for live transcription
  * @returns Promise that resolves when recording starts
  */
-export async function startRecording(): Promise<void> {
+export async function appendTake(options: RecordingOptions = {}): Promise<void> {
   try {
-    // Clean up any previous recordings
     if (recording || mediaRecorder) {
-      await stopRecording();
+      throw new Error('A recording is already in progress. Stop it before adding a take.');
     }
     
+    if (takeUris.length === 0) {
+      throw new Error('There is no recording to add a take to');
+    }
+    
+    await startTake(options);
+  } catch (error) {
+    console.error('Failed to add take', error);
+    throw new Error(`Failed to add take: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Pauses the current take without ending it
+ */
+export async function pauseRecording(): Promise<void> {
+  try {
+    if (isPaused) return;
+    
+    stopChunkTimer();
+    
     if (isWeb) {
-      // Web implementation using MediaRecorder API
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      mediaRecorder = new MediaRecorder(stream, { mimeType: 'audio/webm' });
-      
-      audioChunks = [];
-      mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          audioChunks.push(event.data);
-        }
-      };
+      if (!mediaRecorder) {
+        throw new Error('No active recording to pause');
+      }
       
-      mediaRecorder.start();
-      console.log('Web recording started');
+      mediaRecorder.pause();
+      await stopRetiringWebChunkRecorders();
+      webChunkRecorder?.recorder.pause();
     } else {
-      // Native implementation using Expo Audio
-      // Request permissions
-      const permission = await Audio.requestPermissionsAsync();
-      if (!permission.granted) {
-        throw new Error('Permission to access microphone was denied');
+      if (!recording) {
+        throw new Error('No active recording to pause');
       }
       
-      // Set audio mode for recording
-      await Audio.setAudioModeAsync({
-        allowsRecordingIOS: true,
-        playsInSilentModeIOS: true,
-        staysActiveInBackground: true,
-      });
+      await recording.pauseAsync();
+    }
+    
+    if (activeSince !== null) {
+      currentTakeMs += Date.now() - activeSince;
+      activeSince = null;
+    }
+    isPaused = true;
+  } catch (error) {
+    console.error('Failed to pause recording', error);
+    throw new Error(`Failed to pause recording: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Resumes a paused take
+ */
+export async function resumeRecording(): Promise<void> {
+  try {
+    if (!isPaused) return;
+    
+    if (isWeb) {
+      if (!mediaRecorder) {
+        throw new Error('No paused recording to resume');
+      }
       
-      // Create a new recording
-      const newRecording = new Audio.Recording();
-      await newRecording.prepareToRecordAsync(RECORDING_OPTIONS);
-      await newRecording.startAsync();
+      mediaRecorder.resume();
+      webChunkRecorder?.recorder.resume();
+    } else {
+      if (!recording) {
+        throw new Error('No paused recording to resume');
+      }
       
-      recording = newRecording;
-      console.log('Native recording started');
+      await recording.startAsync();
     }
+    
+    activeSince = Date.now();
+    isPaused = false;
+    startChunkTimer();
   } catch (error) {
-    console.error('Failed to start recording', error);
-    throw new Error(`Failed to start recording: ${error instanceof Error ? error.message : String(error)}`);
+    console.error('Failed to resume recording', error);
+    throw new Error(`Failed to resume recording: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
 /**
- * Stops the current recording
- * @returns Promise that resolves with the recording URI
+ * Get the elapsed time, take count and input level of the current dictation
+ */
+export async function getRecordingStatus(): Promise<RecorderStatus> {
+  const isRecording = !!(recording || mediaRecorder);
+  let level = 0;
+  
+  try {
+    if (isRecording && !isPaused) {
+      if (isWeb && webAnalyser) {
+        const samples = new Float32Array(webAnalyser.fftSize);
+        webAnalyser.getFloatTimeDomainData(samples);
+        const rms = Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+        level = rms > 0 ? levelFromDecibels(20 * Math.log10(rms)) : 0;
+      } else if (recording) {
+        const status = await recording.getStatusAsync();
+        level = status.metering !== undefined ? levelFromDecibels(status.metering) : 0;
+      }
+    }
+  } catch (error) {
+    // The recording may be stopping, report silence
+  }
+  
+  return {
+    isRecording,
+    isPaused,
+    elapsedSeconds: elapsedSeconds(),
+    takeCount: takeUris.length + (isRecording ? 1 : 0),
+    level,
+  };
+}
+
+/**
+ * Stops the current take
+ * @returns Promise that resolves with the URI of the whole dictation so far (all takes joined)
  */
 export async function stopRecording(): Promise<string | null> {
   try {
+    stopChunkTimer();
+    
+    let takeUri: string | null = null;
+    
     if (isWeb) {
       // Web implementation
       if (!mediaRecorder) {
@@ -119,26 +509,38 @@ export async function stopRecording(): Promise<string | null> {
         return null;
       }
       
-      return new Promise((resolve, reject) => {
-        mediaRecorder!.onstop = () => {
+      // Flush the remaining live chunks before the stream is closed
+      const lastChunkRecorder = webChunkRecorder;
+      webChunkRecorder = null;
+      if (lastChunkRecorder && lastChunkRecorder.recorder.state !== 'inactive') {
+        lastChunkRecorder.recorder.stop();
+      }
+      await Promise.all([stopRetiringWebChunkRecorders(), lastChunkRecorder?.stopped]);
+      
+      const activeRecorder = mediaRecorder;
+      takeUri = await new Promise<string>((resolve, reject) => {
+        activeRecorder.onstop = () => {
           try {
             webAudioBlob = new Blob(audioChunks, { type: 'audio/webm' });
-            const uri = URL.createObjectURL(webAudioBlob);
-            tempUri = uri;
-            console.log('Web recording stopped and saved to', uri);
-            resolve(uri);
+            resolve(URL.createObjectURL(webAudioBlob));
           } catch (error) {
             reject(error);
           }
         };
         
-        mediaRecorder!.stop();
+        activeRecorder.stop();
         
         // Clean up the media stream
-        const tracks = mediaRecorder!.stream.getTracks();
+        const tracks = activeRecorder.stream.getTracks();
         tracks.forEach(track => track.stop());
-        mediaRecorder = null;
       });
+      mediaRecorder = null;
+      
+      webAudioContext?.close();
+      webAudioContext = null;
+      webAnalyser = null;
+      
+      finishedTakesSeconds = elapsedSeconds();
     } else {
       // Native implementation
       if (!recording) {
@@ -146,21 +548,52 @@ export async function stopRecording(): Promise<string | null> {
         return null;
       }
       
-      // Stop the recording
-      await recording.stopAndUnloadAsync();
+      // Let any chunk in progress finish, then stop and cut the last one
+      await nativeChunking;
       
-      // Get the recording URI
-      const uri = recording.getURI();
+      const finished = recording;
+      const status = await finished.stopAndUnloadAsync();
       
-      // Save the URI for transcription
-      tempUri = uri;
+      if (chunkListener) {
+        await queueNativeChunk();
+      }
       
       // Clean up recording object
       recording = null;
       
-      console.log('Native recording stopped and saved to', uri);
-      return uri;
+      // Rewrap the take as m4a for playback and upload
+      const recordedUri = finished.getURI();
+      if (recordedUri) {
+        dictationFiles.push(recordedUri);
+        takeUri = await convertAdtsToM4a(recordedUri);
+      }
+      finishedTakesSeconds += status.durationMillis / 1000;
+    }
+    
+    chunkListener = null;
+    chunkErrorListener = null;
+    activeSince = null;
+    currentTakeMs = 0;
+    isPaused = false;
+    
+    if (!takeUri) {
+      return null;
     }
+    
+    takeUris.push(takeUri);
+    dictationFiles.push(takeUri);
+    
+    // Join all takes into one recording
+    const uri = takeUris.length > 1 ? await concatenateAudioFiles(takeUris) : takeUri;
+    if (uri !== takeUri) {
+      dictationFiles.push(uri);
+    }
+    
+    // Save the URI for transcription
+    tempUri = uri;
+    
+    console.log(`Recording stopped after ${takeUris.length} take(s) and saved to`, uri);
+    return uri;
   } catch (error) {
     console.error('Failed to stop recording', error);
     throw new Error(`Failed to stop recording: ${error instanceof Error ? error.message : String(error)}`);
@@ -201,22 +634,30 @@ export async function recordAndTranscribe(): Promise<Transcription> {
 }
 
 /**
- * Clean up temporary recording file
+ * Clean up the temporary files of the current dictation (takes, joined
+ * recordings and live transcription chunks). No more takes can be added after this.
  */
 export async function cleanupTempFile(): Promise<void> {
   try {
-    if (tempUri) {
+    for (const uri of dictationFiles) {
       if (isWeb) {
         // For web, revoke the blob URL
-        URL.revokeObjectURL(tempUri);
-        webAudioBlob = null;
+        URL.revokeObjectURL(uri.split('#')[0]);
       } else {
         // For native, delete the file
-        await safeDeleteFile(tempUri);
+        await safeDeleteFile(uri);
       }
-      console.log('Temporary audio file cleaned up');
-      tempUri = null;
     }
+    
+    if (dictationFiles.length > 0) {
+      console.log('Temporary audio files cleaned up');
+    }
+    
+    dictationFiles = [];
+    takeUris = [];
+    finishedTakesSeconds = 0;
+    tempUri = null;
+    webAudioBlob = null;
   } catch (error) {
     console.error('Failed to clean up temporary file', error);
     // Non-fatal error, just log it
@@ -237,4 +678,4 @@ export async function transcribeExistingAudio(uri: string): Promise<Transcriptio
     console.error('Transcription error:', error);
     throw new Error(`Failed to transcribe audio: ${error instanceof Error ? error.message : String(error)}`);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,525 @@
+// services/fhirService.ts
+// Maps notes to HL7 FHIR R4 resources for EHR integration. Each note becomes
+// a Composition with one section per note heading, and a DocumentReference
+// that carries the note text and points at the Composition. They travel in a
+// transaction Bundle with a Practitioner for the author, so a FHIR server
+// stores the lot in one request.
+import axios from 'axios';
+import { getNoteTemplate, normalizeHeading, orderSectionsByTemplate, splitNoteSections } from './noteTemplates';
+import { getNoteStatus } from '../utils/noteStatus';
+import { markdownToHtml } from '../utils/noteHtml';
+import { getFhirAccessToken, getFhirServerUrl } from '../utils/apiKeyManager';
+import { Note, NoteAddendum, NoteStatus, UserProfile } from '../types';
+
+export const FHIR_MIME_TYPE = 'application/fhir+json';
+
+// Identifier systems; conditional updates match on these, so exporting a
+// note again updates the resources made the first time
+const NOTE_IDENTIFIER_SYSTEM = 'urn:medtranscribe:note';
+const USER_IDENTIFIER_SYSTEM = 'urn:medtranscribe:user';
+
+const LOINC = 'http://loinc.org';
+const PROGRESS_NOTE = { system: LOINC, code: '11506-3', display: 'Progress note' };
+const PROCEDURE_NOTE = { system: LOINC, code: '28570-0', display: 'Procedure note' };
+
+// LOINC codes for section headings notes commonly use, keyed by normalized heading
+const SECTION_CODES: Record<string, FhirCoding> = {
+  'CHIEF COMPLAINT': { system: LOINC, code: '10154-3', display: 'Chief complaint Narrative' },
+  'REASON FOR VISIT': { system: LOINC, code: '29299-5', display: 'Reason for visit Narrative' },
+  'HISTORY OF PRESENT ILLNESS': { system: LOINC, code: '10164-2', display: 'History of Present illness Narrative' },
+  'HISTORY': { system: LOINC, code: '10164-2', display: 'History of Present illness Narrative' },
+  'PAST MEDICAL HISTORY': { system: LOINC, code: '11348-0', display: 'History of Past illness Narrative' },
+  'REVIEW OF SYSTEMS': { system: LOINC, code: '10187-3', display: 'Review of systems Narrative' },
+  'MEDICATIONS': { system: LOINC, code: '10160-0', display: 'History of Medication use Narrative' },
+  'ALLERGIES': { system: LOINC, code: '48765-2', display: 'Allergies and adverse reactions Document' },
+  'SUBJECTIVE': { system: LOINC, code: '61150-9', display: 'Subjective Narrative' },
+  'OBJECTIVE': { system: LOINC, code: '61149-1', display: 'Objective Narrative' },
+  'PHYSICAL EXAM': { system: LOINC, code: '29545-1', display: 'Physical findings Narrative' },
+  'PHYSICAL EXAMINATION': { system: LOINC, code: '29545-1', display: 'Physical findings Narrative' },
+  'PROCEDURE': { system: LOINC, code: '29554-3', display: 'Procedure Narrative' },
+  'FINDINGS': { system: LOINC, code: '59776-5', display: 'Procedure findings Narrative' },
+  'HOSPITAL COURSE': { system: LOINC, code: '8648-8', display: 'Hospital course Narrative' },
+  'ASSESSMENT': { system: LOINC, code: '51848-0', display: 'Evaluation note' },
+  'PLAN': { system: LOINC, code: '18776-5', display: 'Plan of care note' },
+  'ASSESSMENT AND PLAN': { system: LOINC, code: '51847-2', display: 'Evaluation + Plan note' },
+  'INSTRUCTIONS': { system: LOINC, code: '69730-0', display: 'Instructions' },
+};
+
+// Composition.status and DocumentReference.docStatus for each note status
+const DOCUMENT_STATUS: Record<NoteStatus, 'preliminary' | 'final' | 'amended'> = {
+  draft: 'preliminary',
+  pending_review: 'preliminary',
+  signed: 'final',
+  amended: 'amended',
+};
+
+export interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirIdentifier {
+  system?: string;
+  value?: string;
+}
+
+export interface FhirReference {
+  reference?: string;
+  display?: string;
+}
+
+export interface FhirNarrative {
+  status: 'generated' | 'extensions' | 'additional' | 'empty';
+  div: string;
+}
+
+export interface FhirAttachment {
+  contentType?: string;
+  language?: string;
+  data?: string; // base64
+  url?: string;
+  title?: string;
+  creation?: string;
+}
+
+export interface FhirCompositionSection {
+  title?: string;
+  code?: FhirCodeableConcept;
+  author?: FhirReference[];
+  text?: FhirNarrative;
+  section?: FhirCompositionSection[];
+}
+
+export interface FhirPractitioner {
+  resourceType: 'Practitioner';
+  id?: string;
+  identifier?: FhirIdentifier[];
+  active?: boolean;
+  name?: { text?: string }[];
+  telecom?: { system?: 'email' | 'phone'; value?: string }[];
+  qualification?: { code: FhirCodeableConcept }[];
+}
+
+export interface FhirComposition {
+  resourceType: 'Composition';
+  id?: string;
+  identifier?: FhirIdentifier;
+  status: 'preliminary' | 'final' | 'amended' | 'entered-in-error';
+  type: FhirCodeableConcept;
+  category?: FhirCodeableConcept[];
+  date: string;
+  author: FhirReference[];
+  title: string;
+  attester?: { mode: 'personal' | 'professional' | 'legal' | 'official'; time?: string; party?: FhirReference }[];
+  custodian?: FhirReference;
+  section?: FhirCompositionSection[];
+}
+
+export interface FhirDocumentReference {
+  resourceType: 'DocumentReference';
+  id?: string;
+  identifier?: FhirIdentifier[];
+  status: 'current' | 'superseded' | 'entered-in-error';
+  docStatus?: 'preliminary' | 'final' | 'amended' | 'entered-in-error';
+  type?: FhirCodeableConcept;
+  category?: FhirCodeableConcept[];
+  date?: string;
+  author?: FhirReference[];
+  authenticator?: FhirReference;
+  description?: string;
+  content: { attachment: FhirAttachment }[];
+  context?: { related?: FhirReference[] };
+}
+
+// Author of exported notes and the reference resources use for them
+export interface FhirAuthor {
+  uid: string;
+  reference: FhirReference;
+}
+
+export type FhirResource = FhirPractitioner | FhirComposition | FhirDocumentReference;
+
+export interface FhirBundleEntry {
+  fullUrl?: string;
+  resource?: FhirResource;
+  request?: { method: 'GET' | 'POST' | 'PUT' | 'DELETE'; url: string };
+  response?: { status: string; location?: string };
+}
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  type: 'transaction' | 'transaction-response' | 'document' | 'collection';
+  timestamp?: string;
+  entry?: FhirBundleEntry[];
+}
+
+/**
+ * Practitioner for the author of exported notes
+ */
+export function profileToPractitioner(profile: UserProfile): FhirPractitioner {
+  const practitioner: FhirPractitioner = {
+    resourceType: 'Practitioner',
+    identifier: [{ system: USER_IDENTIFIER_SYSTEM, value: profile.uid }],
+    active: true,
+    name: [{ text: profile.displayName || profile.email }],
+  };
+  if (profile.email) practitioner.telecom = [{ system: 'email', value: profile.email }];
+  if (profile.specialty) practitioner.qualification = [{ code: { text: profile.specialty } }];
+  return practitioner;
+}
+
+/**
+ * Composition for a note: one section per note heading, then the addenda
+ */
+export function noteToComposition(note: Note, author: FhirAuthor, addenda: NoteAddendum[] = []): FhirComposition {
+  const status = getNoteStatus(note);
+  const template = note.templateId ? getNoteTemplate(note.templateId) : undefined;
+  const splitSections = splitNoteSections(note.content || '');
+  const sections = template ? orderSectionsByTemplate(splitSections, template) : splitSections;
+
+  const composition: FhirComposition = {
+    resourceType: 'Composition',
+    identifier: { system: NOTE_IDENTIFIER_SYSTEM, value: note.id },
+    status: DOCUMENT_STATUS[status],
+    type: noteType(note),
+    date: noteDate(note),
+    author: [author.reference],
+    title: note.title || 'Untitled Note',
+    section: sections.map(section => {
+      const code = SECTION_CODES[normalizeHeading(section.heading)];
+      return {
+        title: section.heading || 'Note',
+        ...(code ? { code: { coding: [code], text: section.heading } } : {}),
+        text: narrative(section.content || 'Not documented'),
+      };
+    }),
+  };
+
+  if (note.tags && note.tags.length > 0) {
+    composition.category = note.tags.map(tag => ({ text: tag }));
+  }
+  if (note.signature) {
+    composition.attester = [{
+      mode: 'legal',
+      time: note.signature.at,
+      party: signerReference(note, author),
+    }];
+  }
+  if (addenda.length > 0) {
+    composition.section!.push({
+      title: 'Addenda',
+      text: narrative(`${addenda.length === 1 ? '1 addendum' : `${addenda.length} addenda`} follow.`),
+      section: addenda.map(addendum => ({
+        title: `${addendum.reason}, ${addendum.createdAt}`,
+        ...(addendum.authorName ? { author: [{ display: addendum.authorName }] } : {}),
+        text: narrative(addendum.text),
+      })),
+    });
+  }
+
+  return composition;
+}
+
+/**
+ * DocumentReference carrying the note's markdown
+ * @param compositionReference - Reference to the note's Composition
+ */
+export function noteToDocumentReference(note: Note, author: FhirAuthor, compositionReference: FhirReference): FhirDocumentReference {
+  const documentReference: FhirDocumentReference = {
+    resourceType: 'DocumentReference',
+    identifier: [{ system: NOTE_IDENTIFIER_SYSTEM, value: note.id }],
+    status: 'current',
+    docStatus: DOCUMENT_STATUS[getNoteStatus(note)],
+    type: noteType(note),
+    date: note.updatedAt || noteDate(note),
+    author: [author.reference],
+    description: note.title || 'Untitled Note',
+    content: [{
+      attachment: {
+        contentType: 'text/markdown; charset=utf-8',
+        language: 'en',
+        data: toBase64(note.content || ''),
+        title: note.title || 'Untitled Note',
+        creation: noteDate(note),
+      },
+    }],
+    context: { related: [compositionReference] },
+  };
+
+  if (note.signature) {
+    documentReference.authenticator = signerReference(note, author);
+  }
+
+  return documentReference;
+}
+
+/**
+ * Transaction Bundle with the author, and a Composition and DocumentReference
+ * for every note. Resources are created, or updated when a resource with the
+ * same identifier exists already.
+ */
+export function notesToFhirBundle(notes: Note[], profile: UserProfile, addenda: Map<string, NoteAddendum[]> = new Map()): FhirBundle {
+  const practitionerUrl = `urn:uuid:${createUuid()}`;
+  const author: FhirAuthor = {
+    uid: profile.uid,
+    reference: { reference: practitionerUrl, display: profile.displayName || profile.email },
+  };
+
+  const entries: FhirBundleEntry[] = [{
+    fullUrl: practitionerUrl,
+    resource: profileToPractitioner(profile),
+    request: { method: 'PUT', url: `Practitioner?identifier=${encodeURIComponent(`${USER_IDENTIFIER_SYSTEM}|${profile.uid}`)}` },
+  }];
+
+  for (const note of notes) {
+    const compositionUrl = `urn:uuid:${createUuid()}`;
+    const identifier = encodeURIComponent(`${NOTE_IDENTIFIER_SYSTEM}|${note.id}`);
+
+    entries.push({
+      fullUrl: compositionUrl,
+      resource: noteToComposition(note, author, addenda.get(note.id)),
+      request: { method: 'PUT', url: `Composition?identifier=${identifier}` },
+    });
+    entries.push({
+      fullUrl: `urn:uuid:${createUuid()}`,
+      resource: noteToDocumentReference(note, author, { reference: compositionUrl }),
+      request: { method: 'PUT', url: `DocumentReference?identifier=${identifier}` },
+    });
+  }
+
+  return {
+    resourceType: 'Bundle',
+    type: 'transaction',
+    timestamp: new Date().toISOString(),
+    entry: entries,
+  };
+}
+
+/**
+ * Check a bundle against the FHIR R4 rules for the resources it holds:
+ * required elements, code values, narrative and attachment invariants, and
+ * references between entries
+ * @returns Problems found, empty when the bundle is valid
+ */
+export function validateFhirBundle(bundle: FhirBundle): string[] {
+  const issues: string[] = [];
+  const fullUrls = new Set<string>();
+
+  if (bundle.resourceType !== 'Bundle') issues.push('Bundle.resourceType must be "Bundle"');
+  if (!['transaction', 'transaction-response', 'document', 'collection'].includes(bundle.type)) {
+    issues.push(`Bundle.type "${bundle.type}" is not supported`);
+  }
+
+  (bundle.entry || []).forEach((entry, index) => {
+    const path = `Bundle.entry[${index}]`;
+    if (entry.fullUrl) {
+      if (fullUrls.has(entry.fullUrl)) issues.push(`${path}.fullUrl ${entry.fullUrl} is used twice`);
+      fullUrls.add(entry.fullUrl);
+    }
+    if (bundle.type === 'transaction' && (!entry.request?.method || !entry.request.url)) {
+      issues.push(`${path}.request needs a method and url in a transaction`);
+    }
+    if (!entry.resource) {
+      issues.push(`${path}.resource is missing`);
+    }
+  });
+
+  (bundle.entry || []).forEach((entry, index) => {
+    if (!entry.resource) return;
+    const path = `Bundle.entry[${index}].resource`;
+    issues.push(...validateResource(entry.resource, path));
+
+    // Bundle-local references must point at an entry in the bundle
+    findReferences(entry.resource)
+      .filter(reference => reference.startsWith('urn:uuid:') && !fullUrls.has(reference))
+      .forEach(reference => issues.push(`${path} refers to ${reference}, which is not in the bundle`));
+  });
+
+  return issues;
+}
+
+/**
+ * Send a bundle to the FHIR server set in Settings
+ * @returns The server's transaction-response Bundle
+ */
+export async function postFhirBundle(bundle: FhirBundle): Promise<FhirBundle> {
+  try {
+    const baseUrl = (await getFhirServerUrl().catch(() => '')).replace(/\/+$/, '');
+    if (!baseUrl) {
+      throw new Error('FHIR server URL not configured. Please set it in Settings.');
+    }
+    const accessToken = await getFhirAccessToken().catch(() => '');
+
+    console.log(`[fhirService] Posting bundle with ${bundle.entry?.length || 0} entries to ${baseUrl}`);
+
+    const response = await axios.post(baseUrl, bundle, {
+      headers: {
+        'Content-Type': FHIR_MIME_TYPE,
+        Accept: FHIR_MIME_TYPE,
+        ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+      },
+      timeout: 60000,
+    });
+
+    const result = response.data as FhirBundle;
+    const failed = (result.entry || []).filter(entry => entry.response && !entry.response.status.startsWith('2'));
+    if (failed.length > 0) {
+      throw new Error(`${failed.length} resources were rejected (${failed[0].response!.status})`);
+    }
+    return result;
+  } catch (error) {
+    console.error('[fhirService] Error posting bundle:', error);
+
+    if (axios.isAxiosError(error)) {
+      if (!error.response) {
+        throw new Error(`FHIR server unreachable: ${error.message}`);
+      }
+      throw new Error(`FHIR server error (${error.response.status}): ${operationOutcomeMessage(error.response.data) || error.message}`);
+    }
+
+    throw new Error(`Failed to send notes to the FHIR server: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function validateResource(resource: FhirResource, path: string): string[] {
+  const issues: string[] = [];
+  const requireValue = (value: unknown, element: string) => {
+    if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+      issues.push(`${path}.${element} is required`);
+    }
+  };
+  const requireCode = (value: string | undefined, element: string, codes: string[]) => {
+    if (value !== undefined && !codes.includes(value)) {
+      issues.push(`${path}.${element} "${value}" must be one of ${codes.join(', ')}`);
+    }
+  };
+  const requireDateTime = (value: string | undefined, element: string) => {
+    if (value !== undefined && !/^\d{4}(-\d{2}(-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2}))?)?)?$/.test(value)) {
+      issues.push(`${path}.${element} "${value}" is not a FHIR dateTime`);
+    }
+  };
+
+  switch (resource.resourceType) {
+    case 'Practitioner':
+      break;
+
+    case 'Composition':
+      requireValue(resource.status, 'status');
+      requireCode(resource.status, 'status', ['preliminary', 'final', 'amended', 'entered-in-error']);
+      requireValue(resource.type, 'type');
+      requireValue(resource.date, 'date');
+      requireDateTime(resource.date, 'date');
+      requireValue(resource.author, 'author');
+      requireValue(resource.title, 'title');
+      (resource.attester || []).forEach((attester, index) => {
+        requireCode(attester.mode, `attester[${index}].mode`, ['personal', 'professional', 'legal', 'official']);
+        requireDateTime(attester.time, `attester[${index}].time`);
+      });
+      issues.push(...validateSections(resource.section || [], `${path}.section`));
+      break;
+
+    case 'DocumentReference':
+      requireValue(resource.status, 'status');
+      requireCode(resource.status, 'status', ['current', 'superseded', 'entered-in-error']);
+      requireCode(resource.docStatus, 'docStatus', ['preliminary', 'final', 'amended', 'entered-in-error']);
+      requireValue(resource.content, 'content');
+      resource.content.forEach((content, index) => {
+        requireValue(content.attachment, `content[${index}].attachment`);
+        // att-1: data needs a contentType
+        if (content.attachment?.data && !content.attachment.contentType) {
+          issues.push(`${path}.content[${index}].attachment.contentType is required when data is present`);
+        }
+        requireDateTime(content.attachment?.creation, `content[${index}].attachment.creation`);
+      });
+      break;
+
+    default:
+      issues.push(`${path}.resourceType "${(resource as { resourceType: string }).resourceType}" is not supported`);
+  }
+
+  return issues;
+}
+
+function validateSections(sections: FhirCompositionSection[], path: string): string[] {
+  return sections.flatMap((section, index) => {
+    const sectionPath = `${path}[${index}]`;
+    const issues: string[] = [];
+
+    // cmp-1: a section needs text, entries or sub-sections
+    if (!section.text && (!section.section || section.section.length === 0)) {
+      issues.push(`${sectionPath} needs text or sub-sections`);
+    }
+    if (section.text && !/^<div xmlns="http:\/\/www\.w3\.org\/1999\/xhtml">[\s\S]*<\/div>$/.test(section.text.div)) {
+      issues.push(`${sectionPath}.text.div must be an XHTML div`);
+    }
+
+    return [...issues, ...validateSections(section.section || [], `${sectionPath}.section`)];
+  });
+}
+
+function findReferences(value: unknown): string[] {
+  if (Array.isArray(value)) return value.flatMap(findReferences);
+  if (!value || typeof value !== 'object') return [];
+
+  return Object.entries(value).flatMap(([key, item]) => (
+    key === 'reference' && typeof item === 'string' ? [item] : findReferences(item)
+  ));
+}
+
+function operationOutcomeMessage(data: unknown): string {
+  const outcome = data as { resourceType?: string; issue?: { diagnostics?: string; details?: { text?: string } }[] } | null;
+  if (outcome?.resourceType !== 'OperationOutcome') return '';
+  return (outcome.issue || [])
+    .map(issue => issue.diagnostics || issue.details?.text)
+    .filter(Boolean)
+    .join('; ');
+}
+
+// Notes signed by someone other than the author name the signer only
+function signerReference(note: Note, author: FhirAuthor): FhirReference {
+  return note.signature!.by === author.uid
+    ? author.reference
+    : { display: note.signature!.byName || note.signature!.by };
+}
+
+function noteType(note: Note): FhirCodeableConcept {
+  return {
+    coding: [note.procedureType ? PROCEDURE_NOTE : PROGRESS_NOTE],
+    text: note.procedureType || PROGRESS_NOTE.display,
+  };
+}
+
+function noteDate(note: Note): string {
+  return new Date(note.date || note.createdAt || Date.now()).toISOString();
+}
+
+// Narrative XHTML from note markdown; XHTML needs void elements closed
+function narrative(markdown: string): FhirNarrative {
+  return {
+    status: 'generated',
+    div: `<div xmlns="http://www.w3.org/1999/xhtml">${markdownToHtml(markdown).replace(/<br>/g, '<br/>')}</div>`,
+  };
+}
+
+function toBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (let index = 0; index < bytes.length; index++) {
+    binary += String.fromCharCode(bytes[index]);
+  }
+  return btoa(binary);
+}
+
+// Only names entries within a bundle, so Math.random is random enough
+function createUuid(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+    const random = Math.floor(Math.random() * 16);
+    return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+  });
+}
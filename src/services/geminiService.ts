@@ -1,9 +1,98 @@
 import axios from 'axios';
-import { GeminiResponse } from '../types';
+import { GeminiResponse, Medication, NoteSection } from '../types';
 import { getGeminiKey, getGeminiUrl } from '../utils/apiKeyManager';
+import {
+  DEFAULT_TEMPLATE_ID,
+  NoteTemplate,
+  normalizeHeading,
+  orderSectionsByTemplate,
+  resolveNoteTemplate,
+} from './noteTemplates';
+
+// gemini-pro cannot return schema-constrained JSON, so notes use a newer model
+const NOTES_MODEL = 'gemini-1.5-flash';
+const MAX_TAGS = 5;
+
+/**
+ * Raw generateContent response from the Gemini API
+ */
+interface GeminiApiResponse {
+  candidates?: Array<{
+    content: {
+      parts: Array<{
+        text: string;
+      }>;
+    };
+    finishReason: string;
+  }>;
+}
+
+interface GeminiContent {
+  role: 'user' | 'model';
+  parts: Array<{ text: string }>;
+}
+
+type StructuredNote = Omit<GeminiResponse, 'content' | 'templateId'>;
+
+// Shape Gemini is asked to return, in the API's OpenAPI subset
+const NOTE_RESPONSE_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    title: { type: 'STRING', description: 'Short title naming the procedure or encounter' },
+    procedureType: { type: 'STRING', description: 'Procedure or assessment performed, e.g. "Laparoscopic cholecystectomy"' },
+    sections: {
+      type: 'ARRAY',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          heading: { type: 'STRING' },
+          content: { type: 'STRING', description: 'Markdown body of the section' },
+        },
+        required: ['heading', 'content'],
+      },
+    },
+    diagnoses: { type: 'ARRAY', items: { type: 'STRING' } },
+    medications: {
+      type: 'ARRAY',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          name: { type: 'STRING' },
+          dose: { type: 'STRING' },
+          route: { type: 'STRING' },
+          frequency: { type: 'STRING' },
+        },
+        required: ['name'],
+      },
+    },
+    tags: { type: 'ARRAY', items: { type: 'STRING' }, description: 'Up to 5 short keywords for searching' },
+    followUp: { type: 'STRING', description: 'Follow-up instructions, or an empty string' },
+  },
+  required: ['title', 'procedureType', 'sections', 'diagnoses', 'medications', 'tags', 'followUp'],
+};
+
+const SAFETY_SETTINGS = [
+  {
+    category: "HARM_CATEGORY_HATE_SPEECH",
+    threshold: "BLOCK_ONLY_HIGH"
+  },
+  {
+    category: "HARM_CATEGORY_DANGEROUS_CONTENT",
+    threshold: "BLOCK_ONLY_HIGH"
+  },
+  {
+    category: "HARM_CATEGORY_SEXUALLY_EXPLICIT",
+    threshold: "BLOCK_ONLY_HIGH"
+  },
+  {
+    category: "HARM_CATEGORY_HARASSMENT",
+    threshold: "BLOCK_ONLY_HIGH"
+  }
+];
 
 /**
- * Extracts procedure type from Gemini's generated notes
+ * Extracts procedure type from Gemini's generated notes.
+ * Only used when the structured output is missing or has no procedure type.
  */
 function extractProcedureType(content: string): string {
   // Common patterns where procedure type might be found
@@ -63,7 +152,7 @@ function extractProcedureType(content: string): string {
 
 /**
  * Extract tags from the generated content
- * This is a basic implementation - you may want to enhance it
+ * Fallback for when the structured output has no tags
  */
 function extractTags(content: string): string[] {
   // Extract potential tags from conditions, procedures, medications
@@ -98,89 +187,65 @@ function extractTags(content: string): string[] {
     }
   }
   
-  return tags.slice(0, 5); // Limit to 5 tags
+  return tags.slice(0, MAX_TAGS);
 }
 
 /**
- * Generates structured medical notes from a transcription using Gemini API
+ * Generates structured medical notes from a transcription using Gemini API.
+ * Gemini is asked for JSON matching NOTE_RESPONSE_SCHEMA with the template's
+ * sections; malformed output gets one repair request, after which the text is
+ * used as-is with the regex helpers.
+ * @param templateId - Note template to follow, the general template if unknown
  */
 export async function generateMedicalNotes(
-  transcriptionText: string
+  transcriptionText: string,
+  templateId: string = DEFAULT_TEMPLATE_ID
 ): Promise<GeminiResponse> {
   try {
+    const template = resolveNoteTemplate(templateId);
+    
     // Get API key and URL from centralized apiKeyManager
     const GEMINI_API_KEY = await getGeminiKey();
     const GEMINI_API_URL = await getGeminiUrl();
-    const API_ENDPOINT = `${GEMINI_API_URL}/models/gemini-pro:generateContent`;
+    const API_ENDPOINT = `${GEMINI_API_URL}/models/${NOTES_MODEL}:generateContent?key=${GEMINI_API_KEY}`;
     
-    const response = await axios.post(
-      `${API_ENDPOINT}?key=${GEMINI_API_KEY}`,
-      {
-        contents: [
-          {
-            parts: [
-              {
-                text: `You are a medical assistant specialized in creating structured medical notes from transcriptions.
-Based on the following transcription, create detailed and well-formatted medical notes.
-
-Structure the notes with these sections (only include sections that are relevant):
-- PATIENT: Demographics and identifying information
-- PROCEDURE/ASSESSMENT: Type of procedure or assessment being performed
-- HISTORY: Relevant medical history and presenting symptoms
-- PHYSICAL EXAMINATION: Objective findings
-- PROCEDURE DETAILS: For surgical/procedural notes
-- ASSESSMENT: Clinical impression and diagnoses
-- PLAN: Treatment recommendations, medications, follow-up
-
-Format the output in clean markdown with clear headings.
-Make sure to maintain all medically relevant information.
-Use appropriate medical terminology.
-Be concise but thorough.
-
-Here is the transcription:
-${transcriptionText}`
-              },
-            ],
-          },
-        ],
-        generationConfig: {
-          temperature: 0.2,
-          topK: 40,
-          topP: 0.95,
-          maxOutputTokens: 1000,
+    const contents: GeminiContent[] = [
+      { role: 'user', parts: [{ text: buildNotesPrompt(transcriptionText, template) }] },
+    ];
+    
+    const responseText = await requestNoteJson(API_ENDPOINT, contents);
+    let parsed = parseStructuredNote(responseText, template);
+    
+    if (!parsed.note) {
+      console.warn('[geminiService] Invalid structured note, asking for a repair:', parsed.problems);
+      
+      const repairText = await requestNoteJson(API_ENDPOINT, [
+        ...contents,
+        { role: 'model', parts: [{ text: responseText }] },
+        {
+          role: 'user',
+          parts: [{
+            text: `Your response did not match the required format: ${parsed.problems.join('; ')}. ` +
+              'Reply again with only the corrected JSON object.'
+          }]
         },
-        safetySettings: [
-          {
-            category: "HARM_CATEGORY_HATE_SPEECH",
-            threshold: "BLOCK_ONLY_HIGH"
-          },
-          {
-            category: "HARM_CATEGORY_DANGEROUS_CONTENT",
-            threshold: "BLOCK_ONLY_HIGH"
-          },
-          {
-            category: "HARM_CATEGORY_SEXUALLY_EXPLICIT",
-            threshold: "BLOCK_ONLY_HIGH"
-          },
-          {
-            category: "HARM_CATEGORY_HARASSMENT",
-            threshold: "BLOCK_ONLY_HIGH"
-          }
-        ]
-      }
-    );
-
-    const generatedContent = response.data.candidates?.[0]?.content?.parts?.[0]?.text || '';
-    const procedureType = extractProcedureType(generatedContent);
-    const extractedTags = extractTags(generatedContent);
+      ]);
+      
+      parsed = parseStructuredNote(repairText, template);
+    }
+    
+    if (!parsed.note) {
+      throw new Error(`Gemini did not return a valid note: ${parsed.problems.join('; ')}`);
+    }
+    
+    const content = renderNoteMarkdown(parsed.note);
     
-    // Return enhanced response with additional properties needed by HomeScreen
     return {
-      ...response.data,
-      title: procedureType,
-      content: generatedContent,
-      tags: extractedTags,
-      procedureType
+      ...parsed.note,
+      procedureType: parsed.note.procedureType || extractProcedureType(content),
+      tags: parsed.note.tags.length > 0 ? parsed.note.tags : extractTags(content),
+      templateId: template.id,
+      content,
     };
   } catch (error) {
     // Handle specific API errors
@@ -199,4 +264,174 @@ ${transcriptionText}`
     
     throw error;
   }
-}
\ No newline at end of file
+}
+
+function buildNotesPrompt(transcriptionText: string, template: NoteTemplate): string {
+  const sectionList = template.sections
+    .map(section => `- ${section.heading}${section.required ? ' (required)' : ''}: ${section.instructions}`)
+    .join('\n');
+  
+  return `You are a medical assistant specialized in creating structured medical notes from transcriptions.
+Based on the following transcription, write a ${template.name} as a JSON object.
+
+Use exactly these section headings, in this order:
+${sectionList}
+
+Always include the required sections, writing "Not documented" if the transcription has nothing for them.
+Leave out optional sections the transcription does not cover, and do not add other sections.
+${template.instructions}
+${template.exampleOutput ? `Match the wording and level of detail of this example note, but not its facts:\n${template.exampleOutput}\n` : ''}
+Write section content in markdown without headings. Also list the diagnoses, medications and
+follow-up instructions in their own fields.
+procedureType must name the procedure or assessment itself, never a person.
+Make sure to maintain all medically relevant information.
+Use appropriate medical terminology.
+Be concise but thorough. Do not invent details that are not in the transcription.
+
+Here is the transcription:
+${transcriptionText}`;
+}
+
+/**
+ * Send one generateContent request constrained to the note schema
+ * @returns The raw text of the first candidate
+ */
+async function requestNoteJson(endpoint: string, contents: GeminiContent[]): Promise<string> {
+  const response = await axios.post<GeminiApiResponse>(endpoint, {
+    contents,
+    generationConfig: {
+      temperature: 0.2,
+      topK: 40,
+      topP: 0.95,
+      maxOutputTokens: 2048,
+      responseMimeType: 'application/json',
+      responseSchema: NOTE_RESPONSE_SCHEMA,
+    },
+    safetySettings: SAFETY_SETTINGS,
+  });
+  
+  return response.data.candidates?.[0]?.content?.parts?.[0]?.text || '';
+}
+
+/**
+ * Parse and validate Gemini's JSON against the note schema
+ * @returns The note, or the problems to report back in a repair request
+ */
+function parseStructuredNote(text: string, template: NoteTemplate): { note: StructuredNote | null; problems: string[] } {
+  const isString = (field: unknown): field is string => typeof field === 'string';
+  const isStringArray = (field: unknown): field is string[] => Array.isArray(field) && field.every(isString);
+  const isObject = (field: unknown): field is Record<string, unknown> =>
+    !!field && typeof field === 'object' && !Array.isArray(field);
+  const isSection = (field: unknown): field is NoteSection =>
+    isObject(field) && isString(field.heading) && isString(field.content);
+  const isMedication = (field: unknown): field is Medication =>
+    isObject(field) && isString(field.name) &&
+    ['dose', 'route', 'frequency'].every(key => field[key] === undefined || isString(field[key]));
+  
+  let value: unknown;
+  
+  try {
+    // Tolerate a markdown code fence around the JSON
+    value = JSON.parse(text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, ''));
+  } catch (error) {
+    return { note: null, problems: [`response is not valid JSON (${error instanceof Error ? error.message : String(error)})`] };
+  }
+  
+  if (!isObject(value)) {
+    return { note: null, problems: ['response is not a JSON object'] };
+  }
+  
+  // Each field is null when it does not have the expected shape
+  const title = isString(value.title) && value.title.trim() ? value.title.trim() : null;
+  const procedureType = isString(value.procedureType) ? value.procedureType.trim() : null;
+  const rawSections = Array.isArray(value.sections) && value.sections.length > 0 && value.sections.every(isSection)
+    ? value.sections
+    : null;
+  const diagnoses = isStringArray(value.diagnoses) ? value.diagnoses : null;
+  const rawMedications = Array.isArray(value.medications) && value.medications.every(isMedication) ? value.medications : null;
+  const rawTags = isStringArray(value.tags) ? value.tags : null;
+  const followUp = value.followUp === undefined ? '' : isString(value.followUp) ? value.followUp.trim() : null;
+  
+  if (
+    title === null ||
+    procedureType === null ||
+    rawSections === null ||
+    diagnoses === null ||
+    rawMedications === null ||
+    rawTags === null ||
+    followUp === null
+  ) {
+    const problems = [
+      title === null && 'title must be a non-empty string',
+      procedureType === null && 'procedureType must be a string',
+      rawSections === null && 'sections must be a non-empty array of objects with string heading and content',
+      diagnoses === null && 'diagnoses must be an array of strings',
+      rawMedications === null && 'medications must be an array of objects with a string name and optional string dose, route and frequency',
+      rawTags === null && 'tags must be an array of strings',
+      followUp === null && 'followUp must be a string',
+    ];
+    return { note: null, problems: problems.filter(isString) };
+  }
+  
+  const sections = orderSectionsByTemplate(
+    rawSections
+      .map(section => ({ heading: section.heading.trim(), content: section.content.trim() }))
+      .filter(section => section.heading && section.content),
+    template
+  );
+  
+  const headings = new Set(sections.map(section => normalizeHeading(section.heading)));
+  const missing = template.sections
+    .filter(section => section.required && !headings.has(normalizeHeading(section.heading)))
+    .map(section => section.heading);
+  
+  if (missing.length > 0) {
+    return { note: null, problems: [`missing required sections: ${missing.join(', ')}`] };
+  }
+  
+  const medications: Medication[] = rawMedications.map(medication => ({
+    name: medication.name.trim(),
+    dose: medication.dose?.trim() || undefined,
+    route: medication.route?.trim() || undefined,
+    frequency: medication.frequency?.trim() || undefined,
+  }));
+  const tags = rawTags
+    .map(tag => tag.trim())
+    .filter((tag, index, all) => tag && all.findIndex(other => other.toLowerCase() === tag.toLowerCase()) === index);
+  
+  return {
+    note: {
+      title,
+      procedureType,
+      sections,
+      diagnoses: diagnoses.map(diagnosis => diagnosis.trim()).filter(Boolean),
+      medications,
+      tags: tags.slice(0, MAX_TAGS),
+      followUp,
+    },
+    problems: [],
+  };
+}
+
+/**
+ * Render a structured note as the markdown stored in Note.content. Diagnoses,
+ * medications and follow-up get their own sections unless the template
+ * already has a section with that heading.
+ */
+function renderNoteMarkdown(note: StructuredNote): string {
+  const headings = new Set(note.sections.map(section => normalizeHeading(section.heading)));
+  const extraSections: NoteSection[] = [
+    { heading: 'DIAGNOSES', content: note.diagnoses.map(diagnosis => `- ${diagnosis}`).join('\n') },
+    {
+      heading: 'MEDICATIONS',
+      content: note.medications
+        .map(medication => `- ${[medication.name, medication.dose, medication.route, medication.frequency].filter(Boolean).join(' ')}`)
+        .join('\n'),
+    },
+    { heading: 'FOLLOW-UP', content: note.followUp },
+  ].filter(section => section.content && !headings.has(normalizeHeading(section.heading)));
+  
+  return [...note.sections, ...extraSections]
+    .map(section => `## ${section.heading}\n\n${section.content}`)
+    .join('\n\n');
+}
@@ -0,0 +1,137 @@
+// services/liveTranscriptionService.ts
+import { AudioChunk } from './audioChunkService';
+import {
+  Transcription,
+  mergeChunkTranscriptions,
+  transcribeWithConfiguredProviders,
+} from './transcriptionService';
+
+// Text within this many seconds of the newest audio may still change when the next chunk arrives
+const STABILITY_MARGIN_SECONDS = 3;
+
+/**
+ * Snapshot of a live transcription, sent after every chunk is recognised
+ */
+export interface LiveTranscriptionUpdate {
+  // Text that will not change any more
+  finalText: string;
+  // Text from the most recent audio, which may still be revised
+  partialText: string;
+  // Chunks recognised so far and how many are waiting
+  completedChunks: number;
+  pendingChunks: number;
+}
+
+export interface LiveTranscriptionSession {
+  // Queue a rolling chunk from audioRecorderService for recognition
+  addChunk: (chunk: AudioChunk) => void;
+  // Wait for queued chunks and return the stitched transcription
+  finish: () => Promise<Transcription>;
+  // Stop reporting updates and drop any queued work
+  cancel: () => void;
+}
+
+/**
+ * Start a live transcription session. Chunks are recognised one at a time in
+ * the order they were recorded and stitched the same way transcribeAudio
+ * stitches long recordings, so finish() returns the same shape of result.
+ * @param onUpdate - Called with the current final and partial text
+ */
+export function createLiveTranscription(
+  onUpdate: (update: LiveTranscriptionUpdate) => void
+): LiveTranscriptionSession {
+  const chunks: AudioChunk[] = [];
+  const results: Transcription[] = [];
+  let pendingChunks = 0;
+  let failure: Error | null = null;
+  let cancelled = false;
+  let queue: Promise<void> = Promise.resolve();
+
+  const recogniseChunk = async (chunk: AudioChunk) => {
+    if (cancelled || failure) return;
+
+    try {
+      const result = await transcribeWithConfiguredProviders(chunk.uri);
+
+      // Keep chunks in recording order even if they were emitted out of order
+      let position = chunks.length;
+      while (position > 0 && chunks[position - 1].index > chunk.index) position--;
+      chunks.splice(position, 0, chunk);
+      results.splice(position, 0, result);
+    } catch (error) {
+      console.warn(`[liveTranscriptionService] Chunk ${chunk.index + 1} failed:`, error);
+      failure = new Error(
+        `Live transcription failed on chunk ${chunk.index + 1}: ` +
+        `${error instanceof Error ? error.message : String(error)}`
+      );
+    } finally {
+      pendingChunks--;
+    }
+
+    if (!cancelled) {
+      onUpdate(buildUpdate(chunks, results, pendingChunks));
+    }
+  };
+
+  return {
+    addChunk: (chunk) => {
+      if (cancelled) return;
+
+      pendingChunks++;
+      queue = queue.then(() => recogniseChunk(chunk));
+    },
+
+    finish: async () => {
+      await queue;
+
+      if (failure) {
+        throw failure;
+      }
+
+      if (chunks.length === 0) {
+        throw new Error('No audio was captured for live transcription');
+      }
+
+      return mergeChunkTranscriptions(chunks, results, chunks[chunks.length - 1].end);
+    },
+
+    cancel: () => {
+      cancelled = true;
+    },
+  };
+}
+
+/**
+ * Split the stitched text so far into the stable part and the tail that may still change
+ */
+function buildUpdate(chunks: AudioChunk[], results: Transcription[], pendingChunks: number): LiveTranscriptionUpdate {
+  const base = { completedChunks: chunks.length, pendingChunks };
+
+  if (chunks.length === 0) {
+    return { ...base, finalText: '', partialText: '' };
+  }
+
+  const lastChunk = chunks[chunks.length - 1];
+  const merged = mergeChunkTranscriptions(chunks, results, lastChunk.end);
+  const segments = merged.segments || [];
+
+  if (segments.length > 0 && segments.every(segment => !segment.synthetic)) {
+    const stableUntil = lastChunk.end - STABILITY_MARGIN_SECONDS;
+    return {
+      ...base,
+      finalText: segments.filter(segment => segment.end <= stableUntil).map(segment => segment.text.trim()).join(' '),
+      partialText: segments.filter(segment => segment.end > stableUntil).map(segment => segment.text.trim()).join(' '),
+    };
+  }
+
+  // Without real timing, everything up to the newest chunk is treated as final
+  const finalText = chunks.length > 1
+    ? mergeChunkTranscriptions(chunks.slice(0, -1), results.slice(0, -1), chunks[chunks.length - 2].end).text
+    : '';
+
+  if (!merged.text.startsWith(finalText)) {
+    return { ...base, finalText: '', partialText: merged.text };
+  }
+
+  return { ...base, finalText, partialText: merged.text.slice(finalText.length).trim() };
+}
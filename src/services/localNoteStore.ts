@@ -0,0 +1,302 @@
+// services/localNoteStore.ts
+// Notes kept on the device: SQLite on native, IndexedDB on web. This module
+// only stores records; noteSyncService decides what goes in them.
+import { Platform } from 'react-native';
+import * as SQLite from 'expo-sqlite';
+import { Note } from '../types';
+import { NoteCursor, compareNotesNewestFirst, isAfterCursor } from '../utils/noteList';
+
+const isWeb = Platform.OS === 'web';
+
+const SQLITE_DATABASE_NAME = 'medtranscribe.db';
+const WEB_DATABASE_NAME = 'medtranscribe-notes';
+const WEB_NOTES_STORE = 'notes';
+const WEB_META_STORE = 'meta';
+
+export type LocalSyncState = 'synced' | 'pending' | 'conflict';
+
+/**
+ * A note as stored on the device, with what the sync engine needs to know about it
+ */
+export interface LocalNoteRecord {
+  id: string;
+  userId: string;
+  note: Note;
+  // updatedAt (or createdAt) of the Supabase copy the local copy is based on;
+  // empty for a note created on this device that has not reached Supabase yet
+  baseVersion: string;
+  syncState: LocalSyncState;
+  // Tombstone: deleted on this device, waiting for the delete to reach Supabase
+  deleted: boolean;
+  // Supabase copy that changed while local changes were pending; null if it was deleted
+  remote?: Note | null;
+}
+
+interface StoreBackend {
+  getRecords(userId: string): Promise<LocalNoteRecord[]>;
+  putRecords(records: LocalNoteRecord[]): Promise<void>;
+  removeRecords(ids: string[]): Promise<void>;
+  getMeta(key: string): Promise<string | null>;
+  setMeta(key: string, value: string): Promise<void>;
+}
+
+let backend: StoreBackend | null = null;
+// Records of the signed-in user, loaded once and kept in step with the database
+let cache: { userId: string; records: Map<string, LocalNoteRecord> } | null = null;
+let cacheLoad: { userId: string; records: Promise<Map<string, LocalNoteRecord>> } | null = null;
+// Notes of the cached records that are not deleted, newest first; rebuilt after a change
+let newestFirst: Note[] | null = null;
+
+/**
+ * Get every record of the user, including tombstones
+ */
+export async function getLocalRecords(userId: string): Promise<LocalNoteRecord[]> {
+  return Array.from((await loadRecords(userId)).values());
+}
+
+export async function getLocalRecord(userId: string, id: string): Promise<LocalNoteRecord | null> {
+  return (await loadRecords(userId)).get(id) || null;
+}
+
+/**
+ * Get the user's notes that are not deleted, newest first. The list is shared
+ * and only rebuilt after the records change, so it must not be modified.
+ */
+export async function getLocalNotesNewestFirst(userId: string): Promise<readonly Note[]> {
+  return loadNewestFirst(userId);
+}
+
+/**
+ * Get a page of the user's notes, newest first and keyed on (createdAt, id).
+ * Finds the cursor by binary search and stops once the page is full.
+ * @param include - Which notes belong in the list, e.g. a filter match
+ */
+export async function getLocalNotePage(
+  userId: string,
+  cursor: NoteCursor | null,
+  limitCount: number,
+  include: (note: Note) => boolean = () => true
+): Promise<{ notes: Note[]; hasMore: boolean }> {
+  const notes = await loadNewestFirst(userId);
+  const page: Note[] = [];
+
+  for (let index = cursor ? findPageStart(notes, cursor) : 0; index < notes.length; index++) {
+    if (!include(notes[index])) continue;
+    if (page.length === limitCount) return { notes: page, hasMore: true };
+    page.push(notes[index]);
+  }
+
+  return { notes: page, hasMore: false };
+}
+
+/**
+ * Insert or replace records
+ */
+export async function putLocalRecords(userId: string, records: LocalNoteRecord[]): Promise<void> {
+  if (records.length === 0) return;
+
+  const loaded = await loadRecords(userId);
+  await getBackend().putRecords(records);
+  records.forEach(record => loaded.set(record.id, record));
+  newestFirst = null;
+}
+
+/**
+ * Remove records for good, once Supabase no longer has the note either
+ */
+export async function removeLocalRecords(userId: string, ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+
+  const loaded = await loadRecords(userId);
+  await getBackend().removeRecords(ids);
+  ids.forEach(id => loaded.delete(id));
+  newestFirst = null;
+}
+
+export function getSyncMeta(key: string): Promise<string | null> {
+  return getBackend().getMeta(key);
+}
+
+export function setSyncMeta(key: string, value: string): Promise<void> {
+  return getBackend().setMeta(key, value);
+}
+
+function loadRecords(userId: string): Promise<Map<string, LocalNoteRecord>> {
+  if (cache && cache.userId === userId) {
+    return Promise.resolve(cache.records);
+  }
+
+  if (!cacheLoad || cacheLoad.userId !== userId) {
+    // A load for a user who signed out meanwhile still finishes, but only the
+    // latest load fills the cache
+    const load = {
+      userId,
+      records: getBackend().getRecords(userId)
+        .then(records => {
+          const byId = new Map(records.map(record => [record.id, record]));
+          if (cacheLoad === load) {
+            cache = { userId, records: byId };
+            newestFirst = null;
+          }
+          return byId;
+        })
+        .finally(() => {
+          if (cacheLoad === load) cacheLoad = null;
+        }),
+    };
+    cacheLoad = load;
+  }
+
+  return cacheLoad.records;
+}
+
+async function loadNewestFirst(userId: string): Promise<Note[]> {
+  const records = await loadRecords(userId);
+
+  if (!newestFirst) {
+    newestFirst = Array.from(records.values())
+      .filter(record => !record.deleted)
+      .map(record => record.note)
+      .sort(compareNotesNewestFirst);
+  }
+
+  return newestFirst;
+}
+
+/**
+ * Index of the first note after the cursor in a newest-first list
+ */
+function findPageStart(notes: Note[], cursor: NoteCursor): number {
+  let low = 0;
+  let high = notes.length;
+
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (isAfterCursor(notes[middle], cursor)) {
+      high = middle;
+    } else {
+      low = middle + 1;
+    }
+  }
+
+  return low;
+}
+
+function getBackend(): StoreBackend {
+  if (!backend) {
+    backend = isWeb ? createWebBackend() : createSQLiteBackend();
+  }
+  return backend;
+}
+
+function createSQLiteBackend(): StoreBackend {
+  let database: Promise<SQLite.SQLiteDatabase> | null = null;
+
+  const open = () => {
+    if (!database) {
+      database = SQLite.openDatabaseAsync(SQLITE_DATABASE_NAME).then(async db => {
+        await db.execAsync(`
+          CREATE TABLE IF NOT EXISTS notes (id TEXT PRIMARY KEY NOT NULL, userId TEXT NOT NULL, record TEXT NOT NULL);
+          CREATE INDEX IF NOT EXISTS notes_user ON notes (userId);
+          CREATE TABLE IF NOT EXISTS sync_meta (key TEXT PRIMARY KEY NOT NULL, value TEXT NOT NULL);
+        `);
+        return db;
+      });
+    }
+    return database;
+  };
+
+  return {
+    async getRecords(userId) {
+      const db = await open();
+      const rows = await db.getAllAsync<{ record: string }>('SELECT record FROM notes WHERE userId = ?', userId);
+      return rows.map(row => JSON.parse(row.record) as LocalNoteRecord);
+    },
+    async putRecords(records) {
+      const db = await open();
+      await db.withTransactionAsync(async () => {
+        for (const record of records) {
+          await db.runAsync(
+            'INSERT OR REPLACE INTO notes (id, userId, record) VALUES (?, ?, ?)',
+            record.id, record.userId, JSON.stringify(record)
+          );
+        }
+      });
+    },
+    async removeRecords(ids) {
+      const db = await open();
+      await db.withTransactionAsync(async () => {
+        for (const id of ids) {
+          await db.runAsync('DELETE FROM notes WHERE id = ?', id);
+        }
+      });
+    },
+    async getMeta(key) {
+      const db = await open();
+      const row = await db.getFirstAsync<{ value: string }>('SELECT value FROM sync_meta WHERE key = ?', key);
+      return row ? row.value : null;
+    },
+    async setMeta(key, value) {
+      const db = await open();
+      await db.runAsync('INSERT OR REPLACE INTO sync_meta (key, value) VALUES (?, ?)', key, value);
+    },
+  };
+}
+
+function createWebBackend(): StoreBackend {
+  const open = () => new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(WEB_DATABASE_NAME, 1);
+    request.onupgradeneeded = () => {
+      const notes = request.result.createObjectStore(WEB_NOTES_STORE, { keyPath: 'id' });
+      notes.createIndex('userId', 'userId');
+      request.result.createObjectStore(WEB_META_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  /**
+   * Run requests in one transaction and resolve once it has committed
+   */
+  const withStore = async <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest | void
+  ): Promise<T> => {
+    const database = await open();
+
+    try {
+      return await new Promise<T>((resolve, reject) => {
+        const transaction = database.transaction(storeName, mode);
+        const request = run(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request ? request.result : undefined);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      });
+    } finally {
+      database.close();
+    }
+  };
+
+  return {
+    getRecords(userId) {
+      return withStore<LocalNoteRecord[]>(WEB_NOTES_STORE, 'readonly', store => store.index('userId').getAll(userId));
+    },
+    putRecords(records) {
+      return withStore<void>(WEB_NOTES_STORE, 'readwrite', store => {
+        records.forEach(record => store.put(record));
+      });
+    },
+    removeRecords(ids) {
+      return withStore<void>(WEB_NOTES_STORE, 'readwrite', store => {
+        ids.forEach(id => store.delete(id));
+      });
+    },
+    async getMeta(key) {
+      return (await withStore<string | undefined>(WEB_META_STORE, 'readonly', store => store.get(key))) ?? null;
+    },
+    setMeta(key, value) {
+      return withStore<void>(WEB_META_STORE, 'readwrite', store => store.put(value, key));
+    },
+  };
+}
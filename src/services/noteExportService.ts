@@ -0,0 +1,330 @@
+// services/noteExportService.ts
+import { Platform, Share } from 'react-native';
+import { getAuth } from 'firebase/auth';
+import * as FileSystem from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { formatAddendaForExport, getAddendaForNotes } from './addendumService';
+import { FhirBundle, notesToFhirBundle, postFhirBundle, validateFhirBundle } from './fhirService';
+import { getUserProfile } from './storageService';
+import { getNoteTemplate, orderSectionsByTemplate, splitNoteSections } from './noteTemplates';
+import { NOTE_STATUS_LABELS, getNoteStatus } from '../utils/noteStatus';
+import { escapeHtml, markdownToHtml } from '../utils/noteHtml';
+import { getLetterhead } from '../utils/apiKeyManager';
+import { Letterhead, Note, NoteAddendum } from '../types';
+
+const isWeb = Platform.OS === 'web';
+
+// Notes whose addenda are loaded per request
+const ADDENDA_BATCH_SIZE = 100;
+
+const PDF_STYLES = `
+  @page { margin: 18mm 16mm; }
+  body { font-family: -apple-system, 'Helvetica Neue', Helvetica, Arial, sans-serif; font-size: 11pt; color: #222; line-height: 1.4; }
+  .note + .note { page-break-before: always; }
+  .letterhead { display: flex; align-items: center; border-bottom: 2px solid #0077cc; padding-bottom: 8px; margin-bottom: 16px; }
+  .letterhead img { max-height: 56px; max-width: 160px; margin-right: 16px; }
+  .institution { font-size: 15pt; font-weight: bold; color: #0077cc; }
+  .letterhead .details { font-size: 9pt; color: #555; }
+  h1 { font-size: 17pt; margin: 0 0 8px; }
+  h2 { font-size: 12pt; text-transform: uppercase; color: #0077cc; margin: 18px 0 4px; }
+  h3, h4, h5, h6 { font-size: 11pt; margin: 12px 0 4px; }
+  p { margin: 0 0 8px; }
+  ul, ol { margin: 0 0 8px; padding-left: 20px; }
+  .meta { border-collapse: collapse; font-size: 10pt; margin-bottom: 8px; }
+  .meta td { padding: 2px 12px 2px 0; vertical-align: top; }
+  .meta td:first-child { color: #666; }
+  .addendum { border-left: 3px solid #ccc; padding-left: 8px; margin-bottom: 8px; }
+  .addendum .heading { font-size: 10pt; color: #666; }
+  .signature { border-top: 1px solid #999; margin-top: 24px; padding-top: 8px; page-break-inside: avoid; }
+  .attestation { font-style: italic; font-size: 10pt; color: #444; }
+  .signature-line { display: inline-block; width: 45%; border-bottom: 1px solid #222; height: 28px; margin-right: 4%; }
+  .signature-label { display: inline-block; width: 45%; font-size: 9pt; color: #666; margin-right: 4%; }
+`;
+
+/**
+ * Plain-text note with its addenda and signature, as shared from the app
+ */
+export function formatNoteForExport(note: Note, addenda: NoteAddendum[] = []): string {
+  const procedure = note.procedureType ? `\nProcedure: ${note.procedureType}` : '';
+  const addendaText = addenda.length > 0 ? `\n\n${formatAddendaForExport(addenda)}` : '';
+  const signature = note.signature
+    ? `\n\nSigned by ${note.signature.byName || note.signature.by} on ${new Date(note.signature.at).toLocaleString()}\n${note.signature.attestation}`
+    : '';
+
+  return `${note.title}\n\n${note.content}\n\nDate: ${formatNoteDate(note)}${procedure}${addendaText}${signature}`;
+}
+
+/**
+ * Export several notes as one text document. Web downloads it as a file;
+ * native opens the share sheet.
+ */
+export async function exportNotes(notes: Note[]): Promise<void> {
+  try {
+    const addenda = await loadAddenda(notes);
+    const text = notes
+      .map(note => formatNoteForExport(note, addenda.get(note.id)))
+      .join('\n\n----------------------------------------\n\n');
+
+    if (isWeb) {
+      // Browsers cannot share text files, so download it instead
+      downloadOnWeb(text, 'text/plain', `${exportFileName(notes)}.txt`);
+    } else {
+      await Share.share({ title: exportTitle(notes), message: text });
+    }
+  } catch (error) {
+    console.error('[noteExportService] Error exporting notes:', error);
+    throw new Error(`Failed to export notes: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Export notes as one PDF on the letterhead from Settings, each note starting
+ * on a new page. Native shares the file; web opens the print dialog, where
+ * the browser saves it as a PDF.
+ */
+export async function exportNotesAsPdf(notes: Note[]): Promise<void> {
+  try {
+    const [addenda, letterhead] = await Promise.all([loadAddenda(notes), getLetterhead()]);
+    const fileName = exportFileName(notes);
+    const html = renderNotesHtml(notes, addenda, letterhead, fileName);
+
+    if (isWeb) {
+      await printHtmlOnWeb(html);
+      return;
+    }
+
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing files is not available on this device');
+    }
+
+    const { uri } = await Print.printToFileAsync({ html });
+
+    // The share sheet shows the file name, so replace the generated one
+    const namedUri = `${FileSystem.cacheDirectory}${fileName}.pdf`;
+    await FileSystem.deleteAsync(namedUri, { idempotent: true });
+    await FileSystem.moveAsync({ from: uri, to: namedUri });
+
+    await Sharing.shareAsync(namedUri, {
+      mimeType: 'application/pdf',
+      UTI: 'com.adobe.pdf',
+      dialogTitle: exportTitle(notes),
+    });
+  } catch (error) {
+    console.error('[noteExportService] Error exporting PDF:', error);
+    throw new Error(`Failed to export PDF: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Export notes as a FHIR R4 transaction Bundle in JSON, ready to post to an
+ * EHR. Web downloads the file; native shares it.
+ */
+export async function exportNotesAsFhir(notes: Note[]): Promise<void> {
+  try {
+    const json = JSON.stringify(await buildFhirBundle(notes), null, 2);
+    const fileName = `${exportFileName(notes)}.fhir.json`;
+
+    if (isWeb) {
+      downloadOnWeb(json, 'application/fhir+json', fileName);
+      return;
+    }
+
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing files is not available on this device');
+    }
+
+    const uri = `${FileSystem.cacheDirectory}${fileName}`;
+    await FileSystem.writeAsStringAsync(uri, json);
+    await Sharing.shareAsync(uri, {
+      mimeType: 'application/json',
+      UTI: 'public.json',
+      dialogTitle: exportTitle(notes),
+    });
+  } catch (error) {
+    console.error('[noteExportService] Error exporting FHIR bundle:', error);
+    throw new Error(`Failed to export FHIR bundle: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Send notes to the FHIR server set in Settings. Sending a note again updates
+ * what the server stored the first time.
+ * @returns Number of notes sent
+ */
+export async function sendNotesToFhirServer(notes: Note[]): Promise<number> {
+  await postFhirBundle(await buildFhirBundle(notes));
+  console.log(`[noteExportService] Sent ${notes.length} notes to the FHIR server`);
+  return notes.length;
+}
+
+async function buildFhirBundle(notes: Note[]): Promise<FhirBundle> {
+  const [profile, addenda] = await Promise.all([getUserProfile(), loadAddenda(notes)]);
+  if (!profile) {
+    throw new Error('User not authenticated');
+  }
+
+  const bundle = notesToFhirBundle(notes, profile, addenda);
+  const issues = validateFhirBundle(bundle);
+  if (issues.length > 0) {
+    console.warn('[noteExportService] Invalid FHIR bundle:', issues);
+    throw new Error(`The notes do not make a valid FHIR bundle: ${issues[0]}`);
+  }
+  return bundle;
+}
+
+async function loadAddenda(notes: Note[]): Promise<Map<string, NoteAddendum[]>> {
+  const addenda = new Map<string, NoteAddendum[]>();
+  for (let start = 0; start < notes.length; start += ADDENDA_BATCH_SIZE) {
+    const batch = await getAddendaForNotes(notes.slice(start, start + ADDENDA_BATCH_SIZE).map(note => note.id));
+    batch.forEach((noteAddenda, noteId) => addenda.set(noteId, noteAddenda));
+  }
+  return addenda;
+}
+
+function renderNotesHtml(notes: Note[], addenda: Map<string, NoteAddendum[]>, letterhead: Letterhead, title: string): string {
+  const user = getAuth().currentUser;
+  const author = user?.displayName || user?.email || '';
+  const header = renderLetterhead(letterhead);
+
+  const body = notes
+    .map(note => `<section class="note">${header}${renderNote(note, addenda.get(note.id) || [], author)}</section>`)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${PDF_STYLES}</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+function renderLetterhead(letterhead: Letterhead): string {
+  if (!letterhead.institutionName && !letterhead.address && !letterhead.contact && !letterhead.logoUrl) return '';
+
+  const logo = letterhead.logoUrl ? `<img src="${escapeHtml(letterhead.logoUrl)}" alt="">` : '';
+  const address = letterhead.address
+    ? `<div class="details">${letterhead.address.split('\n').map(line => escapeHtml(line.trim())).filter(Boolean).join('<br>')}</div>`
+    : '';
+  const contact = letterhead.contact ? `<div class="details">${escapeHtml(letterhead.contact)}</div>` : '';
+
+  return `<header class="letterhead">${logo}<div>
+<div class="institution">${escapeHtml(letterhead.institutionName)}</div>${address}${contact}
+</div></header>`;
+}
+
+function renderNote(note: Note, addenda: NoteAddendum[], author: string): string {
+  // Notes written with a template list their sections in the template's order
+  const template = note.templateId ? getNoteTemplate(note.templateId) : undefined;
+  const splitSections = splitNoteSections(note.content || '');
+  const sections = template ? orderSectionsByTemplate(splitSections, template) : splitSections;
+
+  const details: [string, string][] = [
+    ['Date', formatNoteDate(note)],
+    ['Procedure', note.procedureType],
+    ['Author', note.signature?.byName || author],
+    ['Status', NOTE_STATUS_LABELS[getNoteStatus(note)]],
+    ['Tags', (note.tags || []).join(', ')],
+  ];
+  const meta = details
+    .filter(([, value]) => value)
+    .map(([label, value]) => `<tr><td>${label}</td><td>${escapeHtml(value)}</td></tr>`)
+    .join('');
+
+  const content = sections
+    .map(section => `${section.heading ? `<h2>${escapeHtml(section.heading)}</h2>` : ''}${markdownToHtml(section.content)}`)
+    .join('\n');
+
+  const addendaHtml = addenda.length > 0
+    ? `<h2>Addenda</h2>${addenda.map(addendum => `<div class="addendum">
+<div class="heading">${escapeHtml(addendum.reason)}, ${escapeHtml(new Date(addendum.createdAt).toLocaleString())}${addendum.authorName ? `, ${escapeHtml(addendum.authorName)}` : ''}</div>
+${markdownToHtml(addendum.text)}
+</div>`).join('\n')}`
+    : '';
+
+  return `<h1>${escapeHtml(note.title || 'Untitled Note')}</h1>
+<table class="meta">${meta}</table>
+${content || '<p>No content</p>'}
+${addendaHtml}
+${renderSignatureBlock(note)}`;
+}
+
+function renderSignatureBlock(note: Note): string {
+  if (note.signature) {
+    return `<div class="signature">
+<p><strong>Electronically signed by ${escapeHtml(note.signature.byName || note.signature.by)}</strong> on ${escapeHtml(new Date(note.signature.at).toLocaleString())}</p>
+<p class="attestation">${escapeHtml(note.signature.attestation)}</p>
+</div>`;
+  }
+
+  // Unsigned notes leave room to sign the printout
+  return `<div class="signature">
+<p><strong>Not signed.</strong> This note has not been signed electronically.</p>
+<span class="signature-line"></span><span class="signature-line"></span><br>
+<span class="signature-label">Signature</span><span class="signature-label">Date</span>
+</div>`;
+}
+
+function downloadOnWeb(content: string, type: string, fileName: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Print HTML from a hidden frame, leaving the app page as it is
+ */
+function printHtmlOnWeb(html: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const frame = document.createElement('iframe');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+
+    // Printing waits for the frame to load, including the letterhead logo
+    frame.onload = () => {
+      try {
+        frame.contentWindow?.focus();
+        frame.contentWindow?.print();
+        resolve();
+      } catch (error) {
+        reject(error);
+      } finally {
+        setTimeout(() => frame.remove(), 1000);
+      }
+    };
+    frame.srcdoc = html;
+    document.body.appendChild(frame);
+  });
+}
+
+function formatNoteDate(note: Note): string {
+  return new Date(note.date || note.createdAt || Date.now()).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function exportTitle(notes: Note[]): string {
+  return notes.length === 1 ? notes[0].title || 'Untitled Note' : `${notes.length} Notes`;
+}
+
+/**
+ * File name without extension; browsers also use the document title as the PDF name
+ */
+function exportFileName(notes: Note[]): string {
+  const name = notes.length === 1 ? notes[0].title || 'note' : `notes-${new Date().toISOString().slice(0, 10)}`;
+  return name.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-').slice(0, 60) || 'note';
+}
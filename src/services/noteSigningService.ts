@@ -0,0 +1,130 @@
+// services/noteSigningService.ts
+import { getAuth } from 'firebase/auth';
+import { getSupabaseClient } from '../firebase/supabaseConfig';
+import { NOTES_TABLE, getNoteById, noteFromRow } from './notesRepository';
+import { isNoteLocked } from '../utils/noteStatus';
+import { Note, NoteSignature } from '../types';
+
+export { NOTE_STATUS_LABELS, getNoteStatus, isNoteLocked } from '../utils/noteStatus';
+
+export const DEFAULT_ATTESTATION =
+  'I have reviewed this note and attest that it is accurate and complete to the best of my knowledge.';
+
+function getCurrentUser() {
+  const user = getAuth().currentUser;
+  if (!user) {
+    throw new Error('User not authenticated');
+  }
+  return user;
+}
+
+/**
+ * Move an unsigned note between draft and pending review
+ */
+export async function setNoteReviewStatus(id: string, status: 'draft' | 'pending_review'): Promise<Note> {
+  try {
+    const supabase = await getSupabaseClient();
+    const note = await getNoteById(id);
+    if (isNoteLocked(note)) {
+      throw new Error('The note is already signed');
+    }
+
+    // The status check stops this overwriting a signature made on another device
+    const { data, error } = await supabase
+      .from(NOTES_TABLE)
+      .update({ status, updatedAt: new Date().toISOString() })
+      .eq('id', id)
+      .in('status', ['draft', 'pending_review'])
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) {
+      throw new Error('The note was signed in the meantime');
+    }
+
+    return noteFromRow(data);
+  } catch (error) {
+    console.error('[noteSigningService] Error changing note status:', error);
+    throw new Error(`Failed to change note status: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Sign a note as the current user. After this the content is locked and
+ * only addenda can be appended.
+ */
+export async function signNote(id: string, attestation: string): Promise<Note> {
+  try {
+    const supabase = await getSupabaseClient();
+    const user = getCurrentUser();
+    if (!attestation.trim()) {
+      throw new Error('An attestation statement is required');
+    }
+
+    const note = await getNoteById(id);
+    if (isNoteLocked(note)) {
+      throw new Error('The note is already signed');
+    }
+
+    const signature: NoteSignature = {
+      by: user.uid,
+      byName: user.displayName || user.email || undefined,
+      at: new Date().toISOString(),
+      attestation: attestation.trim(),
+    };
+
+    // The status check stops two devices signing the same note
+    const { data, error } = await supabase
+      .from(NOTES_TABLE)
+      .update({ status: 'signed', signature, updatedAt: signature.at })
+      .eq('id', id)
+      .in('status', ['draft', 'pending_review'])
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return noteFromRow(data);
+  } catch (error) {
+    console.error('[noteSigningService] Error signing note:', error);
+    throw new Error(`Failed to sign note: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Count the current user's notes that still need a signature
+ */
+export async function countUnsignedNotes(): Promise<number> {
+  const supabase = await getSupabaseClient();
+  const user = getCurrentUser();
+
+  const { count, error } = await supabase
+    .from(NOTES_TABLE)
+    .select('id', { count: 'exact', head: true })
+    .eq('userId', user.uid)
+    .is('deletedAt', null)
+    .in('status', ['draft', 'pending_review']);
+
+  if (error) {
+    throw new Error(`Failed to count unsigned notes: ${error.message}`);
+  }
+
+  return count || 0;
+}
+
+/**
+ * Mark a signed note as amended once an addendum has been attached
+ */
+export async function markNoteAmended(id: string): Promise<void> {
+  const supabase = await getSupabaseClient();
+  const { error } = await supabase
+    .from(NOTES_TABLE)
+    .update({ status: 'amended', updatedAt: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'signed');
+
+  if (error) {
+    throw new Error(`Failed to mark note as amended: ${error.message}`);
+  }
+}
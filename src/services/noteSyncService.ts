@@ -0,0 +1,858 @@
+// services/noteSyncService.ts
+// The device copy of the notes is what screens read and edit. Changes are
+// pushed to Supabase and remote changes pulled in the background; when both
+// sides changed a note it is marked as a conflict for the user to resolve.
+import { AppState, Platform } from 'react-native';
+import { getAuth } from 'firebase/auth';
+import { randomUUID } from 'expo-crypto';
+import {
+  deleteNote,
+  deleteNotes,
+  findNoteById,
+  getNoteById,
+  getNotesChangedSince,
+  getNoteTombstonesSince,
+  restoreNotes,
+  saveNote,
+  subscribeToNoteChanges,
+  updateNote,
+  updateNotes,
+  NoteChange,
+  NoteSearchResult,
+  NoteTombstone,
+} from './notesRepository';
+import {
+  LocalNoteRecord,
+  getLocalRecord,
+  getLocalRecords,
+  getLocalNotePage,
+  getLocalNotesNewestFirst,
+  getSyncMeta,
+  putLocalRecords,
+  removeLocalRecords,
+  setSyncMeta,
+} from './localNoteStore';
+import { isNoteLocked } from '../utils/noteStatus';
+import { matchesNoteFilters } from '../utils/noteFilters';
+import { NoteCursor, cursorAfter } from '../utils/noteList';
+import { isOnline } from '../utils/connectivity';
+import { highlightSnippet, highlightTerms, matchesAllTerms, parseSearchTerms, searchWords, SearchTerms } from '../utils/searchQuery';
+import { Note, NoteFilters } from '../types';
+
+const isWeb = Platform.OS === 'web';
+
+export const NOTES_PAGE_SIZE = 20;
+const SYNC_INTERVAL_MS = 60 * 1000;
+// Pull a little further back than the last change seen, in case another device's clock is behind
+const PULL_OVERLAP_MS = 5 * 60 * 1000;
+// Notes sent per request by bulk actions, which report progress between requests
+const BULK_BATCH_SIZE = 100;
+// Base version of a note created on this device that has not reached Supabase yet
+const NEW_NOTE_VERSION = '';
+
+// Fields searched on the device, with how much a match in each counts
+const SEARCH_FIELD_WEIGHTS: [keyof Pick<Note, 'title' | 'procedureType' | 'content' | 'transcription'>, number][] = [
+  ['title', 4],
+  ['procedureType', 3],
+  ['content', 2],
+  ['transcription', 1],
+];
+
+// Fields an edit on this device can change; everything else only changes in Supabase
+const EDITABLE_FIELDS = ['title', 'content', 'procedureType', 'tags', 'templateId'] as const;
+
+/**
+ * A note changed both on this device and elsewhere since they last synced
+ */
+export interface NoteConflict {
+  id: string;
+  // null when the note was deleted on this device
+  local: Note | null;
+  // null when the note was deleted on another device
+  remote: Note | null;
+}
+
+export interface NoteSyncState {
+  syncing: boolean;
+  online: boolean;
+  lastSyncedAt: string | null;
+  lastError: string | null;
+  // Notes with changes that have not reached Supabase yet
+  pendingNoteIds: string[];
+  conflicts: NoteConflict[];
+  // Last note changed by another device and received live
+  lastRemoteChange: { noteId: string; at: string } | null;
+}
+
+export type NoteSyncListener = (state: NoteSyncState) => void;
+
+/**
+ * Outcome of a bulk action. Notes with changes that have not synced, signed
+ * notes (for edits) and notes changed elsewhere meanwhile are skipped.
+ */
+export interface BulkResult {
+  changed: number;
+  skipped: number;
+}
+
+export type BulkProgressListener = (done: number, total: number) => void;
+
+let syncState: NoteSyncState = {
+  syncing: false,
+  online: true,
+  lastSyncedAt: null,
+  lastError: null,
+  pendingNoteIds: [],
+  conflicts: [],
+  lastRemoteChange: null,
+};
+let activeSync: Promise<void> | null = null;
+// Notes being pushed; live updates for them are most likely the push's own echo
+const pushingNoteIds = new Set<string>();
+const listeners = new Set<NoteSyncListener>();
+
+/**
+ * Get a page of the user's notes from the device that match the filters,
+ * newest first. Pages are keyed on (createdAt, id) like getNotes.
+ * @param cursor - Where the previous page ended; null for the first page
+ */
+export async function getLocalNotes(
+  cursor: NoteCursor | null = null,
+  limitCount: number = NOTES_PAGE_SIZE,
+  filters: NoteFilters = {}
+): Promise<{notes: Note[], nextCursor: NoteCursor | null}> {
+  try {
+    const page = await getLocalNotePage(requireUserId(), cursor, limitCount, note => matchesNoteFilters(note, filters));
+
+    return {
+      notes: page.notes,
+      nextCursor: page.hasMore ? cursorAfter(page.notes[page.notes.length - 1]) : null,
+    };
+  } catch (error) {
+    console.error('[noteSyncService] Error loading notes:', error);
+    throw new Error(`Failed to load notes: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Search the notes on the device, for when Supabase cannot be reached. Terms
+ * match like the full-text search, without word stemming.
+ */
+export async function searchLocalNotes(keyword: string): Promise<NoteSearchResult[]> {
+  try {
+    const notes = await getVisibleNotes();
+    const terms = parseSearchTerms(keyword);
+
+    if (terms.words.length === 0 && terms.phrases.length === 0) {
+      return notes.slice(0, NOTES_PAGE_SIZE).map(note => ({
+        note,
+        rank: 0,
+        titleHighlight: note.title || '',
+        contentHighlight: note.content || '',
+      }));
+    }
+
+    const results: NoteSearchResult[] = [];
+    for (const note of notes) {
+      const fields = SEARCH_FIELD_WEIGHTS.map(([field, weight]) => ({ words: searchWords(note[field] || ''), weight }));
+      if (!matchesAllTerms(fields.flatMap(field => field.words), terms)) continue;
+
+      // Rank by where the terms are, title first, like the database ranking
+      const rank = fields.reduce((total, field) => total + (matchesAnyTerm(field.words, terms) ? field.weight : 0), 0);
+      const body = [note.content, note.transcription].filter(Boolean).join(' ');
+
+      results.push({
+        note,
+        rank,
+        titleHighlight: highlightTerms(note.title || '', terms),
+        contentHighlight: highlightSnippet(body, terms),
+      });
+    }
+
+    return results.sort((a, b) => b.rank - a.rank);
+  } catch (error) {
+    console.error('[noteSyncService] Error searching notes:', error);
+    throw new Error(`Failed to search notes: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export async function countLocalNotes(filters: NoteFilters = {}): Promise<number> {
+  return (await getVisibleNotes(filters)).length;
+}
+
+/**
+ * Procedure types and tags used in the notes on the device, to filter by
+ */
+export async function getLocalFilterOptions(): Promise<{ procedureTypes: string[]; tags: string[] }> {
+  const notes = await getVisibleNotes();
+  const sorted = (values: string[]) => Array.from(new Set(values.filter(Boolean))).sort((a, b) => a.localeCompare(b));
+
+  return {
+    procedureTypes: sorted(notes.map(note => note.procedureType)),
+    tags: sorted(notes.flatMap(note => note.tags || [])),
+  };
+}
+
+/**
+ * Get a note from the device. Notes that have not synced to the device yet,
+ * such as one saved a moment ago, are fetched from Supabase and kept.
+ */
+export async function getLocalNote(id: string): Promise<Note> {
+  try {
+    const userId = requireUserId();
+    const record = await getLocalRecord(userId, id);
+
+    if (record) {
+      if (record.deleted) throw new Error('Note not found');
+      return record.note;
+    }
+
+    const note = await getNoteById(id);
+    await putLocalRecords(userId, [syncedRecord(userId, note)]);
+    return note;
+  } catch (error) {
+    console.error('[noteSyncService] Error loading note:', error);
+    throw new Error(`Failed to fetch note: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Save a new note on the device under a new ID. It is pushed to Supabase in
+ * the background, so notes can be created without a connection.
+ * @returns ID of the new note
+ */
+export async function createNote(note: Note): Promise<string> {
+  try {
+    const userId = requireUserId();
+    const newNote: Note = {
+      ...note,
+      id: randomUUID(),
+      userId,
+      title: note.title || 'Untitled Note',
+      content: note.content || '',
+      transcription: note.transcription || '',
+      procedureType: note.procedureType || '',
+      tags: Array.isArray(note.tags) ? note.tags : [],
+      createdAt: new Date().toISOString(),
+      status: 'draft',
+    };
+
+    await putLocalRecords(userId, [{
+      id: newNote.id,
+      userId,
+      note: newNote,
+      baseVersion: NEW_NOTE_VERSION,
+      syncState: 'pending',
+      deleted: false,
+    }]);
+
+    await refreshState(userId);
+    kickSync();
+    return newNote.id;
+  } catch (error) {
+    console.error('[noteSyncService] Error creating note:', error);
+    throw new Error(`Failed to save note: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Edit a note on the device. The edit is pushed to Supabase in the background.
+ * @returns The note as edited
+ */
+export async function editNote(id: string, changes: Partial<Note>): Promise<Note> {
+  try {
+    const userId = requireUserId();
+    const record = await getLocalRecord(userId, id);
+    if (!record || record.deleted) throw new Error('Note not found');
+
+    if (isNoteLocked(record.note)) {
+      throw new Error('The note is signed and can no longer be edited. Add an addendum instead.');
+    }
+
+    const note: Note = { ...record.note, ...pickEditableFields(changes), updatedAt: new Date().toISOString() };
+    await putLocalRecords(userId, [{ ...record, note, syncState: nextSyncState(record) }]);
+
+    await refreshState(userId);
+    kickSync();
+    return note;
+  } catch (error) {
+    console.error('[noteSyncService] Error editing note:', error);
+    throw new Error(`Failed to update note: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Delete a note on the device. A tombstone stays behind until the delete has reached Supabase.
+ */
+export async function removeNote(id: string): Promise<void> {
+  try {
+    const userId = requireUserId();
+    const record = await getLocalRecord(userId, id);
+    if (!record || record.deleted) return;
+
+    await putLocalRecords(userId, [{ ...record, deleted: true, syncState: nextSyncState(record) }]);
+
+    await refreshState(userId);
+    kickSync();
+  } catch (error) {
+    console.error('[noteSyncService] Error deleting note:', error);
+    throw new Error(`Failed to delete note: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Keep a note returned by Supabase after an action that goes straight there,
+ * such as signing or restoring a revision
+ */
+export async function cacheNote(note: Note): Promise<void> {
+  const userId = requireUserId();
+  const record = await getLocalRecord(userId, note.id);
+
+  // Unsynced local changes win here; the next sync compares versions
+  if (record && record.syncState !== 'synced') return;
+
+  await putLocalRecords(userId, [syncedRecord(userId, note)]);
+  await refreshState(userId);
+}
+
+/**
+ * Settle a conflict by keeping this device's version or the other one
+ * @returns ID of the note to show afterwards, or null if it no longer exists
+ */
+export async function resolveNoteConflict(id: string, keep: 'local' | 'remote'): Promise<string | null> {
+  try {
+    const userId = requireUserId();
+    const record = await getLocalRecord(userId, id);
+    if (!record || record.syncState !== 'conflict') return record && !record.deleted ? id : null;
+
+    const remote = record.remote ?? null;
+    let resultId: string | null = id;
+
+    if (keep === 'remote') {
+      if (remote) {
+        await putLocalRecords(userId, [syncedRecord(userId, remote)]);
+      } else {
+        await removeLocalRecords(userId, [id]);
+        resultId = null;
+      }
+    } else if (!remote) {
+      if (record.deleted) {
+        await removeLocalRecords(userId, [id]);
+        resultId = null;
+      } else {
+        // Moved to the trash elsewhere: take it out and push this device's version over it
+        const [restored] = await restoreNotes([id]);
+        if (restored) {
+          await putLocalRecords(userId, [{
+            ...record,
+            baseVersion: noteVersion(restored),
+            syncState: 'pending',
+            remote: undefined,
+          }]);
+        } else {
+          // Deleted for good, so this device's copy is saved as a new note
+          resultId = await saveNote(record.note);
+          await removeLocalRecords(userId, [id]);
+          await putLocalRecords(userId, [syncedRecord(userId, await getNoteById(resultId))]);
+        }
+      }
+    } else {
+      if (!record.deleted && isNoteLocked(remote)) {
+        throw new Error('The note was signed on another device. Add your changes as an addendum instead.');
+      }
+
+      // Push this device's version over the other one on the next sync
+      await putLocalRecords(userId, [{
+        ...record,
+        baseVersion: noteVersion(remote),
+        syncState: 'pending',
+        remote: undefined,
+      }]);
+      resultId = record.deleted ? null : id;
+    }
+
+    await refreshState(userId);
+    kickSync();
+    return resultId;
+  } catch (error) {
+    console.error('[noteSyncService] Error resolving conflict:', error);
+    throw new Error(`Failed to resolve conflict: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * IDs of every note on the device that matches the filters, newest first
+ */
+export async function getLocalNoteIds(filters: NoteFilters = {}): Promise<string[]> {
+  return (await getVisibleNotes(filters)).map(note => note.id);
+}
+
+/**
+ * Notes on the device with the given IDs, newest first
+ */
+export async function getLocalNotesById(ids: string[]): Promise<Note[]> {
+  const selected = new Set(ids);
+  return (await getVisibleNotes()).filter(note => selected.has(note.id));
+}
+
+/**
+ * Edit many notes at once, straight in Supabase so the edit is one batched
+ * operation instead of a push per note
+ * @param edit - Changes for a note, or null to leave it as it is
+ */
+export async function bulkEditNotes(
+  ids: string[],
+  edit: (note: Note) => Partial<Note> | null,
+  onProgress?: BulkProgressListener
+): Promise<BulkResult> {
+  try {
+    const userId = requireUserId();
+    const records = await getBulkRecords(userId, ids);
+
+    const editable = records.filter(record => !isNoteLocked(record.note));
+    // Notes the edit leaves as they are count as neither changed nor skipped
+    const updates = editable
+      .map(record => ({ record, changes: pickEditableFields(edit(record.note) || {}) }))
+      .filter(({ record, changes }) => (Object.keys(changes) as (keyof Note)[]).some(field =>
+        JSON.stringify(changes[field]) !== JSON.stringify(record.note[field])
+      ));
+
+    let changed = 0;
+    await runInBatches(updates, ({ record }) => record.id, onProgress, async batch => {
+      const saved = await updateNotes(batch.map(({ record, changes }) => ({
+        id: record.id,
+        changes,
+        baseVersion: record.baseVersion,
+      })));
+
+      // A note edited on this device meanwhile keeps its edit; pushing it later finds the conflict
+      const current = await Promise.all(saved.map(note => getLocalRecord(userId, note.id)));
+      await putLocalRecords(userId, saved
+        .filter((_, index) => current[index]?.syncState === 'synced')
+        .map(note => syncedRecord(userId, note)));
+      changed += saved.length;
+    });
+
+    await refreshState(userId);
+    return { changed, skipped: ids.length - editable.length + updates.length - changed };
+  } catch (error) {
+    console.error('[noteSyncService] Error editing notes:', error);
+    throw new Error(`Failed to update notes: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Delete many notes at once, straight in Supabase like bulkEditNotes
+ */
+export async function bulkRemoveNotes(ids: string[], onProgress?: BulkProgressListener): Promise<BulkResult> {
+  try {
+    const userId = requireUserId();
+    const records = await getBulkRecords(userId, ids);
+
+    let changed = 0;
+    await runInBatches(records, record => record.id, onProgress, async batch => {
+      const deletedIds = await deleteNotes(batch.map(record => record.id));
+      await removeLocalRecords(userId, deletedIds);
+      changed += deletedIds.length;
+    });
+
+    await refreshState(userId);
+    return { changed, skipped: ids.length - changed };
+  } catch (error) {
+    console.error('[noteSyncService] Error deleting notes:', error);
+    throw new Error(`Failed to delete notes: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Listen for sync state changes. The listener is called straight away with the current state.
+ * @returns Function that removes the listener
+ */
+export function subscribeToNoteSync(listener: NoteSyncListener): () => void {
+  listeners.add(listener);
+  listener(syncState);
+
+  const userId = getAuth().currentUser?.uid;
+  if (userId) {
+    refreshState(userId).catch(error => console.error('[noteSyncService] Error reading sync state:', error));
+  }
+
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Push local changes and pull remote ones. Calls made while a sync is in
+ * progress share it.
+ */
+export function syncNotes(): Promise<void> {
+  if (!activeSync) {
+    activeSync = runSync().finally(() => {
+      activeSync = null;
+    });
+  }
+
+  return activeSync;
+}
+
+/**
+ * Keep syncing while the app is open: live through Supabase Realtime, and as
+ * a fallback periodically, when the app returns to the foreground and, on
+ * web, when the browser comes back online.
+ * @returns Function that stops syncing
+ */
+export function startNoteSync(): () => void {
+  kickSync();
+
+  let stopRealtime: (() => void) | null = null;
+  try {
+    // A full sync on each (re)connect catches up on changes missed while disconnected
+    stopRealtime = subscribeToNoteChanges(change => {
+      handleRemoteChange(change).catch(error => {
+        console.error('[noteSyncService] Error applying live update:', error);
+      });
+    }, kickSync);
+  } catch (error) {
+    console.warn('[noteSyncService] Live note updates are unavailable:', error);
+  }
+
+  const interval = setInterval(kickSync, SYNC_INTERVAL_MS);
+  const appStateSubscription = AppState.addEventListener('change', state => {
+    if (state === 'active') kickSync();
+  });
+
+  if (isWeb && typeof window !== 'undefined') {
+    window.addEventListener('online', kickSync);
+  }
+
+  return () => {
+    clearInterval(interval);
+    appStateSubscription.remove();
+    stopRealtime?.();
+
+    if (isWeb && typeof window !== 'undefined') {
+      window.removeEventListener('online', kickSync);
+    }
+  };
+}
+
+/**
+ * Start a sync without waiting for it
+ */
+function kickSync(): void {
+  syncNotes().catch(error => {
+    console.error('[noteSyncService] Sync failed:', error);
+  });
+}
+
+async function handleRemoteChange(change: NoteChange): Promise<void> {
+  const userId = getAuth().currentUser?.uid;
+  if (!userId) return;
+
+  const noteId = change.type === 'upsert' ? change.note.id : change.noteId;
+  if (pushingNoteIds.has(noteId)) return;
+
+  const changed = change.type === 'upsert'
+    ? await applyRemoteNote(userId, change.note)
+    : await applyRemoteDeletion(userId, noteId);
+
+  if (changed) {
+    await refreshState(userId, { lastRemoteChange: { noteId, at: new Date().toISOString() } });
+  }
+}
+
+async function runSync(): Promise<void> {
+  const userId = getAuth().currentUser?.uid;
+  if (!userId) return;
+
+  if (!(await isOnline())) {
+    await refreshState(userId, { online: false });
+    return;
+  }
+
+  setState({ syncing: true, online: true });
+
+  try {
+    const pushError = await pushChanges(userId);
+    await pullChanges(userId);
+    await refreshState(userId, { lastSyncedAt: new Date().toISOString(), lastError: pushError });
+  } catch (error) {
+    console.error('[noteSyncService] Sync failed:', error);
+    await refreshState(userId, { lastError: error instanceof Error ? error.message : String(error) });
+  } finally {
+    setState({ syncing: false });
+  }
+}
+
+/**
+ * Send each pending change to Supabase, unless the note changed there too
+ * @returns The first error, if any change could not be pushed
+ */
+async function pushChanges(userId: string): Promise<string | null> {
+  let firstError: string | null = null;
+  const pending = (await getLocalRecords(userId)).filter(record => record.syncState === 'pending');
+
+  for (const pendingRecord of pending) {
+    let record = pendingRecord;
+    pushingNoteIds.add(record.id);
+
+    try {
+      // A note in the trash elsewhere counts as deleted
+      const found = await findNoteById(record.id);
+      const remote = found && !found.deletedAt ? found : null;
+
+      if (!remote && record.deleted) {
+        await removeLocalRecords(userId, [record.id]);
+        continue;
+      }
+
+      if (record.baseVersion === NEW_NOTE_VERSION) {
+        if (!found) {
+          await saveNote(record.note, { id: record.id });
+          await settlePushedRecord(userId, record, await getNoteById(record.id));
+          continue;
+        }
+        // An earlier push saved it but this device never heard back
+        record = { ...record, baseVersion: noteVersion(found) };
+      }
+
+      const remoteChanged = !remote || noteVersion(remote) !== record.baseVersion;
+      if (remoteChanged || (!record.deleted && isNoteLocked(remote))) {
+        await putLocalRecords(userId, [{ ...record, syncState: 'conflict', remote }]);
+        continue;
+      }
+
+      if (record.deleted) {
+        await deleteNote(record.id);
+        await removeLocalRecords(userId, [record.id]);
+        continue;
+      }
+
+      await settlePushedRecord(userId, record, await updateNote(record.id, pickEditableFields(record.note)));
+    } catch (error) {
+      console.warn(`[noteSyncService] Could not push note ${record.id}:`, error);
+      firstError = firstError || (error instanceof Error ? error.message : String(error));
+    } finally {
+      pushingNoteIds.delete(record.id);
+    }
+  }
+
+  return firstError;
+}
+
+/**
+ * Mark a pushed record as synced with the note Supabase saved. Another edit
+ * may have been made on this device while it was pushed; that one stays pending.
+ */
+async function settlePushedRecord(userId: string, record: LocalNoteRecord, saved: Note): Promise<void> {
+  const current = await getLocalRecord(userId, record.id);
+  if (current && current.note !== record.note) {
+    await putLocalRecords(userId, [{ ...current, baseVersion: noteVersion(saved) }]);
+  } else {
+    await putLocalRecords(userId, [syncedRecord(userId, saved)]);
+  }
+}
+
+/**
+ * Bring in notes changed or deleted elsewhere since the last pull
+ */
+async function pullChanges(userId: string): Promise<void> {
+  const notesCursorKey = `notesPulledAt:${userId}`;
+  const tombstonesCursorKey = `tombstonesPulledAt:${userId}`;
+
+  const since = await getSyncMeta(notesCursorKey);
+  const remoteNotes = await getNotesChangedSince(since);
+
+  for (const remote of remoteNotes) {
+    await applyRemoteNote(userId, remote);
+  }
+
+  // A full pull also drops notes deleted before tombstones were recorded
+  if (!since) {
+    const remoteIds = new Set(remoteNotes.map(note => note.id));
+    const missing = (await getLocalRecords(userId))
+      .filter(record => record.syncState === 'synced' && !remoteIds.has(record.id))
+      .map(record => record.id);
+    await removeLocalRecords(userId, missing);
+  }
+
+  const tombstonesSince = await getSyncMeta(tombstonesCursorKey);
+  let tombstones: NoteTombstone[] = [];
+  try {
+    tombstones = await getNoteTombstonesSince(tombstonesSince);
+  } catch (error) {
+    console.warn('[noteSyncService] Could not load deleted notes:', error);
+  }
+
+  for (const tombstone of tombstones) {
+    await applyRemoteDeletion(userId, tombstone.noteId);
+  }
+
+  const latestNote = latestTimestamp(remoteNotes.map(noteVersion));
+  if (latestNote) await setSyncMeta(notesCursorKey, latestNote);
+
+  const latestTombstone = latestTimestamp(tombstones.map(tombstone => tombstone.deletedAt));
+  if (latestTombstone) await setSyncMeta(tombstonesCursorKey, latestTombstone);
+}
+
+/**
+ * Take in the Supabase copy of a note. If the note has local changes that
+ * were not based on it, it becomes a conflict. A note moved to the trash
+ * there is taken in as a deletion.
+ * @returns Whether the device copy changed
+ */
+async function applyRemoteNote(userId: string, remote: Note): Promise<boolean> {
+  if (remote.deletedAt) return applyRemoteDeletion(userId, remote.id);
+
+  const current = await getLocalRecord(userId, remote.id);
+  if (current && noteVersion(remote) === current.baseVersion) return false;
+
+  if (current && current.syncState !== 'synced') {
+    await putLocalRecords(userId, [{ ...current, syncState: 'conflict', remote }]);
+  } else {
+    await putLocalRecords(userId, [syncedRecord(userId, remote)]);
+  }
+  return true;
+}
+
+/**
+ * Take in a note deleted elsewhere. Local changes to it make it a conflict.
+ * @returns Whether the device copy changed
+ */
+async function applyRemoteDeletion(userId: string, noteId: string): Promise<boolean> {
+  const current = await getLocalRecord(userId, noteId);
+  if (!current) return false;
+
+  if (current.syncState === 'synced' || (current.deleted && current.syncState === 'pending')) {
+    await removeLocalRecords(userId, [noteId]);
+  } else if (current.syncState === 'conflict' && current.remote === null) {
+    return false;
+  } else {
+    await putLocalRecords(userId, [{ ...current, syncState: 'conflict', remote: null }]);
+  }
+  return true;
+}
+
+/**
+ * The newest of the given times, moved back by the pull overlap
+ */
+function latestTimestamp(timestamps: string[]): string | null {
+  const latest = Math.max(...timestamps.map(timestamp => Date.parse(timestamp)).filter(time => !isNaN(time)));
+  return isFinite(latest) ? new Date(latest - PULL_OVERLAP_MS).toISOString() : null;
+}
+
+/**
+ * Device records of the notes a bulk action can change. Local changes are
+ * synced first; notes whose changes still have not reached Supabase are left out.
+ */
+async function getBulkRecords(userId: string, ids: string[]): Promise<LocalNoteRecord[]> {
+  if (!(await isOnline())) {
+    throw new Error('Changing several notes at once needs a connection. Try again when you are online.');
+  }
+
+  await syncNotes();
+
+  const selected = new Set(ids);
+  return (await getLocalRecords(userId)).filter(record =>
+    selected.has(record.id) && !record.deleted && record.syncState === 'synced'
+  );
+}
+
+/**
+ * Run a bulk action one batch at a time, reporting progress after each
+ */
+async function runInBatches<T>(
+  items: T[],
+  idOf: (item: T) => string,
+  onProgress: BulkProgressListener | undefined,
+  run: (batch: T[]) => Promise<void>
+): Promise<void> {
+  onProgress?.(0, items.length);
+
+  for (let start = 0; start < items.length; start += BULK_BATCH_SIZE) {
+    const batch = items.slice(start, start + BULK_BATCH_SIZE);
+    const batchIds = batch.map(idOf);
+    // Live updates for these notes are the bulk action's own echo
+    batchIds.forEach(id => pushingNoteIds.add(id));
+
+    try {
+      await run(batch);
+    } finally {
+      batchIds.forEach(id => pushingNoteIds.delete(id));
+    }
+    onProgress?.(Math.min(start + BULK_BATCH_SIZE, items.length), items.length);
+  }
+}
+
+async function getVisibleNotes(filters: NoteFilters = {}): Promise<Note[]> {
+  const notes = await getLocalNotesNewestFirst(requireUserId());
+  return notes.filter(note => matchesNoteFilters(note, filters));
+}
+
+/**
+ * Recompute pending changes and conflicts from the device records and notify listeners
+ */
+async function refreshState(userId: string, changes: Partial<NoteSyncState> = {}): Promise<void> {
+  const records = await getLocalRecords(userId);
+
+  setState({
+    ...changes,
+    pendingNoteIds: records.filter(record => record.syncState === 'pending').map(record => record.id),
+    conflicts: records
+      .filter(record => record.syncState === 'conflict')
+      .map(record => ({ id: record.id, local: record.deleted ? null : record.note, remote: record.remote ?? null })),
+  });
+}
+
+function setState(changes: Partial<NoteSyncState>): void {
+  syncState = { ...syncState, ...changes };
+  listeners.forEach(listener => listener(syncState));
+}
+
+function matchesAnyTerm(textWords: string[], terms: SearchTerms): boolean {
+  return [...terms.words, ...terms.phrases.flat()].some(word => textWords.some(textWord => textWord.startsWith(word)));
+}
+
+function requireUserId(): string {
+  const userId = getAuth().currentUser?.uid;
+  if (!userId) {
+    throw new Error('User not authenticated');
+  }
+  return userId;
+}
+
+/**
+ * Version of a Supabase note that local changes are based on
+ */
+function noteVersion(note: Note): string {
+  return note.updatedAt || note.createdAt || '';
+}
+
+function syncedRecord(userId: string, note: Note): LocalNoteRecord {
+  return {
+    id: note.id,
+    userId,
+    note,
+    baseVersion: noteVersion(note),
+    syncState: 'synced',
+    deleted: false,
+  };
+}
+
+/**
+ * A new local change keeps a conflict open; otherwise it is pending
+ */
+function nextSyncState(record: LocalNoteRecord): LocalNoteRecord['syncState'] {
+  return record.syncState === 'conflict' ? 'conflict' : 'pending';
+}
+
+function pickEditableFields(note: Partial<Note>): Partial<Note> {
+  const fields: Partial<Note> = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (note[field] !== undefined) {
+      (fields as Record<string, unknown>)[field] = note[field];
+    }
+  }
+  return fields;
+}
@@ -0,0 +1,281 @@
+// services/noteTemplates.ts
+import { NoteSection } from '../types';
+
+/**
+ * A heading that a note template asks for
+ */
+export interface NoteTemplateSection {
+  heading: string;
+  // What belongs in the section, passed to Gemini
+  instructions: string;
+  // Required sections are always written, as "Not documented" if the dictation has nothing for them
+  required: boolean;
+}
+
+/**
+ * A note format with mandated headings, e.g. a SOAP note or operative report
+ */
+export interface NoteTemplate {
+  // Stable identifier stored on notes as templateId
+  id: string;
+  // Human readable name shown in the template picker
+  name: string;
+  description: string;
+  // Sections in the order they appear in the note
+  sections: NoteTemplateSection[];
+  // Extra guidance for the note as a whole
+  instructions: string;
+  // Sample of a finished note, shown to Gemini as a style reference
+  exampleOutput?: string;
+  // Created by the user rather than built in
+  custom?: boolean;
+}
+
+export const DEFAULT_TEMPLATE_ID = 'general';
+
+// Registered templates in registration order
+const templates = new Map<string, NoteTemplate>();
+const listeners = new Set<(templates: NoteTemplate[]) => void>();
+
+/**
+ * Register a note template (replaces any template with the same id)
+ */
+export function registerNoteTemplate(template: NoteTemplate): void {
+  templates.set(template.id, template);
+  notifyListeners();
+}
+
+/**
+ * Remove a note template from the registry
+ */
+export function unregisterNoteTemplate(id: string): void {
+  if (templates.delete(id)) notifyListeners();
+}
+
+/**
+ * Listen for templates being registered or removed
+ * @returns Function that removes the listener
+ */
+export function subscribeToNoteTemplates(listener: (templates: NoteTemplate[]) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notifyListeners(): void {
+  const registered = getNoteTemplates();
+  listeners.forEach(listener => listener(registered));
+}
+
+/**
+ * Get a registered template by id
+ */
+export function getNoteTemplate(id: string): NoteTemplate | undefined {
+  return templates.get(id);
+}
+
+/**
+ * Get all registered templates in registration order
+ */
+export function getNoteTemplates(): NoteTemplate[] {
+  return Array.from(templates.values());
+}
+
+/**
+ * Get a template by id, falling back to the general template for unknown ids
+ */
+export function resolveNoteTemplate(id?: string | null): NoteTemplate {
+  return (id && templates.get(id)) || (templates.get(DEFAULT_TEMPLATE_ID) as NoteTemplate);
+}
+
+/**
+ * Normalise a heading for comparison, so "Plan:" matches "PLAN"
+ */
+export function normalizeHeading(heading: string): string {
+  return heading.replace(/[:#*]/g, ' ').replace(/\s+/g, ' ').trim().toUpperCase();
+}
+
+/**
+ * Split note markdown into its `## HEADING` sections. Text before the first
+ * heading becomes a section with an empty heading.
+ */
+export function splitNoteSections(content: string): NoteSection[] {
+  const sections: NoteSection[] = [];
+  let current: NoteSection = { heading: '', content: '' };
+
+  for (const line of content.split('\n')) {
+    const match = line.match(/^#{1,3}\s+(.+?)\s*$/);
+
+    if (match) {
+      if (current.heading || current.content.trim()) sections.push(current);
+      current = { heading: match[1], content: '' };
+    } else {
+      current.content += `${line}\n`;
+    }
+  }
+
+  if (current.heading || current.content.trim()) sections.push(current);
+
+  return sections.map(section => ({ heading: section.heading, content: section.content.trim() }));
+}
+
+/**
+ * Turn sections back into note markdown, the inverse of splitNoteSections
+ */
+export function joinNoteSections(sections: NoteSection[]): string {
+  return sections
+    .filter(section => section.heading.trim() || section.content.trim())
+    .map(section => section.heading.trim()
+      ? `## ${section.heading.trim()}\n\n${section.content.trim()}`
+      : section.content.trim())
+    .join('\n\n');
+}
+
+/**
+ * Put sections in template order, using the template's spelling of each
+ * heading. Sections the template does not know keep their order at the end.
+ */
+export function orderSectionsByTemplate(sections: NoteSection[], template: NoteTemplate): NoteSection[] {
+  const positions = new Map(template.sections.map((section, index) => [normalizeHeading(section.heading), index]));
+
+  return sections
+    .map((section, index) => {
+      const position = positions.get(normalizeHeading(section.heading));
+      return {
+        section: position === undefined ? section : { ...section, heading: template.sections[position].heading },
+        order: position === undefined ? template.sections.length + index : position,
+      };
+    })
+    .sort((a, b) => a.order - b.order)
+    .map(entry => entry.section);
+}
+
+const templateSection = (heading: string, instructions: string, required = false): NoteTemplateSection => ({
+  heading,
+  instructions,
+  required,
+});
+
+registerNoteTemplate({
+  id: DEFAULT_TEMPLATE_ID,
+  name: 'General Note',
+  description: 'Free-form clinical note with the sections the dictation supports',
+  sections: [
+    templateSection('PATIENT', 'Demographics and identifying information'),
+    templateSection('PROCEDURE/ASSESSMENT', 'Type of procedure or assessment being performed'),
+    templateSection('HISTORY', 'Relevant medical history and presenting symptoms'),
+    templateSection('PHYSICAL EXAMINATION', 'Objective findings'),
+    templateSection('PROCEDURE DETAILS', 'For surgical/procedural notes'),
+    templateSection('ASSESSMENT', 'Clinical impression and diagnoses'),
+    templateSection('PLAN', 'Treatment recommendations, medications, follow-up'),
+  ],
+  instructions: 'Only include sections that are relevant to the dictation.',
+});
+
+registerNoteTemplate({
+  id: 'soap',
+  name: 'SOAP Note',
+  description: 'Subjective, objective, assessment and plan',
+  sections: [
+    templateSection('SUBJECTIVE', 'Presenting complaint and history in the patient\'s words, symptoms, relevant history', true),
+    templateSection('OBJECTIVE', 'Vital signs, examination findings, results of investigations', true),
+    templateSection('ASSESSMENT', 'Diagnoses or differential diagnoses with reasoning', true),
+    templateSection('PLAN', 'Investigations, treatment, medications, referrals and follow-up', true),
+  ],
+  instructions: 'Keep each section brief and clinical.',
+});
+
+registerNoteTemplate({
+  id: 'operative',
+  name: 'Operative Report',
+  description: 'Surgical procedure documentation',
+  sections: [
+    templateSection('PREOPERATIVE DIAGNOSIS', 'Diagnosis before the operation', true),
+    templateSection('POSTOPERATIVE DIAGNOSIS', 'Diagnosis after the operation, "Same" if unchanged', true),
+    templateSection('PROCEDURE', 'Name of the procedure(s) performed', true),
+    templateSection('SURGEON', 'Operating surgeon'),
+    templateSection('ASSISTANT', 'Assisting surgeons'),
+    templateSection('ANESTHESIA', 'Type of anesthesia', true),
+    templateSection('INDICATIONS', 'Why the procedure was performed'),
+    templateSection('FINDINGS', 'Intraoperative findings', true),
+    templateSection('DESCRIPTION OF PROCEDURE', 'Step-by-step account from positioning to closure', true),
+    templateSection('ESTIMATED BLOOD LOSS', 'Volume in mL', true),
+    templateSection('SPECIMENS', 'Specimens sent to pathology'),
+    templateSection('DRAINS', 'Drains left in place'),
+    templateSection('COMPLICATIONS', 'Intraoperative complications, "None" if none were mentioned', true),
+    templateSection('DISPOSITION', 'Where the patient went after the operation and in what condition'),
+  ],
+  instructions: 'Write the description of procedure in the past tense and in chronological order.',
+});
+
+registerNoteTemplate({
+  id: 'history-physical',
+  name: 'History & Physical',
+  description: 'Admission or new patient history and examination',
+  sections: [
+    templateSection('CHIEF COMPLAINT', 'Main reason for the visit, in brief', true),
+    templateSection('HISTORY OF PRESENT ILLNESS', 'Onset, duration, character and course of the complaint', true),
+    templateSection('PAST MEDICAL HISTORY', 'Chronic conditions and previous illnesses'),
+    templateSection('PAST SURGICAL HISTORY', 'Previous operations'),
+    templateSection('MEDICATIONS', 'Current medications with doses'),
+    templateSection('ALLERGIES', 'Drug and other allergies, "NKDA" if none were mentioned', true),
+    templateSection('SOCIAL HISTORY', 'Smoking, alcohol, occupation, living situation'),
+    templateSection('FAMILY HISTORY', 'Relevant conditions in the family'),
+    templateSection('REVIEW OF SYSTEMS', 'Pertinent positives and negatives by system'),
+    templateSection('PHYSICAL EXAMINATION', 'Vital signs and examination findings by system', true),
+    templateSection('ASSESSMENT', 'Clinical impression and differential diagnosis', true),
+    templateSection('PLAN', 'Investigations, treatment and disposition', true),
+  ],
+  instructions: '',
+});
+
+registerNoteTemplate({
+  id: 'consult',
+  name: 'Consultation',
+  description: 'Specialist opinion requested by another team',
+  sections: [
+    templateSection('REASON FOR CONSULTATION', 'Question asked by the referring team', true),
+    templateSection('REQUESTING PHYSICIAN', 'Who requested the consultation'),
+    templateSection('HISTORY OF PRESENT ILLNESS', 'History relevant to the question', true),
+    templateSection('RELEVANT HISTORY', 'Past medical and surgical history, medications, allergies'),
+    templateSection('EXAMINATION', 'Examination findings', true),
+    templateSection('INVESTIGATIONS', 'Relevant laboratory and imaging results'),
+    templateSection('IMPRESSION', 'Consultant\'s assessment', true),
+    templateSection('RECOMMENDATIONS', 'Numbered recommendations for the referring team', true),
+  ],
+  instructions: 'Address the referring team\'s question directly.',
+});
+
+registerNoteTemplate({
+  id: 'discharge',
+  name: 'Discharge Summary',
+  description: 'Summary of a hospital stay for the patient and their GP',
+  sections: [
+    templateSection('ADMISSION DATE', 'Date of admission'),
+    templateSection('DISCHARGE DATE', 'Date of discharge'),
+    templateSection('ADMITTING DIAGNOSIS', 'Diagnosis on admission', true),
+    templateSection('DISCHARGE DIAGNOSIS', 'Final diagnoses', true),
+    templateSection('HOSPITAL COURSE', 'Summary of the stay, treatment and response', true),
+    templateSection('PROCEDURES PERFORMED', 'Operations and procedures during the stay'),
+    templateSection('CONDITION AT DISCHARGE', 'Clinical state when discharged', true),
+    templateSection('DISCHARGE MEDICATIONS', 'Medications with doses, noting any changes', true),
+    templateSection('DISCHARGE INSTRUCTIONS', 'Activity, diet, wound care and warning signs', true),
+    templateSection('FOLLOW-UP', 'Appointments and pending results', true),
+  ],
+  instructions: 'Write for a reader who was not involved in the admission.',
+});
+
+registerNoteTemplate({
+  id: 'progress',
+  name: 'Progress Note',
+  description: 'Daily ward round or follow-up visit',
+  sections: [
+    templateSection('INTERVAL HISTORY', 'Events and symptoms since the last review', true),
+    templateSection('EXAMINATION', 'Vital signs and focused examination', true),
+    templateSection('RESULTS', 'New laboratory and imaging results'),
+    templateSection('ASSESSMENT', 'Current status of each active problem', true),
+    templateSection('PLAN', 'Plan for each active problem', true),
+  ],
+  instructions: 'Organise the assessment and plan by problem when several are discussed.',
+});
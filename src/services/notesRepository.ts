@@ -0,0 +1,994 @@
+// services/notesRepository.ts
+// Notes are stored and loaded here. Rows of the notes table are mapped to and
+// from the Note model in one place; other services that write to the table
+// (such as signing) use NOTES_TABLE and noteFromRow from this module.
+import { Note, NoteEdit, NoteFilters, NoteRevision, NoteRevisionReason, NoteSignature, NoteStatus } from '../types';
+import { getAuth } from 'firebase/auth';
+import {
+  RealtimeChannel,
+  RealtimePostgresInsertPayload,
+  RealtimePostgresUpdatePayload,
+  SupabaseClient,
+} from '@supabase/supabase-js';
+import { getSupabaseClient } from '../firebase/supabaseConfig';
+import { recordNoteRevision, recordNoteRevisions, hasNoteRevisions, getRevisionCounts } from './revisionService';
+import { isNoteLocked } from '../utils/noteStatus';
+import { parseSearchTerms, toTsQuery } from '../utils/searchQuery';
+import { createdRangeBounds } from '../utils/noteFilters';
+import { NoteCursor, cursorAfter } from '../utils/noteList';
+
+export const NOTES_TABLE = 'notes';
+const TOMBSTONES_TABLE = 'note_tombstones';
+const PAGE_SIZE = 20;
+// Rows fetched per request when syncing every change since a point in time
+const SYNC_BATCH_SIZE = 500;
+// Database function that ranks and highlights search results (see TROUBLESHOOTING.md)
+const SEARCH_FUNCTION = 'search_notes';
+const SEARCH_RESULT_LIMIT = 50;
+
+/**
+ * Record that a note was deleted, so other devices can drop their copy
+ */
+export interface NoteTombstone {
+  noteId: string;
+  deletedAt: string;
+}
+
+/**
+ * A note found by a search. The highlights mark matched terms with
+ * HIGHLIGHT_START and HIGHLIGHT_STOP from utils/searchQuery.
+ */
+export interface NoteSearchResult {
+  note: Note;
+  // Higher is a better match; 0 when the search was empty
+  rank: number;
+  titleHighlight: string;
+  // Excerpt of the content and transcription around the matches
+  contentHighlight: string;
+}
+
+/**
+ * One note's part of a bulk edit
+ */
+export interface NoteBatchUpdate {
+  id: string;
+  changes: Partial<Note>;
+  // updatedAt the change was made against; the note is skipped if it changed since
+  baseVersion?: string;
+}
+
+/**
+ * A change to the user's notes made elsewhere, as delivered by Supabase Realtime
+ */
+export type NoteChange =
+  | { type: 'upsert'; note: Note }
+  | { type: 'delete'; noteId: string };
+
+/**
+ * A row of the notes table. Columns are camelCase and quoted in SQL.
+ */
+export interface NoteRow {
+  id: string;
+  userId: string;
+  title: string | null;
+  content: string | null;
+  transcription: string | null;
+  procedureType: string | null;
+  tags: string[] | null;
+  date: string | null;
+  createdAt: string;
+  updatedAt: string | null;
+  duration: string | null;
+  audioFileUrl: string | null;
+  audioFileName: string | null;
+  templateId: string | null;
+  updatedBy: string | null;
+  editLog: NoteEdit[] | null;
+  status: NoteStatus | null;
+  signature: NoteSignature | null;
+  deletedAt: string | null;
+}
+
+// snake_case columns written by older versions, read until the rows are migrated
+interface LegacyNoteColumns {
+  user_id?: string | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+  procedure_type?: string | null;
+  audio_url?: string | null;
+}
+
+// Row returned by the search function
+interface SearchRow {
+  note: NoteRow & LegacyNoteColumns;
+  rank: number;
+  titleHighlight: string;
+  contentHighlight: string;
+}
+
+/**
+ * Map a notes row to a Note, filling in defaults for missing columns
+ */
+export function noteFromRow(row: NoteRow & LegacyNoteColumns): Note {
+  return {
+    id: row.id,
+    userId: row.userId || row.user_id || undefined,
+    title: row.title || '',
+    content: row.content || '',
+    transcription: row.transcription || '',
+    procedureType: row.procedureType || row.procedure_type || '',
+    tags: Array.isArray(row.tags) ? row.tags : [],
+    date: row.date || undefined,
+    createdAt: row.createdAt || row.created_at || undefined,
+    updatedAt: row.updatedAt || row.updated_at || undefined,
+    duration: row.duration || undefined,
+    audioFileUrl: row.audioFileUrl || row.audio_url || undefined,
+    audioFileName: row.audioFileName || undefined,
+    templateId: row.templateId || undefined,
+    updatedBy: row.updatedBy || undefined,
+    editLog: Array.isArray(row.editLog) ? row.editLog : [],
+    status: row.status || 'draft',
+    signature: row.signature || null,
+    deletedAt: row.deletedAt || null,
+  };
+}
+
+/**
+ * Map the given Note fields to columns. Fields that are not columns are dropped.
+ */
+export function noteToRow(note: Partial<Note>): Partial<NoteRow> {
+  const row: Partial<NoteRow> = {};
+  const assign = <K extends keyof NoteRow>(column: K, value: NoteRow[K] | undefined) => {
+    if (value !== undefined) row[column] = value;
+  };
+
+  assign('id', note.id);
+  assign('userId', note.userId);
+  assign('title', note.title);
+  assign('content', note.content);
+  assign('transcription', note.transcription);
+  assign('procedureType', note.procedureType);
+  assign('tags', note.tags);
+  assign('date', note.date);
+  assign('createdAt', note.createdAt);
+  assign('updatedAt', note.updatedAt);
+  assign('duration', note.duration);
+  assign('audioFileUrl', note.audioFileUrl);
+  assign('audioFileName', note.audioFileName);
+  assign('templateId', note.templateId);
+  assign('updatedBy', note.updatedBy);
+  assign('editLog', note.editLog);
+  assign('status', note.status);
+  assign('signature', note.signature);
+  assign('deletedAt', note.deletedAt);
+
+  return row;
+}
+
+/**
+ * Get current user ID from Firebase Auth
+ * @returns User ID or null if not authenticated
+ */
+function getCurrentUserId(): string | null {
+  const auth = getAuth();
+  return auth.currentUser?.uid || null;
+}
+
+/**
+ * Save a new note to Supabase
+ * @param options.id - ID to save the note under, for notes created on a device first
+ */
+export async function saveNote(note: Note, options: { id?: string } = {}): Promise<string> {
+  try {
+    const supabase = await getSupabaseClient();
+    const userId = getCurrentUserId();
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    // Add user ID, timestamps and ensure required fields
+    const row: Partial<NoteRow> = {
+      ...(options.id ? { id: options.id } : {}),
+      userId,
+      title: note.title || 'Untitled Note',
+      content: note.content || '',
+      transcription: note.transcription || '',
+      procedureType: note.procedureType || '',
+      createdAt: note.createdAt || new Date().toISOString(),
+      tags: Array.isArray(note.tags) ? note.tags : [],
+      duration: note.duration || null,
+      templateId: note.templateId || null,
+      status: 'draft'
+    };
+
+    // Add note to Supabase
+    const { data, error } = await supabase
+      .from(NOTES_TABLE)
+      .insert(row)
+      .select();
+
+    if (error) throw error;
+
+    const savedRow = data?.[0] as NoteRow | undefined;
+    if (!savedRow) return '';
+
+    // Keep the AI output as revision 1. If this fails the first edit records it instead.
+    try {
+      await recordNoteRevision(noteFromRow(savedRow), { reason: 'created', changedFields: [] });
+    } catch (revisionError) {
+      console.warn('Could not record the first revision of the note:', revisionError);
+    }
+
+    return savedRow.id;
+  } catch (error) {
+    console.error('Error saving note to Supabase:', error);
+    throw new Error(`Failed to save note: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Options for recording why a note was updated
+ */
+export interface UpdateNoteOptions {
+  reason?: NoteRevisionReason;
+  restoredFrom?: number;
+}
+
+/**
+ * Update an existing note in Supabase, recording who changed which fields
+ * and storing the result as a new revision
+ * @returns The note as saved
+ */
+export async function updateNote(id: string, noteData: Partial<Note>, options: UpdateNoteOptions = {}): Promise<Note> {
+  try {
+    const supabase = await getSupabaseClient();
+    const userId = getCurrentUserId();
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    // Verify ownership
+    const { data: existingRow, error: fetchError } = await supabase
+      .from(NOTES_TABLE)
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (fetchError) throw fetchError;
+    if (!existingRow) throw new Error('Note not found');
+
+    const existingNote = noteFromRow(existingRow);
+    if (existingNote.userId !== userId) throw new Error('Not authorized to update this note');
+
+    if (existingNote.deletedAt) {
+      throw new Error('The note is in the trash. Restore it before editing it.');
+    }
+    if (isNoteLocked(existingNote)) {
+      throw new Error('The note is signed and can no longer be edited. Add an addendum instead.');
+    }
+
+    // Fields that identify or audit the note cannot be changed by callers;
+    // status and signature go through noteSigningService, deletedAt through
+    // deleteNote and trashService
+    const {
+      id: _id, userId: _userId, createdAt, updatedAt, updatedBy, editLog,
+      status, signature, deletedAt, ...changes
+    } = noteToRow(noteData);
+    const changedFields = (Object.keys(changes) as (keyof typeof changes)[]).filter(field =>
+      JSON.stringify(changes[field]) !== JSON.stringify(existingNote[field])
+    );
+
+    // Notes saved before revisions existed get their current state recorded first
+    if (!(await hasNoteRevisions(id))) {
+      await recordNoteRevision(existingNote, {
+        reason: 'created',
+        changedFields: [],
+        userId: existingNote.userId,
+        createdAt: existingNote.updatedAt || existingNote.createdAt,
+      });
+    }
+
+    const now = new Date().toISOString();
+    const user = getAuth().currentUser;
+    const edit: NoteEdit = {
+      at: now,
+      by: userId,
+      byName: user?.displayName || user?.email || undefined,
+      fields: changedFields,
+    };
+
+    // Update the note with new data
+    const { data, error } = await supabase
+      .from(NOTES_TABLE)
+      .update({
+        ...changes,
+        updatedAt: now,
+        updatedBy: userId,
+        editLog: [...(existingNote.editLog || []), edit]
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    const savedNote = noteFromRow(data);
+    await recordNoteRevision(savedNote, {
+      reason: options.reason || 'edited',
+      changedFields,
+      restoredFrom: options.restoredFrom,
+    });
+
+    return savedNote;
+  } catch (error) {
+    console.error('Error updating note in Supabase:', error);
+    throw new Error(`Failed to update note: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Put a note back to an earlier revision. The restore is saved as a new
+ * revision, so the revisions in between stay in the history.
+ */
+export async function restoreNoteRevision(revision: NoteRevision): Promise<Note> {
+  return updateNote(
+    revision.noteId,
+    {
+      title: revision.title,
+      content: revision.content,
+      procedureType: revision.procedureType,
+      tags: revision.tags,
+    },
+    { reason: 'restored', restoredFrom: revision.revisionNumber }
+  );
+}
+
+/**
+ * Get a page of notes from Supabase, newest first, optionally only those
+ * matching the filters. Pages are keyed on (createdAt, id), so notes added
+ * while paging do not shift later pages.
+ * @param cursor - Where the previous page ended; null for the first page
+ */
+export async function getNotes(
+  cursor: NoteCursor | null = null,
+  limitCount: number = PAGE_SIZE,
+  filters: NoteFilters = {}
+): Promise<{notes: Note[], nextCursor: NoteCursor | null}> {
+  try {
+    const userId = getCurrentUserId();
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    let query = selectFilteredNotes(await getSupabaseClient(), userId, filters, '*');
+
+    if (cursor) {
+      query = query.or(
+        `createdAt.lt."${cursor.createdAt}",and(createdAt.eq."${cursor.createdAt}",id.lt."${cursor.id}")`
+      );
+    }
+
+    // One extra row tells whether there is another page without counting
+    const { data, error } = await query
+      .order('createdAt', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limitCount + 1);
+
+    if (error) throw error;
+
+    const rows = data || [];
+    const notes = rows.slice(0, limitCount).map(noteFromRow);
+
+    return {
+      notes,
+      nextCursor: rows.length > limitCount ? cursorAfter(notes[notes.length - 1]) : null,
+    };
+  } catch (error) {
+    console.error('Error getting notes from Supabase:', error);
+    throw new Error(`Failed to fetch notes: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Count the notes matching the filters, without loading them
+ */
+export async function countNotes(filters: NoteFilters = {}): Promise<number> {
+  try {
+    const userId = getCurrentUserId();
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    const { count, error } = await selectFilteredNotes(await getSupabaseClient(), userId, filters, 'id', { count: 'exact', head: true });
+
+    if (error) throw error;
+
+    return count || 0;
+  } catch (error) {
+    console.error('Error counting notes in Supabase:', error);
+    throw new Error(`Failed to count notes: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Query on the user's notes narrowed by the filters
+ */
+function selectFilteredNotes(
+  supabase: SupabaseClient,
+  userId: string,
+  filters: NoteFilters,
+  columns: '*' | 'id',
+  options?: { count: 'exact'; head: boolean }
+) {
+  // Notes in the trash are only listed by trashService
+  let query = supabase
+    .from(NOTES_TABLE)
+    .select(columns, options)
+    .eq('userId', userId)
+    .is('deletedAt', null);
+
+  const { start, end } = createdRangeBounds(filters);
+  if (start) query = query.gte('createdAt', start);
+  if (end) query = query.lt('createdAt', end);
+
+  if (filters.procedureTypes?.length) query = query.in('procedureType', filters.procedureTypes);
+  if (filters.templateIds?.length) query = query.in('templateId', filters.templateIds);
+  if (filters.includeTags?.length) query = query.filter('tags', 'cs', toPostgresArray(filters.includeTags));
+  for (const tag of filters.excludeTags || []) {
+    query = query.not('tags', 'cs', toPostgresArray([tag]));
+  }
+
+  if (filters.hasAudio !== undefined) {
+    query = filters.hasAudio ? query.not('audioFileUrl', 'is', null) : query.is('audioFileUrl', null);
+  }
+
+  if (filters.statuses?.length) {
+    // Notes saved before signing existed have no status and count as drafts
+    query = filters.statuses.includes('draft')
+      ? query.or(`status.is.null,status.in.(${filters.statuses.join(',')})`)
+      : query.in('status', filters.statuses);
+  }
+
+  return query;
+}
+
+/**
+ * Array literal for filters on array columns, with each value quoted so
+ * commas and braces in tags cannot break it
+ */
+function toPostgresArray(values: string[]): string {
+  return `{${values.map(value => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`).join(',')}}`;
+}
+
+/**
+ * Get a specific note by ID from Supabase
+ */
+export async function getNoteById(id: string): Promise<Note> {
+  try {
+    const supabase = await getSupabaseClient();
+    const userId = getCurrentUserId();
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from(NOTES_TABLE)
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+    if (!data) throw new Error('Note not found');
+
+    const note = noteFromRow(data);
+
+    // Verify ownership
+    if (note.userId !== userId) {
+      throw new Error('Not authorized to access this note');
+    }
+    if (note.deletedAt) throw new Error('Note not found');
+
+    return note;
+  } catch (error) {
+    console.error('Error getting note by ID from Supabase:', error);
+    throw new Error(`Failed to fetch note: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Get a note by ID, or null if it does not exist (any more). Notes in the
+ * trash are returned with their deletedAt set.
+ */
+export async function findNoteById(id: string): Promise<Note | null> {
+  try {
+    const supabase = await getSupabaseClient();
+    const userId = getCurrentUserId();
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from(NOTES_TABLE)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    const note = noteFromRow(data);
+    if (note.userId !== userId) {
+      throw new Error('Not authorized to access this note');
+    }
+
+    return note;
+  } catch (error) {
+    console.error('Error finding note in Supabase:', error);
+    throw new Error(`Failed to fetch note: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Get every note of the user created or updated at or after the given time,
+ * or all of them when no time is given. Changes include notes moved to the
+ * trash, with their deletedAt set; getting all of them leaves those out.
+ */
+export async function getNotesChangedSince(since: string | null): Promise<Note[]> {
+  try {
+    const supabase = await getSupabaseClient();
+    const userId = getCurrentUserId();
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    const notes: Note[] = [];
+    // Pages are keyed on (updatedAt, id). A note saved while paging moves to
+    // the end, so it is fetched again rather than skipped. Notes never updated
+    // since early versions have no updatedAt and come first.
+    let cursor: Pick<NoteRow, 'updatedAt' | 'id'> | null = null;
+    for (;;) {
+      let query = supabase
+        .from(NOTES_TABLE)
+        .select('*')
+        .eq('userId', userId);
+
+      if (since) {
+        query = query.or(`updatedAt.gte."${since}",createdAt.gte."${since}"`);
+      } else {
+        query = query.is('deletedAt', null);
+      }
+
+      if (cursor) {
+        query = query.or(cursor.updatedAt
+          ? `updatedAt.gt."${cursor.updatedAt}",and(updatedAt.eq."${cursor.updatedAt}",id.gt."${cursor.id}")`
+          : `and(updatedAt.is.null,id.gt."${cursor.id}"),updatedAt.not.is.null`);
+      }
+
+      const { data, error } = await query
+        .order('updatedAt', { ascending: true, nullsFirst: true })
+        .order('id', { ascending: true })
+        .limit(SYNC_BATCH_SIZE);
+
+      if (error) throw error;
+
+      const rows = (data || []) as NoteRow[];
+      notes.push(...rows.map(noteFromRow));
+      if (rows.length < SYNC_BATCH_SIZE) return notes;
+      cursor = rows[rows.length - 1];
+    }
+  } catch (error) {
+    console.error('Error getting changed notes from Supabase:', error);
+    throw new Error(`Failed to fetch changed notes: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Get the notes deleted at or after the given time
+ */
+export async function getNoteTombstonesSince(since: string | null): Promise<NoteTombstone[]> {
+  const supabase = await getSupabaseClient();
+  const userId = getCurrentUserId();
+  if (!userId) {
+    throw new Error('User not authenticated');
+  }
+
+  let query = supabase
+    .from(TOMBSTONES_TABLE)
+    .select('noteId, deletedAt')
+    .eq('userId', userId);
+
+  if (since) {
+    query = query.gte('deletedAt', since);
+  }
+
+  const { data, error } = await query.order('deletedAt', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch deleted notes: ${error.message}`);
+  }
+
+  return (data || []) as NoteTombstone[];
+}
+
+/**
+ * Listen for the user's notes being saved or deleted, including by other
+ * devices. Deletes arrive through tombstones, because Realtime cannot filter
+ * deleted rows by user.
+ * @param onSubscribed - Called each time the channel (re)connects; changes made
+ *   while it was disconnected are not replayed
+ * @returns Function that closes the subscription
+ */
+export function subscribeToNoteChanges(
+  onChange: (change: NoteChange) => void,
+  onSubscribed?: () => void
+): () => void {
+  const userId = getCurrentUserId();
+  if (!userId) {
+    throw new Error('User not authenticated');
+  }
+
+  // The client may still be initializing; closing before then skips the channel
+  let closed = false;
+  let channel: RealtimeChannel | null = null;
+
+  getSupabaseClient().then((supabase: SupabaseClient) => {
+    if (closed) return;
+
+    channel = supabase
+      .channel(`notes:${userId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: NOTES_TABLE, filter: `userId=eq.${userId}` },
+        (payload: RealtimePostgresInsertPayload<NoteRow>) => onChange({ type: 'upsert', note: noteFromRow(payload.new) })
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: NOTES_TABLE, filter: `userId=eq.${userId}` },
+        (payload: RealtimePostgresUpdatePayload<NoteRow>) => onChange({ type: 'upsert', note: noteFromRow(payload.new) })
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: TOMBSTONES_TABLE, filter: `userId=eq.${userId}` },
+        (payload: RealtimePostgresInsertPayload<NoteTombstone>) => onChange({ type: 'delete', noteId: payload.new.noteId })
+      )
+      .subscribe((status: string, error?: Error) => {
+        if (status === 'SUBSCRIBED') {
+          onSubscribed?.();
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          console.warn(`Realtime note updates ${status}:`, error);
+        }
+      });
+  }).catch((error: unknown) => console.warn('Realtime note updates unavailable:', error));
+
+  return () => {
+    closed = true;
+    const openChannel = channel;
+    if (openChannel) {
+      getSupabaseClient().then((supabase: SupabaseClient) => supabase.removeChannel(openChannel));
+    }
+  };
+}
+
+/**
+ * Move a note to the trash. It stays there until it is restored or purged
+ * (see trashService).
+ */
+export async function deleteNote(id: string): Promise<void> {
+  try {
+    const supabase = await getSupabaseClient();
+    const userId = getCurrentUserId();
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    // Verify ownership
+    await getNoteById(id);
+
+    // updatedAt changes too, so other devices pull the deletion like any other change
+    const now = new Date().toISOString();
+    const { error } = await supabase
+      .from(NOTES_TABLE)
+      .update({ deletedAt: now, updatedAt: now })
+      .eq('id', id);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error deleting note from Supabase:', error);
+    throw new Error(`Failed to delete note: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Apply a bulk edit to many notes with one request. Notes that are signed,
+ * no longer exist or changed since the edit was made are left alone.
+ * @returns The notes as saved
+ */
+export async function updateNotes(updates: NoteBatchUpdate[]): Promise<Note[]> {
+  try {
+    const supabase = await getSupabaseClient();
+    const userId = getCurrentUserId();
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+    if (updates.length === 0) return [];
+
+    const { data: existingRows, error: fetchError } = await supabase
+      .from(NOTES_TABLE)
+      .select('*')
+      .in('id', updates.map(update => update.id))
+      .eq('userId', userId);
+
+    if (fetchError) throw fetchError;
+
+    const existingNotes = new Map(((existingRows || []) as NoteRow[]).map(row => [row.id, noteFromRow(row)]));
+    const now = new Date().toISOString();
+    const user = getAuth().currentUser;
+    const changedFieldsById = new Map<string, string[]>();
+    const rows: Partial<NoteRow>[] = [];
+
+    for (const update of updates) {
+      const existingNote = existingNotes.get(update.id);
+      if (!existingNote || existingNote.deletedAt || isNoteLocked(existingNote)) continue;
+      if (update.baseVersion !== undefined && (existingNote.updatedAt || existingNote.createdAt) !== update.baseVersion) continue;
+
+      // Same restrictions as updateNote
+      const {
+        id: _id, userId: _userId, createdAt, updatedAt, updatedBy, editLog,
+        status, signature, deletedAt, ...changes
+      } = noteToRow(update.changes);
+      const changedFields = (Object.keys(changes) as (keyof typeof changes)[]).filter(field =>
+        JSON.stringify(changes[field]) !== JSON.stringify(existingNote[field])
+      );
+      if (changedFields.length === 0) continue;
+
+      const edit: NoteEdit = {
+        at: now,
+        by: userId,
+        byName: user?.displayName || user?.email || undefined,
+        fields: changedFields,
+      };
+      changedFieldsById.set(update.id, changedFields);
+      // Whole rows, so the upsert never inserts a partial note
+      rows.push({
+        ...noteToRow(existingNote),
+        ...changes,
+        updatedAt: now,
+        updatedBy: userId,
+        editLog: [...(existingNote.editLog || []), edit],
+      });
+    }
+
+    if (rows.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from(NOTES_TABLE)
+      .upsert(rows, { onConflict: 'id' })
+      .select();
+
+    if (error) throw error;
+
+    const savedNotes = ((data || []) as NoteRow[]).map(noteFromRow);
+
+    // The notes are saved either way; a missing revision only shortens their history
+    try {
+      const revisionCounts = await getRevisionCounts(savedNotes.map(note => note.id));
+      await recordNoteRevisions(savedNotes.flatMap(savedNote => {
+        const existingNote = existingNotes.get(savedNote.id)!;
+        const edited = { note: savedNote, details: { reason: 'edited' as const, changedFields: changedFieldsById.get(savedNote.id) || [] } };
+
+        // Notes saved before revisions existed get their current state recorded first
+        return revisionCounts.has(savedNote.id) ? [edited] : [
+          {
+            note: existingNote,
+            details: {
+              reason: 'created' as const,
+              changedFields: [],
+              userId: existingNote.userId,
+              createdAt: existingNote.updatedAt || existingNote.createdAt,
+            },
+          },
+          edited,
+        ];
+      }));
+    } catch (revisionError) {
+      console.warn('Could not record revisions for the edited notes:', revisionError);
+    }
+
+    return savedNotes;
+  } catch (error) {
+    console.error('Error updating notes in Supabase:', error);
+    throw new Error(`Failed to update notes: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Move many notes to the trash with one request
+ * @returns IDs of the notes that were moved
+ */
+export async function deleteNotes(ids: string[]): Promise<string[]> {
+  try {
+    const supabase = await getSupabaseClient();
+    const userId = getCurrentUserId();
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+    if (ids.length === 0) return [];
+
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from(NOTES_TABLE)
+      .update({ deletedAt: now, updatedAt: now })
+      .in('id', ids)
+      .eq('userId', userId)
+      .is('deletedAt', null)
+      .select('id');
+
+    if (error) throw error;
+
+    return ((data || []) as { id: string }[]).map(row => row.id);
+  } catch (error) {
+    console.error('Error deleting notes from Supabase:', error);
+    throw new Error(`Failed to delete notes: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Get the notes in the user's trash, most recently deleted first
+ */
+export async function getTrashedNotes(): Promise<Note[]> {
+  try {
+    const supabase = await getSupabaseClient();
+    const userId = getCurrentUserId();
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from(NOTES_TABLE)
+      .select('*')
+      .eq('userId', userId)
+      .not('deletedAt', 'is', null)
+      .order('deletedAt', { ascending: false });
+
+    if (error) throw error;
+
+    return ((data || []) as NoteRow[]).map(noteFromRow);
+  } catch (error) {
+    console.error('Error getting trashed notes from Supabase:', error);
+    throw new Error(`Failed to load the trash: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Take notes out of the trash
+ * @returns The notes as restored
+ */
+export async function restoreNotes(ids: string[]): Promise<Note[]> {
+  try {
+    const supabase = await getSupabaseClient();
+    const userId = getCurrentUserId();
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+    if (ids.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from(NOTES_TABLE)
+      .update({ deletedAt: null, updatedAt: new Date().toISOString() })
+      .in('id', ids)
+      .eq('userId', userId)
+      .not('deletedAt', 'is', null)
+      .select();
+
+    if (error) throw error;
+
+    return ((data || []) as NoteRow[]).map(noteFromRow);
+  } catch (error) {
+    console.error('Error restoring notes in Supabase:', error);
+    throw new Error(`Failed to restore notes: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Permanently delete notes that are in the trash
+ * @returns IDs of the notes that were deleted
+ */
+export async function purgeNotes(ids: string[]): Promise<string[]> {
+  try {
+    const supabase = await getSupabaseClient();
+    const userId = getCurrentUserId();
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+    if (ids.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from(NOTES_TABLE)
+      .delete()
+      .in('id', ids)
+      .eq('userId', userId)
+      .not('deletedAt', 'is', null)
+      .select('id');
+
+    if (error) throw error;
+
+    const purgedIds = ((data || []) as { id: string }[]).map(row => row.id);
+    if (purgedIds.length === 0) return [];
+
+    // Devices that were offline since the notes were trashed still hold a copy;
+    // without the tombstones they keep it until they sync in full
+    const deletedAt = new Date().toISOString();
+    const { error: tombstoneError } = await supabase
+      .from(TOMBSTONES_TABLE)
+      .insert(purgedIds.map(noteId => ({ noteId, userId, deletedAt })));
+
+    if (tombstoneError) {
+      console.warn('Could not record the deletions for other devices:', tombstoneError);
+    }
+
+    return purgedIds;
+  } catch (error) {
+    console.error('Error purging notes from Supabase:', error);
+    throw new Error(`Failed to delete notes permanently: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Full-text search over title, content, transcription and procedure type,
+ * best matches first. "Quoted phrases" match in order; other words match as
+ * prefixes. An empty search returns the most recent notes.
+ * @param signal - Cancels the request, e.g. when the search changes
+ */
+export async function searchNotes(keyword: string, signal?: AbortSignal): Promise<NoteSearchResult[]> {
+  try {
+    const supabase = await getSupabaseClient();
+    const userId = getCurrentUserId();
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    const query = toTsQuery(parseSearchTerms(keyword));
+
+    if (!query) {
+      let request = supabase
+        .from(NOTES_TABLE)
+        .select('*')
+        .eq('userId', userId)
+        .is('deletedAt', null)
+        .order('createdAt', { ascending: false })
+        .limit(PAGE_SIZE);
+      if (signal) request = request.abortSignal(signal);
+
+      const { data, error } = await request;
+
+      if (error) throw error;
+      return (data || []).map((row: NoteRow) => {
+        const note = noteFromRow(row);
+        return { note, rank: 0, titleHighlight: note.title || '', contentHighlight: note.content || '' };
+      });
+    }
+
+    let request = supabase.rpc(SEARCH_FUNCTION, {
+      owner_id: userId,
+      search_query: query,
+      result_limit: SEARCH_RESULT_LIMIT,
+    });
+    if (signal) request = request.abortSignal(signal);
+
+    const { data, error } = await request;
+
+    if (error) throw error;
+    return (data || [])
+      // The function leaves out trashed notes; this covers databases still running an older version of it
+      .filter((row: SearchRow) => !row.note.deletedAt)
+      .map((row: SearchRow) => ({
+        note: noteFromRow(row.note),
+        rank: row.rank,
+        titleHighlight: row.titleHighlight,
+        contentHighlight: row.contentHighlight,
+      }));
+  } catch (error) {
+    console.error('Error searching notes in Supabase:', error);
+    throw new Error(`Failed to search notes: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
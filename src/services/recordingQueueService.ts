@@ -0,0 +1,507 @@
+// services/recordingQueueService.ts
+import { AppState, Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { getAuth } from 'firebase/auth';
+import { transcribeAudio, Transcription } from './transcriptionService';
+import { generateMedicalNotes } from './geminiService';
+import { createNote } from './noteSyncService';
+import { isOnline } from '../utils/connectivity';
+import { Note } from '../types';
+
+const isWeb = Platform.OS === 'web';
+
+const QUEUE_STORAGE_KEY = 'recordingQueue';
+const NATIVE_QUEUE_DIRECTORY = `${FileSystem.documentDirectory}recording-queue/`;
+const WEB_DATABASE_NAME = 'medtranscribe-recording-queue';
+const WEB_STORE_NAME = 'recordings';
+const WEB_RECORDING_PREFIX = 'indexeddb:';
+
+// Failed attempts are retried after 30s, 1m, 2m, ... up to 30 minutes apart
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+const MAX_AUTOMATIC_ATTEMPTS = 8;
+// Transcribing the same audio again will not find speech in it, so this failure is not retried
+const EMPTY_TRANSCRIPT_ERROR = 'No text was transcribed';
+
+// How often due items are picked up while the app is open
+const QUEUE_POLL_INTERVAL_MS = 60 * 1000;
+
+export type QueuedRecordingStatus = 'pending' | 'processing' | 'failed' | 'completed';
+
+/**
+ * A recording waiting to be turned into a saved note. Items are only listed
+ * and processed while the user who recorded them is signed in.
+ */
+export interface QueuedRecording {
+  id: string;
+  // Firebase user who recorded it; the note is saved to their account only
+  userId: string;
+  // Persistent copy of the audio, removed once the note has been saved
+  fileUri: string | null;
+  fileName: string;
+  createdAt: string;
+  status: QueuedRecordingStatus;
+  attempts: number;
+  // When a failed item will be tried again, or null if it needs a manual retry
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  // Kept after a successful transcription so a retry only redoes note generation
+  transcription: Pick<Transcription, 'text' | 'duration'> | null;
+  // Note template to generate the note with
+  templateId?: string;
+  noteId: string | null;
+  completedAt: string | null;
+}
+
+export interface EnqueueRecordingOptions {
+  // Transcript already produced for the recording, if any
+  transcription?: Pick<Transcription, 'text' | 'duration'>;
+  templateId?: string;
+}
+
+export type RecordingQueueListener = (items: QueuedRecording[]) => void;
+
+let queueCache: QueuedRecording[] | null = null;
+let queueLoad: Promise<QueuedRecording[]> | null = null;
+let activeRun: Promise<void> | null = null;
+const listeners = new Set<RecordingQueueListener>();
+
+/**
+ * Add a recording to the queue. The audio is copied to storage that survives
+ * restarts, so the caller can delete its own temporary file afterwards.
+ * @param fileUri - Recording to transcribe and turn into a note
+ */
+export async function enqueueRecording(
+  fileUri: string,
+  { transcription, templateId }: EnqueueRecordingOptions = {}
+): Promise<QueuedRecording> {
+  try {
+    const userId = requireUserId();
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const fileName = `recording-${id}.${getFileExtension(fileUri)}`;
+    const storedUri = await persistAudio(fileUri, id, fileName);
+
+    const item: QueuedRecording = {
+      id,
+      userId,
+      fileUri: storedUri,
+      fileName,
+      createdAt: new Date().toISOString(),
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: null,
+      lastError: null,
+      transcription: transcription?.text ? { text: transcription.text, duration: transcription.duration } : null,
+      templateId,
+      noteId: null,
+      completedAt: null,
+    };
+
+    await updateQueue(items => [...items, item]);
+    console.log(`[recordingQueueService] Queued ${fileName}`);
+
+    kickQueue();
+    return item;
+  } catch (error) {
+    console.error('[recordingQueueService] Error queueing recording:', error);
+    throw new Error(`Failed to queue recording: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Get the signed-in user's queued recordings, oldest first
+ */
+export async function getQueuedRecordings(): Promise<QueuedRecording[]> {
+  try {
+    return ownItems(await loadQueue());
+  } catch (error) {
+    console.error('[recordingQueueService] Error reading queue:', error);
+    throw new Error(`Failed to read recording queue: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Listen for changes to the signed-in user's queued recordings. The listener
+ * is called straight away with the current items.
+ * @returns Function that removes the listener
+ */
+export function subscribeToRecordingQueue(listener: RecordingQueueListener): () => void {
+  listeners.add(listener);
+
+  loadQueue()
+    .then(items => {
+      if (listeners.has(listener)) listener(ownItems(items));
+    })
+    .catch(error => console.error('[recordingQueueService] Error reading queue:', error));
+
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Try a failed recording again straight away, with a fresh set of automatic retries
+ */
+export async function retryQueuedRecording(id: string): Promise<void> {
+  try {
+    const userId = requireUserId();
+    await updateQueue(items => items.map(item =>
+      item.id === id && item.userId === userId && item.status === 'failed'
+        ? { ...item, status: 'pending', attempts: 0, nextAttemptAt: null }
+        : item
+    ));
+
+    kickQueue();
+  } catch (error) {
+    console.error('[recordingQueueService] Error retrying recording:', error);
+    throw new Error(`Failed to retry recording: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Remove a recording from the queue and delete its audio
+ */
+export async function discardQueuedRecording(id: string): Promise<void> {
+  try {
+    const item = ownItems(await loadQueue()).find(queued => queued.id === id);
+    if (!item) return;
+
+    if (item.status === 'processing') {
+      throw new Error('The recording is being processed');
+    }
+
+    await deleteQueuedAudio(item);
+    await updateQueue(items => items.filter(queued => queued.id !== id));
+  } catch (error) {
+    console.error('[recordingQueueService] Error discarding recording:', error);
+    throw new Error(`Failed to discard recording: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Process every recording that is due, one at a time. Calls made while a run
+ * is in progress share it.
+ */
+export function processRecordingQueue(): Promise<void> {
+  if (!activeRun) {
+    activeRun = runQueue().finally(() => {
+      activeRun = null;
+    });
+  }
+
+  return activeRun;
+}
+
+/**
+ * Keep processing the queue while the app is open: periodically, when the app
+ * returns to the foreground and, on web, when the browser comes back online.
+ * @returns Function that stops the background processing
+ */
+export function startRecordingQueue(): () => void {
+  kickQueue();
+
+  const interval = setInterval(kickQueue, QUEUE_POLL_INTERVAL_MS);
+  const appStateSubscription = AppState.addEventListener('change', state => {
+    if (state === 'active') kickQueue();
+  });
+
+  if (isWeb && typeof window !== 'undefined') {
+    window.addEventListener('online', kickQueue);
+  }
+
+  return () => {
+    clearInterval(interval);
+    appStateSubscription.remove();
+
+    if (isWeb && typeof window !== 'undefined') {
+      window.removeEventListener('online', kickQueue);
+    }
+  };
+}
+
+/**
+ * Start processing without waiting for it
+ */
+function kickQueue(): void {
+  processRecordingQueue().catch(error => {
+    console.error('[recordingQueueService] Queue processing failed:', error);
+  });
+}
+
+async function runQueue(): Promise<void> {
+  if (!getAuth().currentUser || !(await isOnline())) return;
+
+  while (true) {
+    const now = Date.now();
+    const next = ownItems(await loadQueue()).find(item =>
+      item.status === 'pending' ||
+      (item.status === 'failed' && item.nextAttemptAt !== null && Date.parse(item.nextAttemptAt) <= now)
+    );
+
+    if (!next) return;
+
+    const keepGoing = await attemptRecording(next);
+    if (!keepGoing) return;
+  }
+}
+
+/**
+ * Run one attempt at a queued recording and record the outcome
+ * @returns false if the device went offline and the run should stop
+ */
+async function attemptRecording(item: QueuedRecording): Promise<boolean> {
+  await updateItem(item.id, { status: 'processing' });
+
+  try {
+    const { noteId, transcription } = await createNoteFromRecording(item);
+
+    await deleteQueuedAudio(item);
+    await updateItem(item.id, {
+      status: 'completed',
+      fileUri: null,
+      transcription,
+      noteId,
+      lastError: null,
+      nextAttemptAt: null,
+      completedAt: new Date().toISOString(),
+    });
+
+    console.log(`[recordingQueueService] Saved note ${noteId} from ${item.fileName}`);
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    // The user signed out or switched accounts meanwhile; the item waits for its owner
+    if (getAuth().currentUser?.uid !== item.userId) {
+      await updateItem(item.id, { status: 'pending', lastError: message });
+      return false;
+    }
+
+    // Losing the connection is not the recording's fault, so it does not use up a retry
+    if (!(await isOnline())) {
+      console.log(`[recordingQueueService] Offline, keeping ${item.fileName} for later`);
+      await updateItem(item.id, { status: 'pending', lastError: message });
+      return false;
+    }
+
+    const attempts = item.attempts + 1;
+    const retryDelay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+
+    console.warn(`[recordingQueueService] Attempt ${attempts} for ${item.fileName} failed:`, message);
+    await updateItem(item.id, {
+      status: 'failed',
+      attempts,
+      lastError: message,
+      nextAttemptAt: attempts < MAX_AUTOMATIC_ATTEMPTS && message !== EMPTY_TRANSCRIPT_ERROR
+        ? new Date(Date.now() + retryDelay).toISOString()
+        : null,
+    });
+    return true;
+  }
+}
+
+/**
+ * Transcribe a queued recording if needed, generate its notes and save them
+ */
+async function createNoteFromRecording(
+  item: QueuedRecording
+): Promise<{ noteId: string; transcription: Pick<Transcription, 'text' | 'duration'> }> {
+  let transcription = item.transcription;
+
+  if (!transcription) {
+    if (!item.fileUri) {
+      throw new Error('The recording audio is missing');
+    }
+
+    const audioUri = await openQueuedAudio(item.fileUri, item.fileName);
+    try {
+      const result = await transcribeAudio(audioUri);
+      if (!result.text) {
+        throw new Error(EMPTY_TRANSCRIPT_ERROR);
+      }
+      transcription = { text: result.text, duration: result.duration };
+    } finally {
+      if (isWeb) URL.revokeObjectURL(audioUri.split('#')[0]);
+    }
+
+    // Keep the transcript so a failure below does not cost another transcription
+    await updateItem(item.id, { transcription });
+  }
+
+  const notes = await generateMedicalNotes(transcription.text, item.templateId);
+  const content = notes.content || '';
+
+  if (!content) {
+    throw new Error('Invalid notes generated');
+  }
+
+  // createNote saves to whoever is signed in, which must still be the owner
+  if (getAuth().currentUser?.uid !== item.userId) {
+    throw new Error('The recording belongs to another account');
+  }
+
+  const noteId = await createNote({
+    id: '',
+    title: notes.title || `Note - ${new Date(item.createdAt).toLocaleDateString()}`,
+    content,
+    transcription: transcription.text,
+    procedureType: notes.procedureType || '',
+    tags: notes.tags || [],
+    duration: transcription.duration ? String(Math.round(transcription.duration)) : undefined,
+    templateId: notes.templateId,
+  } as Note);
+
+  return { noteId, transcription };
+}
+
+function loadQueue(): Promise<QueuedRecording[]> {
+  if (queueCache) {
+    return Promise.resolve(queueCache);
+  }
+
+  if (!queueLoad) {
+    queueLoad = AsyncStorage.getItem(QUEUE_STORAGE_KEY)
+      .then(stored => {
+        const items: QueuedRecording[] = stored ? JSON.parse(stored) : [];
+
+        // An item still marked as processing was interrupted when the app closed
+        queueCache = items.map(item => item.status === 'processing' ? { ...item, status: 'pending' } : item);
+        return queueCache;
+      })
+      .finally(() => {
+        queueLoad = null;
+      });
+  }
+
+  return queueLoad;
+}
+
+/**
+ * Apply a change to the queue, persist it and notify listeners
+ */
+async function updateQueue(change: (items: QueuedRecording[]) => QueuedRecording[]): Promise<void> {
+  const items = change(await loadQueue());
+  queueCache = items;
+
+  await AsyncStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(items));
+  const visible = ownItems(items);
+  listeners.forEach(listener => listener(visible));
+}
+
+/**
+ * Items recorded by the signed-in user. Other users' recordings stay queued
+ * for them; items from before the queue recorded owners belong to no one.
+ */
+function ownItems(items: QueuedRecording[]): QueuedRecording[] {
+  const userId = getAuth().currentUser?.uid;
+  return userId ? items.filter(item => item.userId === userId) : [];
+}
+
+function requireUserId(): string {
+  const userId = getAuth().currentUser?.uid;
+  if (!userId) {
+    throw new Error('User not authenticated');
+  }
+  return userId;
+}
+
+function updateItem(id: string, changes: Partial<QueuedRecording>): Promise<void> {
+  return updateQueue(items => items.map(item => item.id === id ? { ...item, ...changes } : item));
+}
+
+function getFileExtension(uri: string): string {
+  // Blob URLs carry the file name in a `#name.ext` fragment
+  const name = uri.includes('#') ? uri.slice(uri.indexOf('#') + 1) : uri.split('?')[0];
+  const match = name.match(/\.([a-z0-9]+)$/i);
+  return match ? match[1].toLowerCase() : (isWeb ? 'webm' : 'm4a');
+}
+
+/**
+ * Copy a recording somewhere that survives restarts: the document directory
+ * on native (the cache directory can be cleared by the OS) or IndexedDB on web
+ */
+async function persistAudio(fileUri: string, id: string, fileName: string): Promise<string> {
+  if (isWeb) {
+    const response = await fetch(fileUri);
+    await putWebRecording(id, await response.blob());
+    return `${WEB_RECORDING_PREFIX}${id}`;
+  }
+
+  const directoryInfo = await FileSystem.getInfoAsync(NATIVE_QUEUE_DIRECTORY);
+  if (!directoryInfo.exists) {
+    await FileSystem.makeDirectoryAsync(NATIVE_QUEUE_DIRECTORY, { intermediates: true });
+  }
+
+  const storedUri = `${NATIVE_QUEUE_DIRECTORY}${fileName}`;
+  await FileSystem.copyAsync({ from: fileUri, to: storedUri });
+  return storedUri;
+}
+
+/**
+ * Get a URI the transcription service can read. On web this is a blob URL the
+ * caller must revoke.
+ */
+async function openQueuedAudio(fileUri: string, fileName: string): Promise<string> {
+  if (!fileUri.startsWith(WEB_RECORDING_PREFIX)) {
+    return fileUri;
+  }
+
+  const blob = await getWebRecording(fileUri.slice(WEB_RECORDING_PREFIX.length));
+  if (!blob) {
+    throw new Error('The recording audio is missing');
+  }
+
+  return `${URL.createObjectURL(blob)}#${fileName}`;
+}
+
+async function deleteQueuedAudio(item: QueuedRecording): Promise<void> {
+  if (!item.fileUri) return;
+
+  if (item.fileUri.startsWith(WEB_RECORDING_PREFIX)) {
+    await deleteWebRecording(item.fileUri.slice(WEB_RECORDING_PREFIX.length));
+  } else {
+    await FileSystem.deleteAsync(item.fileUri, { idempotent: true });
+  }
+}
+
+function openWebDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(WEB_DATABASE_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(WEB_STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Run a single request against the web recording store
+ */
+async function withWebStore<T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const database = await openWebDatabase();
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = makeRequest(database.transaction(WEB_STORE_NAME, mode).objectStore(WEB_STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    database.close();
+  }
+}
+
+function putWebRecording(id: string, blob: Blob): Promise<void> {
+  return withWebStore<void>('readwrite', store => store.put(blob, id));
+}
+
+async function getWebRecording(id: string): Promise<Blob | null> {
+  return (await withWebStore<Blob | undefined>('readonly', store => store.get(id))) || null;
+}
+
+function deleteWebRecording(id: string): Promise<void> {
+  return withWebStore<void>('readwrite', store => store.delete(id));
+}
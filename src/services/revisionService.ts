@@ -0,0 +1,212 @@
+// services/revisionService.ts
+import { getAuth } from 'firebase/auth';
+import { getSupabaseClient } from '../firebase/supabaseConfig';
+import { Note, NoteRevision, NoteRevisionReason } from '../types';
+
+const REVISIONS_TABLE = 'note_revisions';
+const USERS_TABLE = 'users';
+// Postgres error code for a unique constraint violation
+const UNIQUE_VIOLATION = '23505';
+const MAX_NUMBERING_ATTEMPTS = 3;
+
+export interface RevisionDetails {
+  reason: NoteRevisionReason;
+  changedFields: string[];
+  // Revision number a restore copied its content from
+  restoredFrom?: number;
+  // Author and time, when recording a note that predates revisions
+  userId?: string;
+  createdAt?: string;
+}
+
+/**
+ * Store an immutable snapshot of a note. Revisions are only ever inserted;
+ * restoring an old one records a new revision instead of rewriting history.
+ */
+export async function recordNoteRevision(note: Note, details: RevisionDetails): Promise<NoteRevision> {
+  try {
+    const supabase = await getSupabaseClient();
+    const user = getAuth().currentUser;
+    const userId = details.userId || user?.uid;
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    const authorNames = await getAuthorNames([userId]);
+
+    // Revision numbers are per note and count up from 1. The table's unique
+    // ("noteId", "revisionNumber") constraint rejects a number another save
+    // took in the meantime, so count again and retry.
+    for (let attempt = 1; ; attempt++) {
+      const { count, error: countError } = await supabase
+        .from(REVISIONS_TABLE)
+        .select('id', { count: 'exact', head: true })
+        .eq('noteId', note.id);
+
+      if (countError) throw countError;
+
+      const { data, error } = await supabase
+        .from(REVISIONS_TABLE)
+        .insert(revisionRow(note, details, userId, (count || 0) + 1, authorNames.get(userId) || null))
+        .select()
+        .single();
+
+      if (error?.code === UNIQUE_VIOLATION && attempt < MAX_NUMBERING_ATTEMPTS) continue;
+      if (error) throw error;
+
+      return data as NoteRevision;
+    }
+  } catch (error) {
+    console.error('[revisionService] Error recording revision:', error);
+    throw new Error(`Failed to record note revision: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Store snapshots of many notes in one request, for bulk edits. Revisions of
+ * the same note are numbered in the order given.
+ */
+export async function recordNoteRevisions(revisions: { note: Note; details: RevisionDetails }[]): Promise<void> {
+  try {
+    const supabase = await getSupabaseClient();
+    const userId = getAuth().currentUser?.uid;
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+    if (revisions.length === 0) return;
+
+    const authorNames = await getAuthorNames(revisions.map(({ details }) => details.userId || userId));
+
+    // The rows are inserted together, so a number taken by another save
+    // rejects all of them and they are numbered again
+    for (let attempt = 1; ; attempt++) {
+      const counts = await getRevisionCounts(revisions.map(revision => revision.note.id));
+      const rows = revisions.map(({ note, details }) => {
+        const revisionNumber = (counts.get(note.id) || 0) + 1;
+        const authorId = details.userId || userId;
+        counts.set(note.id, revisionNumber);
+        return revisionRow(note, details, authorId, revisionNumber, authorNames.get(authorId) || null);
+      });
+
+      const { error } = await supabase.from(REVISIONS_TABLE).insert(rows);
+
+      if (error?.code === UNIQUE_VIOLATION && attempt < MAX_NUMBERING_ATTEMPTS) continue;
+      if (error) throw error;
+
+      return;
+    }
+  } catch (error) {
+    console.error('[revisionService] Error recording revisions:', error);
+    throw new Error(`Failed to record note revisions: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Get every revision of a note, newest first
+ */
+export async function getNoteRevisions(noteId: string): Promise<NoteRevision[]> {
+  try {
+    const supabase = await getSupabaseClient();
+    const { data, error } = await supabase
+      .from(REVISIONS_TABLE)
+      .select('*')
+      .eq('noteId', noteId)
+      .order('revisionNumber', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []) as NoteRevision[];
+  } catch (error) {
+    console.error('[revisionService] Error loading revisions:', error);
+    throw new Error(`Failed to load note history: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Check whether a note has any revisions yet
+ */
+export async function hasNoteRevisions(noteId: string): Promise<boolean> {
+  const supabase = await getSupabaseClient();
+  const { count, error } = await supabase
+    .from(REVISIONS_TABLE)
+    .select('id', { count: 'exact', head: true })
+    .eq('noteId', noteId);
+
+  if (error) {
+    throw new Error(`Failed to load note history: ${error.message}`);
+  }
+
+  return (count || 0) > 0;
+}
+
+/**
+ * Number of revisions of each note; notes without any are left out
+ */
+export async function getRevisionCounts(noteIds: string[]): Promise<Map<string, number>> {
+  const supabase = await getSupabaseClient();
+  const counts = new Map<string, number>();
+  if (noteIds.length === 0) return counts;
+
+  const { data, error } = await supabase
+    .from(REVISIONS_TABLE)
+    .select('noteId')
+    .in('noteId', Array.from(new Set(noteIds)));
+
+  if (error) {
+    throw new Error(`Failed to load note history: ${error.message}`);
+  }
+
+  ((data || []) as { noteId: string }[]).forEach(row => counts.set(row.noteId, (counts.get(row.noteId) || 0) + 1));
+  return counts;
+}
+
+/**
+ * Display names of revision authors. The signed-in user's comes from auth,
+ * anyone else's (the owner of a note recorded on a later edit) from their
+ * profile; authors without one are left out.
+ */
+async function getAuthorNames(userIds: string[]): Promise<Map<string, string>> {
+  const names = new Map<string, string>();
+  const user = getAuth().currentUser;
+  const otherIds = Array.from(new Set(userIds)).filter(id => id !== user?.uid);
+
+  if (user && userIds.includes(user.uid) && (user.displayName || user.email)) {
+    names.set(user.uid, (user.displayName || user.email)!);
+  }
+  if (otherIds.length === 0) return names;
+
+  const supabase = await getSupabaseClient();
+  const { data, error } = await supabase
+    .from(USERS_TABLE)
+    .select('id, display_name, email')
+    .in('id', otherIds);
+
+  // A revision without an author name is better than one with the wrong name
+  if (error) {
+    console.warn('[revisionService] Could not load author names:', error.message);
+    return names;
+  }
+
+  ((data || []) as { id: string; display_name?: string | null; email?: string | null }[]).forEach(row => {
+    const name = row.display_name || row.email;
+    if (name) names.set(row.id, name);
+  });
+  return names;
+}
+
+function revisionRow(note: Note, details: RevisionDetails, userId: string, revisionNumber: number, authorName: string | null) {
+  return {
+    noteId: note.id,
+    revisionNumber,
+    userId,
+    authorName,
+    createdAt: details.createdAt || new Date().toISOString(),
+    reason: details.reason,
+    restoredFrom: details.restoredFrom ?? null,
+    changedFields: details.changedFields,
+    title: note.title || '',
+    content: note.content || '',
+    procedureType: note.procedureType || '',
+    tags: Array.isArray(note.tags) ? note.tags : [],
+  };
+}
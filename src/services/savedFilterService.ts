@@ -0,0 +1,122 @@
+// services/savedFilterService.ts
+import { getAuth } from 'firebase/auth';
+import { getSupabaseClient } from '../firebase/supabaseConfig';
+import { compactNoteFilters } from '../utils/noteFilters';
+import { NoteFilters, SavedNoteFilter } from '../types';
+
+const SAVED_FILTERS_TABLE = 'saved_note_filters';
+
+/**
+ * Row shape of the saved_note_filters table
+ */
+interface SavedNoteFilterRow {
+  id: string;
+  userId: string;
+  name: string;
+  filters: NoteFilters | null;
+  createdAt: string;
+}
+
+function getCurrentUserId(): string | null {
+  const auth = getAuth();
+  return auth.currentUser?.uid || null;
+}
+
+function savedFilterFromRow(row: SavedNoteFilterRow): SavedNoteFilter {
+  return {
+    id: row.id,
+    name: row.name,
+    filters: row.filters || {},
+    createdAt: row.createdAt,
+  };
+}
+
+/**
+ * Get the signed-in user's saved filters, by name
+ */
+export async function getSavedFilters(): Promise<SavedNoteFilter[]> {
+  try {
+    const supabase = await getSupabaseClient();
+    const userId = getCurrentUserId();
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from(SAVED_FILTERS_TABLE)
+      .select('*')
+      .eq('userId', userId)
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+
+    return ((data || []) as SavedNoteFilterRow[]).map(savedFilterFromRow);
+  } catch (error) {
+    console.error('[savedFilterService] Error loading saved filters:', error);
+    throw new Error(`Failed to load saved filters: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Save filters under a name. Saving under a name already in use replaces
+ * that filter.
+ */
+export async function saveNoteFilter(name: string, filters: NoteFilters): Promise<SavedNoteFilter> {
+  try {
+    const supabase = await getSupabaseClient();
+    const userId = getCurrentUserId();
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      throw new Error('The filter needs a name');
+    }
+
+    const { data: existing, error: findError } = await supabase
+      .from(SAVED_FILTERS_TABLE)
+      .select('id')
+      .eq('userId', userId)
+      .eq('name', trimmedName)
+      .maybeSingle();
+
+    if (findError) throw findError;
+
+    const fields = { name: trimmedName, filters: compactNoteFilters(filters) };
+    const query = existing
+      ? supabase.from(SAVED_FILTERS_TABLE).update(fields).eq('id', existing.id).eq('userId', userId)
+      : supabase.from(SAVED_FILTERS_TABLE).insert({ ...fields, userId, createdAt: new Date().toISOString() });
+
+    const { data, error } = await query.select();
+
+    if (error) throw error;
+    if (!data?.[0]) throw new Error('Saved filter not found');
+
+    return savedFilterFromRow(data[0] as SavedNoteFilterRow);
+  } catch (error) {
+    console.error('[savedFilterService] Error saving filter:', error);
+    throw new Error(`Failed to save filter: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export async function deleteSavedFilter(id: string): Promise<void> {
+  try {
+    const supabase = await getSupabaseClient();
+    const userId = getCurrentUserId();
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    const { error } = await supabase
+      .from(SAVED_FILTERS_TABLE)
+      .delete()
+      .eq('id', id)
+      .eq('userId', userId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('[savedFilterService] Error deleting saved filter:', error);
+    throw new Error(`Failed to delete saved filter: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,269 @@
+// services/templateService.ts
+import { getAuth } from 'firebase/auth';
+import { getSupabaseClient } from '../firebase/supabaseConfig';
+import {
+  NoteTemplate,
+  NoteTemplateSection,
+  getNoteTemplate,
+  getNoteTemplates,
+  normalizeHeading,
+  registerNoteTemplate,
+  unregisterNoteTemplate,
+} from './noteTemplates';
+
+const TEMPLATES_TABLE = 'note_templates';
+const EXPORT_FORMAT = 'medtranscribe-note-templates';
+const EXPORT_VERSION = 1;
+
+/**
+ * Row shape of the note_templates table
+ */
+interface NoteTemplateRow {
+  id: string;
+  userId: string;
+  name: string;
+  description: string;
+  sections: NoteTemplateSection[];
+  instructions: string;
+  exampleOutput: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+function getCurrentUserId(): string | null {
+  const auth = getAuth();
+  return auth.currentUser?.uid || null;
+}
+
+function templateFromRow(row: NoteTemplateRow): NoteTemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description || '',
+    sections: Array.isArray(row.sections) ? row.sections : [],
+    instructions: row.instructions || '',
+    exampleOutput: row.exampleOutput || undefined,
+    custom: true,
+  };
+}
+
+/**
+ * Fetch the signed-in user's templates and register them so the template
+ * picker and generateMedicalNotes can use them
+ */
+export async function loadCustomTemplates(): Promise<NoteTemplate[]> {
+  try {
+    const supabase = await getSupabaseClient();
+    const userId = getCurrentUserId();
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from(TEMPLATES_TABLE)
+      .select('*')
+      .eq('userId', userId)
+      .order('createdAt', { ascending: true });
+
+    if (error) throw error;
+
+    const customTemplates = ((data || []) as NoteTemplateRow[]).map(templateFromRow);
+
+    // Drop templates deleted on another device before registering the current set
+    getNoteTemplates()
+      .filter(template => template.custom && !customTemplates.some(custom => custom.id === template.id))
+      .forEach(template => unregisterNoteTemplate(template.id));
+    customTemplates.forEach(registerNoteTemplate);
+
+    return customTemplates;
+  } catch (error) {
+    console.error('[templateService] Error loading templates:', error);
+    throw new Error(`Failed to load templates: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Check a template before it is saved or imported
+ * @returns Problems to show the user, empty if the template is valid
+ */
+export function validateNoteTemplate(template: Partial<NoteTemplate>): string[] {
+  const problems: string[] = [];
+
+  if (!template.name || !template.name.trim()) {
+    problems.push('Template name is required');
+  }
+
+  if (!Array.isArray(template.sections) || template.sections.length === 0) {
+    problems.push('Add at least one section');
+    return problems;
+  }
+
+  const headings = new Set<string>();
+  template.sections.forEach((section, index) => {
+    const heading = typeof section?.heading === 'string' ? normalizeHeading(section.heading) : '';
+
+    if (!heading) {
+      problems.push(`Section ${index + 1} needs a heading`);
+    } else if (headings.has(heading)) {
+      problems.push(`Section heading "${section.heading}" is used more than once`);
+    }
+
+    headings.add(heading);
+  });
+
+  return problems;
+}
+
+/**
+ * Create a custom template, or update it if it already exists
+ * @returns The saved template, registered for use in note generation
+ */
+export async function saveCustomTemplate(template: NoteTemplate): Promise<NoteTemplate> {
+  try {
+    const supabase = await getSupabaseClient();
+    const userId = getCurrentUserId();
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    const problems = validateNoteTemplate(template);
+    if (problems.length > 0) {
+      throw new Error(problems.join('. '));
+    }
+
+    const fields = {
+      name: template.name.trim(),
+      description: (template.description || '').trim(),
+      sections: template.sections.map(section => ({
+        heading: section.heading.trim(),
+        instructions: (section.instructions || '').trim(),
+        required: !!section.required,
+      })),
+      instructions: (template.instructions || '').trim(),
+      exampleOutput: template.exampleOutput?.trim() || null,
+      updatedAt: new Date().toISOString(),
+    };
+
+    const existing = template.id ? getNoteTemplate(template.id) : undefined;
+    const query = existing?.custom
+      ? supabase.from(TEMPLATES_TABLE).update(fields).eq('id', template.id).eq('userId', userId)
+      : supabase.from(TEMPLATES_TABLE).insert({ ...fields, userId, createdAt: fields.updatedAt });
+
+    const { data, error } = await query.select();
+
+    if (error) throw error;
+    if (!data?.[0]) throw new Error('Template not found');
+
+    const saved = templateFromRow(data[0] as NoteTemplateRow);
+    registerNoteTemplate(saved);
+    return saved;
+  } catch (error) {
+    console.error('[templateService] Error saving template:', error);
+    throw new Error(`Failed to save template: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Copy a built-in or custom template into a new custom template
+ */
+export async function duplicateTemplate(id: string): Promise<NoteTemplate> {
+  const template = getNoteTemplate(id);
+  if (!template) {
+    throw new Error('Failed to duplicate template: Template not found');
+  }
+
+  return saveCustomTemplate({ ...template, id: '', name: `${template.name} (copy)`, custom: true });
+}
+
+/**
+ * Delete a custom template. Notes written with it keep their content but are
+ * shown without template ordering.
+ */
+export async function deleteCustomTemplate(id: string): Promise<void> {
+  try {
+    const supabase = await getSupabaseClient();
+    const userId = getCurrentUserId();
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    const { error } = await supabase
+      .from(TEMPLATES_TABLE)
+      .delete()
+      .eq('id', id)
+      .eq('userId', userId);
+
+    if (error) throw error;
+
+    unregisterNoteTemplate(id);
+  } catch (error) {
+    console.error('[templateService] Error deleting template:', error);
+    throw new Error(`Failed to delete template: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Serialise templates to JSON for sharing with colleagues
+ */
+export function exportTemplates(templates: NoteTemplate[]): string {
+  return JSON.stringify({
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    templates: templates.map(template => ({
+      name: template.name,
+      description: template.description,
+      sections: template.sections,
+      instructions: template.instructions,
+      exampleOutput: template.exampleOutput,
+    })),
+  }, null, 2);
+}
+
+/**
+ * Save every template in an export file as a new custom template
+ * @returns The imported templates
+ */
+export async function importTemplates(json: string): Promise<NoteTemplate[]> {
+  let parsed: any;
+
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new Error('Failed to import templates: The file is not valid JSON');
+  }
+
+  if (parsed?.format !== EXPORT_FORMAT || !Array.isArray(parsed.templates)) {
+    throw new Error('Failed to import templates: The file is not a MedTranscribe template export');
+  }
+
+  // Check everything first so a bad file does not leave a partial import behind
+  const templates: NoteTemplate[] = parsed.templates.map((template: any) => ({
+    id: '',
+    name: typeof template?.name === 'string' ? template.name : '',
+    description: typeof template?.description === 'string' ? template.description : '',
+    sections: Array.isArray(template?.sections)
+      ? template.sections.map((section: any) => ({
+        heading: typeof section?.heading === 'string' ? section.heading : '',
+        instructions: typeof section?.instructions === 'string' ? section.instructions : '',
+        required: section?.required === true,
+      }))
+      : [],
+    instructions: typeof template?.instructions === 'string' ? template.instructions : '',
+    exampleOutput: typeof template?.exampleOutput === 'string' ? template.exampleOutput : undefined,
+    custom: true,
+  }));
+
+  templates.forEach((template, index) => {
+    const problems = validateNoteTemplate(template);
+    if (problems.length > 0) {
+      throw new Error(`Failed to import templates: Template ${index + 1} (${template.name || 'unnamed'}): ${problems.join('. ')}`);
+    }
+  });
+
+  const imported: NoteTemplate[] = [];
+  for (const template of templates) {
+    imported.push(await saveCustomTemplate(template));
+  }
+
+  return imported;
+}
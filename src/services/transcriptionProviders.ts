@@ -0,0 +1,65 @@
+// services/transcriptionProviders.ts
+import type { Transcription } from './transcriptionService';
+
+/**
+ * A transcription engine that can be plugged into transcribeAudio
+ */
+export interface TranscriptionProvider {
+  // Stable identifier used in the provider order/disabled settings
+  id: string;
+  // Human readable name shown in settings
+  name: string;
+  // Whether the provider is configured and usable on this platform
+  isAvailable: () => Promise<boolean>;
+  // Audio stays on the device or clinic network; only these run in local-only mode
+  isLocal?: boolean;
+  // Transcribe the audio file at the given URI
+  transcribe: (fileUri: string) => Promise<Transcription>;
+}
+
+// Registered providers in registration order
+const providers = new Map<string, TranscriptionProvider>();
+
+/**
+ * Register a transcription provider (replaces any provider with the same id)
+ */
+export function registerTranscriptionProvider(provider: TranscriptionProvider): void {
+  providers.set(provider.id, provider);
+}
+
+/**
+ * Remove a transcription provider from the registry
+ */
+export function unregisterTranscriptionProvider(id: string): void {
+  providers.delete(id);
+}
+
+/**
+ * Get a registered provider by id
+ */
+export function getTranscriptionProvider(id: string): TranscriptionProvider | undefined {
+  return providers.get(id);
+}
+
+/**
+ * Get all registered providers in registration order
+ */
+export function getTranscriptionProviders(): TranscriptionProvider[] {
+  return Array.from(providers.values());
+}
+
+/**
+ * Resolve the fallback chain from the configured order and disabled list.
+ * Providers listed in `order` come first; any other registered providers
+ * follow in registration order. Unknown ids are ignored.
+ */
+export function resolveProviderChain(order: string[], disabled: string[] = []): TranscriptionProvider[] {
+  const orderedIds = [
+    ...order.filter(id => providers.has(id)),
+    ...Array.from(providers.keys()).filter(id => !order.includes(id)),
+  ];
+
+  return orderedIds
+    .filter((id, index) => orderedIds.indexOf(id) === index && !disabled.includes(id))
+    .map(id => providers.get(id)!);
+}
@@ -2,7 +2,29 @@
 import axios from 'axios';
 import * as FileSystem from 'expo-file-system';
 import { Platform } from 'react-native';
-import { getOpenAIKey, getOpenAIUrl, getGeminiKey, getGeminiUrl } from '../utils/apiKeyManager';
+import { getAuth } from 'firebase/auth';
+import {
+  getOpenAIKey,
+  getOpenAIUrl,
+  getGeminiKey,
+  getGeminiUrl,
+  getLocalWhisperUrl,
+  getTranscriptionProviderOrder,
+  getDisabledTranscriptionProviders,
+  getLocalOnlyTranscription,
+} from '../utils/apiKeyManager';
+import { registerTranscriptionProvider, resolveProviderChain, TranscriptionProvider } from './transcriptionProviders';
+import { getAudioDuration } from './audioDurationService';
+import { AudioChunk, cleanupAudioChunks, splitAudioIntoChunks } from './audioChunkService';
+
+// Re-export the provider registry so callers get the built-in providers registered
+export {
+  registerTranscriptionProvider,
+  unregisterTranscriptionProvider,
+  getTranscriptionProviders,
+  resolveProviderChain,
+} from './transcriptionProviders';
+export type { TranscriptionProvider } from './transcriptionProviders';
 
 // Define Segment type for transcription segments
 export interface Segment {
@@ -11,6 +33,8 @@ export interface Segment {
   start: number;
   end: number;
   confidence: number;
+  // True when timing was estimated locally rather than reported by the engine
+  synthetic?: boolean;
 }
 
 // Define Transcription type if not already defined elsewhere
@@ -20,16 +44,76 @@ export interface Transcription {
   language: string;
   duration: number;
   segments?: Segment[];
+  wordTimestamps?: WordTimestamp[];
+}
+
+// Word-level timing from engines that support it
+export interface WordTimestamp {
+  word: string;
+  start: number;
+  end: number;
 }
 
 // Define the proxy server URL
 const PROXY_SERVER_URL = 'http://localhost:3001';
 
+// Chunked transcription settings
+const MAX_CONCURRENT_CHUNKS = 2;
+const MIN_OVERLAP_WORDS = 3;
+const MAX_OVERLAP_WORDS = 40;
+const CUT_TOLERANCE_SECONDS = 0.5;
+
+/**
+ * Progress of a transcription, reported per chunk for long recordings
+ */
+export interface TranscriptionProgress {
+  stage: 'preparing' | 'transcribing' | 'merging';
+  completedChunks: number;
+  totalChunks: number;
+}
+
+export type TranscriptionProgressCallback = (progress: TranscriptionProgress) => void;
+
+/**
+ * Human readable status line for a transcription progress update
+ */
+export function formatTranscriptionProgress(progress: TranscriptionProgress): string {
+  if (progress.stage === 'preparing') {
+    return 'Preparing audio...';
+  }
+  
+  if (progress.stage === 'merging') {
+    return 'Combining transcribed sections...';
+  }
+  
+  if (progress.totalChunks <= 1) {
+    return 'Transcribing audio...';
+  }
+  
+  return `Transcribing audio (${progress.completedChunks} of ${progress.totalChunks} sections done)...`;
+}
+
 /**
  * Check if we're running on web platform
  */
 const isWeb = Platform.OS === 'web';
 
+/**
+ * A file part as React Native's FormData takes it; the file is read from the URI when the request is sent
+ */
+interface NativeFormDataFile {
+  uri: string;
+  name: string;
+  type: string;
+}
+
+/**
+ * The DOM typings only know Blob file parts, so pass React Native's { uri, name, type } part as one
+ */
+function nativeFormDataFile(file: NativeFormDataFile): Blob {
+  return file as unknown as Blob;
+}
+
 /**
  * Helper function to safely check file info with platform compatibility
  */
@@ -133,6 +217,7 @@ export async function transcribeAudioWithWhisper(fileUri: string): Promise<Trans
         formData.append('file', file);
         formData.append('model', 'whisper-1');
         formData.append('language', 'en');
+        appendVerboseFormFields(formData);
         
         console.log('[transcriptionService] Sending request to OpenAI Whisper API');
         
@@ -142,19 +227,13 @@ export async function transcribeAudioWithWhisper(fileUri: string): Promise<Trans
             'Authorization': `Bearer ${apiKey}`,
             'Content-Type': 'multipart/form-data',
           },
-          timeout: 30000, // 30 seconds timeout
+          timeout: 120000, // 2 minutes timeout
         });
         
         console.log('[transcriptionService] Received response from Whisper API:', whisperResponse.data);
         
         // Process the response
-        return {
-          text: whisperResponse.data.text || '',
-          confidence: whisperResponse.data.confidence || 0.9,
-          language: whisperResponse.data.language || 'en',
-          duration: calculateAudioDuration(blob.size),
-          segments: whisperResponse.data.segments || generateBasicSegments(whisperResponse.data.text, calculateAudioDuration(blob.size))
-        };
+        return mapVerboseTranscription(whisperResponse.data, await getAudioDuration(fileUri));
       } catch (apiError) {
         console.error('[transcriptionService] Whisper API error:', apiError);
         throw new Error(`Whisper API error: ${apiError instanceof Error ? apiError.message : String(apiError)}`);
@@ -176,7 +255,7 @@ export async function transcribeAudioWithWhisper(fileUri: string): Promise<Trans
       const mimeType = getMimeType(extension);
       
       // Create a file blob
-      let fileBlob;
+      let fileBlob: Blob;
       
       if (isWeb && fileUri.startsWith('blob:')) {
         // On web with blob URL, fetch the blob directly
@@ -185,17 +264,17 @@ export async function transcribeAudioWithWhisper(fileUri: string): Promise<Trans
         fileBlob = new File([blob], `audio.${extension}`, { type: mimeType });
       } else {
         // Standard approach for native or data URIs
-        fileBlob = {
+        fileBlob = nativeFormDataFile({
           uri: fileUri,
           type: mimeType,
           name: `audio.${extension}`
-        };
+        });
       }
       
-      // @ts-ignore - Type issues with FormData in React Native
       formData.append('file', fileBlob);
       formData.append('model', 'whisper-1');
       formData.append('language', 'en');
+      appendVerboseFormFields(formData);
       
       // Make the API request
       const response = await axios.post(OPENAI_API_ENDPOINT, formData, {
@@ -203,17 +282,11 @@ export async function transcribeAudioWithWhisper(fileUri: string): Promise<Trans
           'Authorization': `Bearer ${apiKey}`,
           'Content-Type': 'multipart/form-data',
         },
-        timeout: 30000, // 30 seconds timeout
+        timeout: 120000, // 2 minutes timeout
       });
       
       // Process the response
-      return {
-        text: response.data.text || '',
-        confidence: response.data.confidence || 0.9, // Whisper API doesn't always provide confidence scores
-        language: response.data.language || 'en',
-        duration: calculateAudioDuration(fileInfo.size),
-        segments: response.data.segments || generateBasicSegments(response.data.text, calculateAudioDuration(fileInfo.size))
-      };
+      return mapVerboseTranscription(response.data, await getAudioDuration(fileUri));
     }
   } catch (error) {
     console.error('Whisper transcription service error:', error);
@@ -304,20 +377,21 @@ export async function transcribeAudioWithGemini(fileUri: string): Promise<Transc
             'Content-Type': 'application/json',
             'x-goog-api-key': apiKey,
           },
-          timeout: 30000,
+          timeout: 120000,
         });
         
         console.log('[transcriptionService] Received response from Gemini API:', geminiResponse.data);
         
         // Extract the transcription text from response
         const text = geminiResponse.data?.candidates?.[0]?.content?.parts?.[0]?.text || '';
+        const duration = await getAudioDuration(fileUri);
         
         return {
           text: text,
           confidence: 0.85, // Default confidence for Gemini
           language: 'en',
-          duration: calculateAudioDuration(blob.size),
-          segments: generateBasicSegments(text, calculateAudioDuration(blob.size))
+          duration,
+          segments: generateBasicSegments(text, duration)
         };
       } catch (apiError) {
         console.error('[transcriptionService] Gemini API error:', apiError);
@@ -346,19 +420,20 @@ export async function transcribeAudioWithGemini(fileUri: string): Promise<Transc
         'Content-Type': 'application/json',
         'x-goog-api-key': apiKey,
       },
-      timeout: 30000,
+      timeout: 120000,
     });
     
     // Extract the transcription text from response
     // Note: This will need to be adjusted based on actual Gemini API response structure
     const text = response.data?.candidates?.[0]?.content?.parts?.[0]?.text || '';
+    const duration = await getAudioDuration(fileUri);
     
     return {
       text: text,
       confidence: 0.85, // Default confidence for Gemini
       language: 'en',
-      duration: calculateAudioDuration(fileInfo.size),
-      segments: generateBasicSegments(text, calculateAudioDuration(fileInfo.size))
+      duration,
+      segments: generateBasicSegments(text, duration)
     };
   } catch (error) {
     console.error('Gemini transcription service error:', error);
@@ -379,215 +454,525 @@ export async function transcribeAudioWithGemini(fileUri: string): Promise<Transc
 }
 
 /**
- * Main transcription function that tries OpenAI first, then falls back to Gemini
+ * Transcribes audio using a locally running whisper.cpp / faster-whisper
+ * compatible server, so the audio never leaves the device or clinic network
  * @param fileUri - URI to the audio file
  * @returns Promise with transcription result
  */
-export async function transcribeAudio(fileUri: string): Promise<Transcription> {
-  console.log('[transcriptionService] Starting transcription for file:', fileUri);
-  
-  if (!fileUri) {
-    throw new Error('No audio file provided for transcription');
-  }
-  
-  // For web platform, we need special handling
-  if (isWeb) {
-    console.log('[transcriptionService] Web platform detected, using web-specific transcription flow');
+export async function transcribeAudioWithLocalWhisper(fileUri: string): Promise<Transcription> {
+  try {
+    const endpoint = await getLocalWhisperUrl();
     
-    try {
-      // Get file info safely
-      const fileInfo = await safeGetFileInfo(fileUri);
-      
-      if (!fileInfo.exists) {
-        throw new Error('Audio file does not exist');
-      }
-      
+    if (!endpoint) {
+      throw new Error('Local transcription server URL not configured. Please set it in Settings.');
+    }
+    
+    // Get file info safely
+    const fileInfo = await safeGetFileInfo(fileUri);
+    
+    if (!fileInfo.exists) {
+      throw new Error('Audio file does not exist');
+    }
+    
+    // Determine file extension and MIME type
+    const extension = fileUri.split('.').pop()?.toLowerCase() || 'm4a';
+    const mimeType = getMimeType(extension);
+    
+    // Create a FormData object to send the file
+    const formData = new FormData();
+    
+    if (isWeb) {
       // For web, we need to fetch the blob first
       const response = await fetch(fileUri);
       const blob = await response.blob();
-      
-      // Try to get API keys
-      const openAIKey = await getOpenAIKey().catch(err => {
-        console.warn('[transcriptionService] Failed to get OpenAI API key:', err);
-        return null;
-      });
-      
-      const geminiKey = await getGeminiKey().catch(err => {
-        console.warn('[transcriptionService] Failed to get Gemini API key:', err);
-        return null;
-      });
-      
-      // Check if we have valid API keys
-      if (!openAIKey && !geminiKey) {
-        throw new Error('No valid API keys found. Please configure your API keys in the settings.');
-      }
-      
-      // Try Whisper first via proxy server
-      if (openAIKey) {
-        try {
-          console.log('[transcriptionService] Attempting Whisper transcription via proxy server');
-          
-          // Create a FormData object to send the file
-          const formData = new FormData();
-          
-          // Determine file extension and MIME type
-          const extension = fileUri.split('.').pop()?.toLowerCase() || 'm4a';
-          const mimeType = getMimeType(extension);
-          
-          // Create a File object from the blob
-          const file = new File([blob], `audio.${extension}`, { type: mimeType });
-          
-          // Add the file to FormData
-          formData.append('file', file);
-          
-          console.log('[transcriptionService] Sending request to proxy server with file:', file.name, file.size, 'bytes');
-          
-          // Send to proxy server
-          const whisperResponse = await axios.post(`${PROXY_SERVER_URL}/api/whisper`, formData, {
-            headers: {
-              'x-api-key': openAIKey
-            },
-            timeout: 60000 // 60 seconds timeout
-          });
-          
-          console.log('[transcriptionService] Received response from Whisper API via proxy:', whisperResponse.data);
-          
-          // Process the response
-          return {
-            text: whisperResponse.data.text || '',
-            confidence: whisperResponse.data.confidence || 0.9,
-            language: whisperResponse.data.language || 'en',
-            duration: calculateAudioDuration(blob.size),
-            segments: whisperResponse.data.segments || generateBasicSegments(whisperResponse.data.text, calculateAudioDuration(blob.size))
-          };
-        } catch (whisperError) {
-          console.warn('[transcriptionService] Whisper transcription via proxy failed:', whisperError);
-          
-          // If Whisper fails, try Gemini
-          if (!geminiKey) {
-            throw whisperError; // Re-throw if we don't have a Gemini key
-          }
-        }
+      formData.append('file', new File([blob], `audio.${extension}`, { type: mimeType }));
+    } else {
+      formData.append('file', nativeFormDataFile({
+        uri: fileUri,
+        type: mimeType,
+        name: `audio.${extension}`
+      }));
+    }
+    
+    // whisper.cpp ignores the model field; faster-whisper servers use it to pick a model
+    formData.append('model', 'whisper-1');
+    formData.append('language', 'en');
+    formData.append('temperature', '0');
+    appendVerboseFormFields(formData);
+    
+    console.log('[transcriptionService] Sending request to local transcription server:', endpoint);
+    
+    // Local inference is slower than the cloud APIs, so allow more time
+    const response = await axios.post(endpoint, formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+      timeout: 300000, // 5 minutes timeout
+    });
+    
+    return mapVerboseTranscription(response.data, await getAudioDuration(fileUri));
+  } catch (error) {
+    console.error('Local transcription service error:', error);
+    
+    if (axios.isAxiosError(error)) {
+      if (!error.response) {
+        throw new Error(`Local transcription server unreachable: ${error.message}`);
       }
       
-      // Try Gemini as fallback via proxy server
-      if (geminiKey) {
-        try {
-          console.log('[transcriptionService] Attempting Gemini transcription via proxy server');
-          
-          // Convert to base64 for processing
-          const base64Audio = await new Promise<string>((resolve, reject) => {
-            const reader = new FileReader();
-            reader.onloadend = () => {
-              const dataUrl = reader.result as string;
-              const base64 = dataUrl.split(',')[1];
-              resolve(base64);
-            };
-            reader.onerror = reject;
-            reader.readAsDataURL(blob);
-          });
-          
-          // Determine file extension and MIME type
-          const extension = fileUri.split('.').pop()?.toLowerCase() || 'm4a';
-          const mimeType = getMimeType(extension);
-          
-          // Send to proxy server
-          const geminiResponse = await axios.post(`${PROXY_SERVER_URL}/api/gemini`, {
-            contents: [{
-              parts: [{
-                inline_data: {
-                  mime_type: mimeType,
-                  data: base64Audio
-                }
-              }]
-            }],
-            generationConfig: {
-              maxOutputTokens: 2048,
-            }
-          }, {
-            headers: {
-              'Content-Type': 'application/json',
-              'x-api-key': geminiKey
-            },
-            timeout: 60000 // 60 seconds timeout
-          });
-          
-          console.log('[transcriptionService] Received response from Gemini API via proxy:', geminiResponse.data);
-          
-          // Extract the transcription text from response
-          const text = geminiResponse.data?.candidates?.[0]?.content?.parts?.[0]?.text || '';
-          
-          return {
-            text: text,
-            confidence: 0.85, // Default confidence for Gemini
-            language: 'en',
-            duration: calculateAudioDuration(blob.size),
-            segments: generateBasicSegments(text, calculateAudioDuration(blob.size))
-          };
-        } catch (geminiError) {
-          console.error('[transcriptionService] Gemini transcription via proxy failed:', geminiError);
-          throw geminiError;
+      const statusCode = error.response.status;
+      const errorMessage = error.response.data?.error?.message || error.response.data?.error || error.message;
+      throw new Error(`Local transcription server error (${statusCode}): ${errorMessage}`);
+    }
+    
+    throw new Error(`Failed to transcribe audio locally: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Transcribes audio with Whisper through the local proxy server (web only, avoids CORS)
+ * @param fileUri - URI to the audio file
+ * @returns Promise with transcription result
+ */
+async function transcribeAudioWithWhisperProxy(fileUri: string): Promise<Transcription> {
+  const openAIKey = await getOpenAIKey();
+  
+  console.log('[transcriptionService] Attempting Whisper transcription via proxy server');
+  
+  // For web, we need to fetch the blob first
+  const response = await fetch(fileUri);
+  const blob = await response.blob();
+  
+  // Create a FormData object to send the file
+  const formData = new FormData();
+  
+  // Determine file extension and MIME type
+  const extension = fileUri.split('.').pop()?.toLowerCase() || 'm4a';
+  const mimeType = getMimeType(extension);
+  
+  // Create a File object from the blob
+  const file = new File([blob], `audio.${extension}`, { type: mimeType });
+  
+  // Add the file to FormData
+  formData.append('file', file);
+  appendVerboseFormFields(formData);
+  
+  console.log('[transcriptionService] Sending request to proxy server with file:', file.name, file.size, 'bytes');
+  
+  // Send to proxy server
+  const whisperResponse = await axios.post(`${PROXY_SERVER_URL}/api/whisper`, formData, {
+    headers: {
+      'x-api-key': openAIKey
+    },
+    timeout: 180000 // 3 minutes timeout
+  });
+  
+  console.log('[transcriptionService] Received response from Whisper API via proxy:', whisperResponse.data);
+  
+  // Process the response
+  return mapVerboseTranscription(whisperResponse.data, await getAudioDuration(fileUri));
+}
+
+/**
+ * Transcribes audio with Gemini through the local proxy server (web only, avoids CORS)
+ * @param fileUri - URI to the audio file
+ * @returns Promise with transcription result
+ */
+async function transcribeAudioWithGeminiProxy(fileUri: string): Promise<Transcription> {
+  const geminiKey = await getGeminiKey();
+  
+  console.log('[transcriptionService] Attempting Gemini transcription via proxy server');
+  
+  // For web, we need to fetch the blob first
+  const response = await fetch(fileUri);
+  const blob = await response.blob();
+  
+  // Convert to base64 for processing
+  const base64Audio = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const dataUrl = reader.result as string;
+      const base64 = dataUrl.split(',')[1];
+      resolve(base64);
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+  
+  // Determine file extension and MIME type
+  const extension = fileUri.split('.').pop()?.toLowerCase() || 'm4a';
+  const mimeType = getMimeType(extension);
+  
+  // Send to proxy server
+  const geminiResponse = await axios.post(`${PROXY_SERVER_URL}/api/gemini`, {
+    contents: [{
+      parts: [{
+        inline_data: {
+          mime_type: mimeType,
+          data: base64Audio
         }
+      }]
+    }],
+    generationConfig: {
+      maxOutputTokens: 2048,
+    }
+  }, {
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': geminiKey
+    },
+    timeout: 180000 // 3 minutes timeout
+  });
+  
+  console.log('[transcriptionService] Received response from Gemini API via proxy:', geminiResponse.data);
+  
+  // Extract the transcription text from response
+  const text = geminiResponse.data?.candidates?.[0]?.content?.parts?.[0]?.text || '';
+  const duration = await getAudioDuration(fileUri);
+  
+  return {
+    text: text,
+    confidence: 0.85, // Default confidence for Gemini
+    language: 'en',
+    duration,
+    segments: generateBasicSegments(text, duration)
+  };
+}
+
+// Built-in providers. On web both go through the proxy server to avoid CORS.
+registerTranscriptionProvider({
+  id: 'whisper',
+  name: 'OpenAI Whisper',
+  isAvailable: async () => !!(await getOpenAIKey().catch(() => '')),
+  transcribe: (fileUri) => isWeb
+    ? transcribeAudioWithWhisperProxy(fileUri)
+    : transcribeAudioWithWhisper(fileUri),
+});
+
+registerTranscriptionProvider({
+  id: 'gemini',
+  name: 'Google Gemini',
+  isAvailable: async () => !!(await getGeminiKey().catch(() => '')),
+  transcribe: (fileUri) => isWeb
+    ? transcribeAudioWithGeminiProxy(fileUri)
+    : transcribeAudioWithGemini(fileUri),
+});
+
+registerTranscriptionProvider({
+  id: 'local-whisper',
+  name: 'Local Whisper Server',
+  isAvailable: async () => !!(await getLocalWhisperUrl().catch(() => '')),
+  isLocal: true,
+  transcribe: transcribeAudioWithLocalWhisper,
+});
+
+/**
+ * Main transcription function. Tries each enabled provider in the configured
+ * order and falls back to the next one when a provider fails. In local-only
+ * mode only local providers are tried. Long recordings
+ * are split into overlapping chunks, transcribed with bounded concurrency and
+ * stitched back into a single transcription.
+ * @param fileUri - URI to the audio file
+ * @param onProgress - Optional callback for per-chunk progress
+ * @returns Promise with transcription result
+ */
+export async function transcribeAudio(
+  fileUri: string,
+  onProgress?: TranscriptionProgressCallback
+): Promise<Transcription> {
+  console.log('[transcriptionService] Starting transcription for file:', fileUri);
+  
+  if (!fileUri) {
+    throw new Error('No audio file provided for transcription');
+  }
+  
+  // Get file info safely
+  const fileInfo = await safeGetFileInfo(fileUri);
+  
+  if (!fileInfo.exists) {
+    throw new Error('Audio file does not exist');
+  }
+  
+  const chain = await getConfiguredProviderChain();
+  
+  onProgress?.({ stage: 'preparing', completedChunks: 0, totalChunks: 1 });
+  
+  const duration = await getAudioDuration(fileUri);
+  const chunks = await splitAudioIntoChunks(fileUri, duration).catch(error => {
+    console.warn('[transcriptionService] Could not split audio, sending as a single file:', error);
+    return null;
+  });
+  
+  if (!chunks) {
+    onProgress?.({ stage: 'transcribing', completedChunks: 0, totalChunks: 1 });
+    const result = await transcribeWithProviderChain(fileUri, chain);
+    onProgress?.({ stage: 'transcribing', completedChunks: 1, totalChunks: 1 });
+    return result;
+  }
+  
+  try {
+    let completedChunks = 0;
+    onProgress?.({ stage: 'transcribing', completedChunks, totalChunks: chunks.length });
+    
+    const results = await mapWithConcurrency(chunks, MAX_CONCURRENT_CHUNKS, async (chunk) => {
+      try {
+        const result = await transcribeWithProviderChain(chunk.uri, chain);
+        completedChunks++;
+        onProgress?.({ stage: 'transcribing', completedChunks, totalChunks: chunks.length });
+        return result;
+      } catch (chunkError) {
+        throw new Error(
+          `Chunk ${chunk.index + 1} of ${chunks.length} failed: ` +
+          `${chunkError instanceof Error ? chunkError.message : String(chunkError)}`
+        );
       }
-      
-      // If we get here, we have no working API
-      throw new Error(
-        'Transcription on web platforms requires a running proxy server. ' +
-        'Please start the proxy server with "npm start" in the proxy-server directory, ' +
-        'or use the mobile app for direct API access.'
-      );
-    } catch (error) {
-      console.error('[transcriptionService] Web transcription error:', error);
-      throw error;
+    });
+    
+    onProgress?.({ stage: 'merging', completedChunks, totalChunks: chunks.length });
+    return mergeChunkTranscriptions(chunks, results, duration);
+  } finally {
+    await cleanupAudioChunks(chunks);
+  }
+}
+
+/**
+ * Transcribe a single file (such as a live recording chunk) with the
+ * configured providers, without measuring or splitting it first
+ * @param fileUri - URI to the audio file
+ * @returns Promise with transcription result, timed relative to the file
+ */
+export async function transcribeWithConfiguredProviders(fileUri: string): Promise<Transcription> {
+  return transcribeWithProviderChain(fileUri, await getConfiguredProviderChain());
+}
+
+/**
+ * Build the provider fallback chain from settings. When the signed-in user has
+ * chosen local-only transcription, cloud providers are left out entirely so a
+ * failing local server never sends the audio elsewhere.
+ */
+async function getConfiguredProviderChain(): Promise<TranscriptionProvider[]> {
+  const order = await getTranscriptionProviderOrder();
+  const disabled = await getDisabledTranscriptionProviders();
+  const chain = resolveProviderChain(order, disabled);
+  
+  const userId = getAuth().currentUser?.uid;
+  if (!userId || !(await getLocalOnlyTranscription(userId))) {
+    return chain;
+  }
+  
+  const localChain = chain.filter(provider => provider.isLocal);
+  const availability = await Promise.all(localChain.map(provider => provider.isAvailable()));
+  if (!availability.some(Boolean)) {
+    throw new Error(
+      'Local-only transcription is on, but no local transcription server is set up. ' +
+      'Set the local server URL in Settings or turn local-only transcription off.'
+    );
+  }
+  
+  return localChain;
+}
+
+/**
+ * Try each provider in the chain until one succeeds
+ */
+async function transcribeWithProviderChain(fileUri: string, chain: TranscriptionProvider[]): Promise<Transcription> {
+  const errors: string[] = [];
+  let attempted = 0;
+  
+  for (const provider of chain) {
+    if (!(await provider.isAvailable())) {
+      console.log(`[transcriptionService] Skipping ${provider.id}: not configured`);
+      continue;
     }
-  } else {
-    // Native platform flow
+    
+    attempted++;
+    
     try {
-      // Try Whisper first
-      console.log('[transcriptionService] Attempting Whisper transcription on native');
-      return await transcribeAudioWithWhisper(fileUri);
-    } catch (whisperError) {
-      console.warn('[transcriptionService] Whisper transcription failed on native, trying Gemini as fallback:', whisperError);
+      console.log(`[transcriptionService] Attempting ${provider.id} transcription`);
+      return await provider.transcribe(fileUri);
+    } catch (providerError) {
+      const message = providerError instanceof Error ? providerError.message : String(providerError);
+      console.warn(`[transcriptionService] ${provider.id} transcription failed:`, providerError);
+      errors.push(`${provider.name} error: ${message}`);
       
-      // Check if we hit a rate limit with Whisper
-      const isRateLimit = whisperError instanceof Error && 
-                          (whisperError.message.includes('429') || 
-                           whisperError.message.includes('rate limit'));
+      // Check if we hit a rate limit
+      const isRateLimit = message.includes('429') || message.includes('rate limit');
       
       if (isRateLimit) {
-        console.log('[transcriptionService] Whisper rate limit detected, waiting before trying Gemini');
+        console.log('[transcriptionService] Rate limit detected, waiting before trying next provider');
         // Wait a moment before trying the fallback
         await new Promise(resolve => setTimeout(resolve, 1000));
       }
+    }
+  }
+  
+  if (attempted === 0) {
+    throw new Error('No valid API keys found. Please configure your API keys in the settings.');
+  }
+  
+  if (attempted === 1) {
+    throw new Error(errors[0]);
+  }
+  
+  // Throw a comprehensive error
+  throw new Error(
+    `Transcription failed with all ${attempted} services. ` +
+    'Please check your API keys and internet connection. ' +
+    errors.join('. ')
+  );
+}
+
+/**
+ * Run an async function over items with at most `limit` in flight, keeping result order
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Stitch chunk transcriptions into one. At each overlap we look for a pause
+ * where a segment of the earlier chunk ends and a segment of the later chunk
+ * starts, and cut there; without one we cut in the middle of the overlap.
+ * Segments and words are then owned by whichever side of the cut their
+ * midpoint falls on, and any words still repeated across the seam are
+ * removed from the text by matching them.
+ */
+export function mergeChunkTranscriptions(chunks: AudioChunk[], results: Transcription[], duration: number): Transcription {
+  // Silent chunks have no segments at all and should not force estimated timing
+  const hasRealSegments = results.some(result => result.text.trim()) && results.every(result =>
+    !result.text.trim() ||
+    ((result.segments || []).length > 0 && (result.segments || []).every(segment => !segment.synthetic))
+  );
+  
+  // Shift everything onto the timeline of the original recording
+  const chunkSegments = results.map((result, index) => (result.segments || []).map(segment => ({
+    ...segment,
+    start: segment.start + chunks[index].start,
+    end: segment.end + chunks[index].start,
+  })));
+  const chunkWords = results.map((result, index) => (result.wordTimestamps || []).map(word => ({
+    ...word,
+    start: word.start + chunks[index].start,
+    end: word.end + chunks[index].start,
+  })));
+  
+  const cuts = chunks.slice(1).map((chunk, index) =>
+    findChunkCut(chunkSegments[index], chunkSegments[index + 1], chunk.start, chunks[index].end)
+  );
+  
+  const segments: Segment[] = [];
+  const wordTimestamps: WordTimestamp[] = [];
+  let mergedText = '';
+  
+  chunks.forEach((chunk, index) => {
+    const keepFrom = index === 0 ? -Infinity : cuts[index - 1];
+    const keepUntil = index === chunks.length - 1 ? Infinity : cuts[index];
+    const owns = (start: number, end: number) => {
+      const midpoint = (start + end) / 2;
+      return midpoint >= keepFrom && midpoint < keepUntil;
+    };
+    
+    if (hasRealSegments) {
+      // A segment straddling the cut that the previous chunk dropped is kept
+      // here too when it carries audio past what has been kept so far
+      const lastKeptEnd = segments.length > 0 ? segments[segments.length - 1].end : -Infinity;
+      const kept = chunkSegments[index].filter(segment =>
+        owns(segment.start, segment.end) ||
+        (segment.start < keepFrom && segment.end > lastKeptEnd + CUT_TOLERANCE_SECONDS)
+      );
       
-      try {
-        // Try Gemini as fallback
-        console.log('[transcriptionService] Attempting Gemini transcription on native');
-        return await transcribeAudioWithGemini(fileUri);
-      } catch (geminiError) {
-        console.error('[transcriptionService] Both transcription services failed on native');
-        console.error('[transcriptionService] Whisper error:', whisperError);
-        console.error('[transcriptionService] Gemini error:', geminiError);
+      // Segments are already trimmed at the cut, so words in a segment that
+      // overlaps audio already kept and repeat the end of the text are duplicates
+      kept.forEach(segment => {
+        const overlapsKept = segments.length > 0 && segment.start < segments[segments.length - 1].end;
+        const text = overlapsKept
+          ? trimRepeatedWords(mergedText, segment.text, 1)
+          : segment.text.trim();
         
-        // Throw a comprehensive error
-        throw new Error(
-          'Transcription failed with both services. ' +
-          'Please check your API keys and internet connection. ' +
-          `Whisper error: ${whisperError instanceof Error ? whisperError.message : String(whisperError)}. ` +
-          `Gemini error: ${geminiError instanceof Error ? geminiError.message : String(geminiError)}`
-        );
-      }
+        if (!text) return;
+        
+        mergedText = mergedText ? `${mergedText} ${text}` : text;
+        segments.push({ ...segment, text, id: segments.length });
+      });
+    } else {
+      const text = trimRepeatedWords(mergedText, results[index].text, MIN_OVERLAP_WORDS);
+      mergedText = mergedText && text ? `${mergedText} ${text}` : mergedText || text;
+    }
+    
+    chunkWords[index]
+      .filter(word => owns(word.start, word.end))
+      .forEach(word => wordTimestamps.push({ word: word.word, start: word.start, end: word.end }));
+  });
+  
+  // Weight each chunk's confidence by the length of audio it covered
+  const totalSpan = chunks.reduce((sum, chunk) => sum + (chunk.end - chunk.start), 0);
+  const confidence = totalSpan > 0
+    ? results.reduce((sum, result, index) => sum + result.confidence * (chunks[index].end - chunks[index].start), 0) / totalSpan
+    : results[0]?.confidence || 0.9;
+  
+  return {
+    text: mergedText,
+    confidence,
+    language: results[0]?.language || 'en',
+    duration,
+    segments: hasRealSegments ? segments : generateBasicSegments(mergedText, duration),
+    wordTimestamps: wordTimestamps.length > 0 ? wordTimestamps : undefined,
+  };
+}
+
+/**
+ * Pick the cut point between two overlapping chunks: the segment boundary in
+ * the overlap that both chunks agree on and that is closest to its middle
+ */
+function findChunkCut(previous: Segment[], next: Segment[], overlapStart: number, overlapEnd: number): number {
+  const midpoint = (overlapStart + overlapEnd) / 2;
+  let best: number | null = null;
+  
+  for (const segment of previous) {
+    if (segment.end < overlapStart || segment.end > overlapEnd) continue;
+    
+    const agrees = next.some(candidate => Math.abs(candidate.start - segment.end) <= CUT_TOLERANCE_SECONDS);
+    if (agrees && (best === null || Math.abs(segment.end - midpoint) < Math.abs(best - midpoint))) {
+      best = segment.end;
     }
   }
+  
+  return best ?? midpoint;
 }
 
 /**
- * Estimate audio duration based on file size (rough approximation)
- * Assumes 16kHz mono audio at ~16Kbps
+ * Drop the words at the start of `next` that repeat the end of `previous`
+ * (the audio overlap between chunks) and return what is left of `next`
  */
-function calculateAudioDuration(fileSize: number): number {
-  // Rough estimate: ~2KB per second for compressed audio
-  return fileSize / 2000;
+function trimRepeatedWords(previous: string, next: string, minOverlap: number): string {
+  const trimmed = next.trim();
+  if (!previous || !trimmed) return trimmed;
+  
+  const normalize = (word: string) => word.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const previousWords = previous.split(/\s+/);
+  const nextWords = trimmed.split(/\s+/);
+  const maxOverlap = Math.min(MAX_OVERLAP_WORDS, previousWords.length, nextWords.length);
+  
+  for (let size = maxOverlap; size >= minOverlap; size--) {
+    const tail = previousWords.slice(-size).map(normalize).join(' ');
+    const head = nextWords.slice(0, size).map(normalize).join(' ');
+    
+    if (tail === head) {
+      return nextWords.slice(size).join(' ');
+    }
+  }
+  
+  return trimmed;
 }
 
 /**
@@ -607,9 +992,15 @@ function getMimeType(extension: string): string {
 }
 
 /**
- * Generate basic segments from text when API doesn't provide them
+ * Generate basic segments from text when API doesn't provide them.
+ * Last resort only: timings are evenly divided estimates and every segment
+ * is marked as synthetic so the UI can avoid presenting them as real.
  */
 function generateBasicSegments(text: string, totalDuration: number): Segment[] {
+  if (!text || !text.trim()) {
+    return [];
+  }
+  
   // Split text into sentences (simple approach)
   const sentences = text.split(/(?<=[.!?])\s+/);
   
@@ -625,7 +1016,109 @@ function generateBasicSegments(text: string, totalDuration: number): Segment[] {
       text: sentence.trim(),
       start,
       end,
-      confidence: 0.85 // Default confidence
+      confidence: 0.85, // Default confidence
+      synthetic: true
     };
   });
-}
\ No newline at end of file
+}
+
+/**
+ * Ask a Whisper-compatible endpoint for verbose_json with segment and word timings
+ */
+function appendVerboseFormFields(formData: FormData): void {
+  formData.append('response_format', 'verbose_json');
+  formData.append('timestamp_granularities[]', 'segment');
+  formData.append('timestamp_granularities[]', 'word');
+}
+
+/**
+ * Convert a Whisper-style verbose_json response into a Transcription.
+ * Works with OpenAI, whisper.cpp and faster-whisper responses, which put
+ * word timings either on each segment or in a top-level `words` array.
+ */
+export function mapVerboseTranscription(data: unknown, measuredDuration: number): Transcription {
+  const response = isRecord(data) ? data : {};
+  const text = trimmedText(response.text);
+  const rawSegments = recordsIn(response.segments);
+  
+  const segments: Segment[] = rawSegments.map((segment, index) => ({
+    id: typeof segment.id === 'number' ? segment.id : index,
+    text: trimmedText(segment.text),
+    start: Number(segment.start) || 0,
+    end: Number(segment.end) || 0,
+    confidence: logprobToConfidence(segment.avg_logprob),
+  }));
+  
+  const rawWords = Array.isArray(response.words)
+    ? recordsIn(response.words)
+    : rawSegments.flatMap(segment => recordsIn(segment.words));
+  
+  const wordTimestamps: WordTimestamp[] = rawWords.map(word => ({
+    word: trimmedText(word.word),
+    start: Number(word.start) || 0,
+    end: Number(word.end) || 0,
+  }));
+  
+  // Prefer the duration measured from the file itself over what the engine reports
+  const duration = measuredDuration > 0
+    ? measuredDuration
+    : Number(response.duration) || segments[segments.length - 1]?.end || 0;
+  
+  // Overall confidence is the duration-weighted mean of the segment confidences
+  const totalSpan = segments.reduce((sum, segment) => sum + Math.max(segment.end - segment.start, 0), 0);
+  const confidence = segments.length > 0 && totalSpan > 0
+    ? segments.reduce((sum, segment) => sum + segment.confidence * Math.max(segment.end - segment.start, 0), 0) / totalSpan
+    : 0.9;
+  
+  return {
+    text,
+    confidence,
+    language: normalizeLanguage(response.language),
+    duration,
+    segments: segments.length > 0 ? segments : generateBasicSegments(text, duration),
+    wordTimestamps: wordTimestamps.length > 0 ? wordTimestamps : undefined,
+  };
+}
+
+/**
+ * Narrow a parsed JSON value to an object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * The objects in a response field that should be an array of them
+ */
+function recordsIn(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+/**
+ * A response field as trimmed text, empty when it is not a string
+ */
+function trimmedText(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+/**
+ * Convert a Whisper average log probability into a 0-1 confidence score
+ */
+function logprobToConfidence(avgLogprob: unknown): number {
+  if (typeof avgLogprob !== 'number' || !isFinite(avgLogprob)) {
+    return 0.9; // Default when the engine does not report it
+  }
+  
+  return Math.min(Math.max(Math.exp(avgLogprob), 0), 1);
+}
+
+/**
+ * Whisper reports full language names ("english") in verbose_json
+ */
+function normalizeLanguage(language: unknown): string {
+  if (typeof language !== 'string' || !language) {
+    return 'en';
+  }
+  
+  return language.toLowerCase() === 'english' ? 'en' : language;
+}
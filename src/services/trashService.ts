@@ -0,0 +1,70 @@
+// services/trashService.ts
+// Deleting a note moves it to the trash (see deleteNote in notesRepository).
+// It can be restored from there until it is purged, by hand or once it has
+// been in the trash longer than the retention period.
+import { getTrashedNotes, purgeNotes, restoreNotes } from './notesRepository';
+import { cacheNote } from './noteSyncService';
+import { getTrashRetentionDays } from '../utils/apiKeyManager';
+import { Note } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Notes purged per request
+const PURGE_BATCH_SIZE = 100;
+
+export { getTrashedNotes };
+
+/**
+ * When a note in the trash is purged automatically
+ */
+export function getPurgeDate(note: Note, retentionDays: number): Date | null {
+  const deletedAt = Date.parse(note.deletedAt || '');
+  return isNaN(deletedAt) ? null : new Date(deletedAt + retentionDays * DAY_MS);
+}
+
+/**
+ * Take notes out of the trash. They are back on this device straight away;
+ * other devices pull them in like any other change.
+ * @returns The notes as restored
+ */
+export async function restoreFromTrash(ids: string[]): Promise<Note[]> {
+  const restored = await restoreNotes(ids);
+
+  for (const note of restored) {
+    await cacheNote(note).catch(error => console.warn('[trashService] Could not store restored note on this device:', error));
+  }
+
+  return restored;
+}
+
+/**
+ * Delete notes in the trash for good
+ * @returns Number of notes deleted
+ */
+export async function purgeFromTrash(ids: string[]): Promise<number> {
+  let purged = 0;
+  for (let start = 0; start < ids.length; start += PURGE_BATCH_SIZE) {
+    purged += (await purgeNotes(ids.slice(start, start + PURGE_BATCH_SIZE))).length;
+  }
+  return purged;
+}
+
+export async function emptyTrash(): Promise<number> {
+  return purgeFromTrash((await getTrashedNotes()).map(note => note.id));
+}
+
+/**
+ * Delete the notes that have been in the trash longer than the retention period
+ * @returns Number of notes deleted
+ */
+export async function purgeExpiredNotes(): Promise<number> {
+  const retentionDays = await getTrashRetentionDays();
+  const now = Date.now();
+
+  const expired = (await getTrashedNotes()).filter(note => {
+    const purgeDate = getPurgeDate(note, retentionDays);
+    return purgeDate !== null && purgeDate.getTime() <= now;
+  });
+  if (expired.length === 0) return 0;
+
+  return purgeFromTrash(expired.map(note => note.id));
+}
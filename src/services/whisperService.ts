@@ -2,6 +2,8 @@ import axios from 'axios';
 import * as FileSystem from 'expo-file-system';
 import { Transcription } from '../types';
 import { getOpenAIKey, getOpenAIUrl } from '../utils/apiKeyManager';
+import { mapVerboseTranscription } from './transcriptionService';
+import { getAudioDuration } from './audioDurationService';
 
 /**
  * Transcribes audio using OpenAI's Whisper API without cloud storage
@@ -39,8 +41,10 @@ export async function transcribeAudio(fileUri: string): Promise<Transcription> {
     // Optional: Add language parameter if you know the language
     formData.append('language', 'en');
     
-    // Optional: Add response_format for JSON
-    formData.append('response_format', 'json');
+    // Request verbose JSON so we get real segment and word timings
+    formData.append('response_format', 'verbose_json');
+    formData.append('timestamp_granularities[]', 'segment');
+    formData.append('timestamp_granularities[]', 'word');
     
     // Call the Whisper API
     const response = await axios({
@@ -54,13 +58,8 @@ export async function transcribeAudio(fileUri: string): Promise<Transcription> {
       timeout: timeout,
     });
     
-    // Process Whisper API response
-    return {
-      text: response.data.text || '',
-      confidence: 0.9, // Whisper doesn't provide confidence scores
-      language: response.data.language || 'en',
-      duration: 0, // Whisper doesn't provide duration
-    };
+    // Process Whisper API response (confidence is derived from avg_logprob)
+    return mapVerboseTranscription(response.data, await getAudioDuration(fileUri));
   } catch (error) {
     console.error('Whisper transcription error:', error);
     
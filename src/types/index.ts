@@ -11,7 +11,91 @@ export interface Note {
   audioFileUrl?: string;
   audioFileName?: string;
   updatedAt?: string;
-  duration?: string;
+  duration?: string; // Recording length in seconds
+  templateId?: string; // Note template the content follows
+  updatedBy?: string; // User ID of the last editor
+  editLog?: NoteEdit[]; // Who changed which fields and when, oldest first
+  status?: NoteStatus; // Missing on notes saved before signing existed, treated as draft
+  signature?: NoteSignature | null;
+  deletedAt?: string | null; // When the note was moved to the trash; null unless it is there
+}
+
+export type NoteStatus = 'draft' | 'pending_review' | 'signed' | 'amended';
+
+// Who signed a note, when, and what they attested to
+export interface NoteSignature {
+  by: string;
+  byName?: string;
+  at: string;
+  attestation: string;
+}
+
+// Late finding or correction appended to a note. Addenda are never edited,
+// so the original text and every addendum keep their own timestamps.
+export interface NoteAddendum {
+  id: string;
+  noteId: string;
+  userId: string;
+  authorName?: string | null;
+  createdAt: string;
+  reason: string;
+  text: string;
+  audioFileUrl?: string | null; // Dictated audio the text was transcribed from
+  audioDuration?: number | null; // Seconds
+}
+
+export type NoteRevisionReason = 'created' | 'edited' | 'restored';
+
+// Immutable snapshot of a note, one per save
+export interface NoteRevision {
+  id: string;
+  noteId: string;
+  revisionNumber: number;
+  userId: string;
+  authorName?: string | null;
+  createdAt: string;
+  reason: NoteRevisionReason;
+  restoredFrom?: number | null; // Revision number the content was restored from
+  changedFields: string[];
+  title: string;
+  content: string;
+  procedureType: string;
+  tags: string[];
+}
+
+export interface NoteEdit {
+  at: string;
+  by: string;
+  byName?: string;
+  fields: string[];
+}
+
+// Narrows a list of notes; a note must match every criterion that is set
+export interface NoteFilters {
+  createdFrom?: string; // YYYY-MM-DD in local time, inclusive
+  createdTo?: string; // YYYY-MM-DD in local time, inclusive
+  procedureTypes?: string[]; // Any of these
+  includeTags?: string[]; // All of these
+  excludeTags?: string[]; // None of these
+  templateIds?: string[]; // Any of these
+  hasAudio?: boolean;
+  statuses?: NoteStatus[]; // Any of these
+}
+
+// Filters the user saved under a name to reuse later
+export interface SavedNoteFilter {
+  id: string;
+  name: string;
+  filters: NoteFilters;
+  createdAt: string;
+}
+
+// Institution details printed at the top of exported PDFs
+export interface Letterhead {
+  institutionName: string;
+  address: string; // May span several lines
+  contact: string; // Phone, fax or email
+  logoUrl: string;
 }
   
   export interface AudioUploadResult {
@@ -22,29 +106,32 @@ export interface Note {
     storagePath?: string;
   }
 
+  // A titled part of a generated note, e.g. HISTORY or PLAN
+  export interface NoteSection {
+    heading: string;
+    content: string;
+  }
+
+  export interface Medication {
+    name: string;
+    dose?: string;
+    route?: string;
+    frequency?: string;
+  }
+
+  // Structured medical note generated from a transcription
   export interface GeminiResponse {
-    candidates?: Array<{
-      content: {
-        parts: Array<{
-          text: string;
-        }>;
-      };
-      finishReason: string;
-      safetyRatings: Array<{
-        category: string;
-        probability: string;
-      }>;
-    }>;
-    promptFeedback?: {
-      safetyRatings: Array<{
-        category: string;
-        probability: string;
-      }>;
-    };
+    title: string;
     procedureType: string;
-    title?: string;  // Add this
-    content?: string; // Add this
-    tags?: string[];  // Add this
+    sections: NoteSection[];
+    diagnoses: string[];
+    medications: Medication[];
+    tags: string[];
+    followUp: string;
+    // Template the sections follow
+    templateId: string;
+    // Markdown rendering of the fields above, stored as the note content
+    content: string;
   }
 
 // Transcription result
@@ -53,6 +140,14 @@ export interface Transcription {
   confidence?: number;
   language?: string;
   duration?: number;
+  segments?: Array<{
+    id: number;
+    text: string;
+    start: number;
+    end: number;
+    confidence: number;
+    synthetic?: boolean;
+  }>;
   wordTimestamps?: Array<{
     word: string;
     start: number;
@@ -60,29 +155,6 @@ export interface Transcription {
   }>;
 }
 
-// Gemini API response structure
-export interface GeminiResponse {
-  candidates?: Array<{
-    content: {
-      parts: Array<{
-        text: string;
-      }>;
-    };
-    finishReason: string;
-    safetyRatings: Array<{
-      category: string;
-      probability: string;
-    }>;
-  }>;
-  promptFeedback?: {
-    safetyRatings: Array<{
-      category: string;
-      probability: string;
-    }>;
-  };
-  procedureType: string;
-}
-
 // User profile
 export interface UserProfile {
   uid: string;
@@ -0,0 +1,70 @@
+import {
+  decodeBase64,
+  encodeBase64,
+  parseMp3FrameHeader,
+  readEbmlId,
+  readEbmlSize,
+  readUint32LE,
+  uint32LE,
+} from '../audioBytes';
+
+describe('base64', () => {
+  it('round-trips bytes longer than one encoding slice', () => {
+    const bytes = Uint8Array.from({ length: 0x8000 * 2 + 5 }, (_, index) => index % 256);
+
+    expect(decodeBase64(encodeBase64(bytes))).toEqual(bytes);
+  });
+
+  it('ignores line breaks in the input', () => {
+    expect(Array.from(decodeBase64('AAEC\nAwQ='))).toEqual([0, 1, 2, 3, 4]);
+  });
+});
+
+describe('parseMp3FrameHeader', () => {
+  it('reads bitrate, sample rate and channels of an MPEG-1 Layer III frame', () => {
+    expect(parseMp3FrameHeader(Uint8Array.from([0xFF, 0xFB, 0x90, 0xC4]), 0)).toEqual({
+      isMpeg1: true,
+      isMono: true,
+      bitrate: 128000,
+      sampleRate: 44100,
+      samplesPerFrame: 1152,
+    });
+  });
+
+  it('halves the sample rate for MPEG-2', () => {
+    expect(parseMp3FrameHeader(Uint8Array.from([0xFF, 0xF3, 0x90, 0x64]), 0)).toMatchObject({
+      isMpeg1: false,
+      bitrate: 80000,
+      sampleRate: 22050,
+      samplesPerFrame: 576,
+    });
+  });
+
+  it('rejects reserved values', () => {
+    // Bitrate index 15 and sample rate index 3
+    expect(parseMp3FrameHeader(Uint8Array.from([0xFF, 0xFB, 0xF0, 0x64]), 0)).toBeNull();
+    expect(parseMp3FrameHeader(Uint8Array.from([0xFF, 0xFB, 0x9C, 0x64]), 0)).toBeNull();
+  });
+});
+
+describe('EBML', () => {
+  it('reads ids with their length marker', () => {
+    expect(readEbmlId(Uint8Array.from([0x1A, 0x45, 0xDF, 0xA3]), 0)).toEqual({ value: 0x1A45DFA3, length: 4 });
+    expect(readEbmlId(Uint8Array.from([0x00]), 0)).toBeNull();
+  });
+
+  it('reads sizes without their length marker', () => {
+    expect(readEbmlSize(Uint8Array.from([0x81]), 0)).toEqual({ value: 1, length: 1, unknown: false });
+    expect(readEbmlSize(Uint8Array.from([0x40, 0x02]), 0)).toEqual({ value: 2, length: 2, unknown: false });
+  });
+
+  it('flags an all-ones size as unknown', () => {
+    expect(readEbmlSize(Uint8Array.from([0x01, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF]), 0)).toMatchObject({ unknown: true });
+  });
+});
+
+describe('little-endian integers', () => {
+  it('reads back values above 2^31 without going negative', () => {
+    expect(readUint32LE(uint32LE(0xFFFFFFFF), 0)).toBe(0xFFFFFFFF);
+  });
+});
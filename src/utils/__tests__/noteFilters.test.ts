@@ -0,0 +1,104 @@
+import { Note } from '../../types';
+import {
+  compactNoteFilters,
+  countActiveFilters,
+  createdRangeBounds,
+  matchesNoteFilters,
+  parseFilterDate,
+  sameNoteFilters,
+} from '../noteFilters';
+
+// Local time, so the tests do not depend on the machine's time zone
+const localTime = (year: number, month: number, day: number, hour = 12) => new Date(year, month - 1, day, hour).toISOString();
+
+const note = (overrides: Partial<Note> = {}): Note => ({
+  id: 'note-1',
+  title: 'Knee arthroscopy',
+  content: '',
+  transcription: '',
+  procedureType: 'Arthroscopy',
+  tags: ['knee', 'sports'],
+  createdAt: localTime(2024, 3, 10),
+  ...overrides,
+});
+
+describe('parseFilterDate', () => {
+  it('parses YYYY-MM-DD as local midnight', () => {
+    expect(parseFilterDate(' 2024-03-10 ')).toEqual(new Date(2024, 2, 10));
+  });
+
+  it('rejects other formats and dates that roll over', () => {
+    expect(parseFilterDate('10/03/2024')).toBeNull();
+    expect(parseFilterDate('2024-02-31')).toBeNull();
+    expect(parseFilterDate(undefined)).toBeNull();
+  });
+});
+
+describe('createdRangeBounds', () => {
+  it('makes the end date inclusive by ending at the next midnight', () => {
+    expect(createdRangeBounds({ createdFrom: '2024-03-01', createdTo: '2024-03-10' })).toEqual({
+      start: new Date(2024, 2, 1).toISOString(),
+      end: new Date(2024, 2, 11).toISOString(),
+    });
+  });
+
+  it('leaves out bounds that are not valid dates', () => {
+    expect(createdRangeBounds({ createdFrom: 'soon' })).toEqual({ start: undefined, end: undefined });
+  });
+});
+
+describe('matchesNoteFilters', () => {
+  it('matches notes created on the last day of the range', () => {
+    expect(matchesNoteFilters(note({ createdAt: localTime(2024, 3, 10, 23) }), { createdTo: '2024-03-10' })).toBe(true);
+    expect(matchesNoteFilters(note({ createdAt: localTime(2024, 3, 11, 0) }), { createdTo: '2024-03-10' })).toBe(false);
+  });
+
+  it('leaves out notes without a creation date when a range is set', () => {
+    expect(matchesNoteFilters(note({ createdAt: undefined }), { createdFrom: '2024-01-01' })).toBe(false);
+  });
+
+  it('needs all included tags and none of the excluded ones', () => {
+    expect(matchesNoteFilters(note(), { includeTags: ['knee', 'sports'] })).toBe(true);
+    expect(matchesNoteFilters(note(), { includeTags: ['knee', 'hip'] })).toBe(false);
+    expect(matchesNoteFilters(note(), { excludeTags: ['sports'] })).toBe(false);
+  });
+
+  it('matches any of the listed procedure types, templates and statuses', () => {
+    expect(matchesNoteFilters(note(), { procedureTypes: ['Consultation', 'Arthroscopy'] })).toBe(true);
+    expect(matchesNoteFilters(note(), { templateIds: ['soap'] })).toBe(false);
+    expect(matchesNoteFilters(note({ templateId: 'soap' }), { templateIds: ['soap'] })).toBe(true);
+    expect(matchesNoteFilters(note({ status: 'signed' }), { statuses: ['draft', 'pending_review'] })).toBe(false);
+  });
+
+  it('counts notes saved before signing existed as drafts', () => {
+    expect(matchesNoteFilters(note({ status: undefined }), { statuses: ['draft'] })).toBe(true);
+  });
+
+  it('filters on whether the note has audio', () => {
+    expect(matchesNoteFilters(note(), { hasAudio: true })).toBe(false);
+    expect(matchesNoteFilters(note({ audioFileUrl: 'https://example.test/a.m4a' }), { hasAudio: true })).toBe(true);
+  });
+});
+
+describe('saved filters', () => {
+  it('counts a date range and tag criteria once each, without status', () => {
+    expect(countActiveFilters({
+      createdFrom: '2024-01-01',
+      createdTo: '2024-02-01',
+      includeTags: ['knee'],
+      excludeTags: ['hip'],
+      hasAudio: false,
+      statuses: ['signed'],
+    })).toBe(3);
+  });
+
+  it('drops empty criteria', () => {
+    expect(compactNoteFilters({ createdFrom: ' ', procedureTypes: [], hasAudio: false, includeTags: ['knee'] }))
+      .toEqual({ hasAudio: false, includeTags: ['knee'] });
+  });
+
+  it('compares filters regardless of key order and empty criteria', () => {
+    expect(sameNoteFilters({ includeTags: ['knee'], hasAudio: true }, { hasAudio: true, includeTags: ['knee'], excludeTags: [] })).toBe(true);
+    expect(sameNoteFilters({ includeTags: ['knee'] }, { includeTags: ['hip'] })).toBe(false);
+  });
+});
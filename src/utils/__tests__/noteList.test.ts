@@ -0,0 +1,75 @@
+import { Note } from '../../types';
+import { compareNotesNewestFirst, cursorAfter, groupNotesByDay, isAfterCursor, mergeNotes } from '../noteList';
+
+const note = (id: string, createdAt: string | undefined, title = id): Note => ({
+  id,
+  title,
+  content: '',
+  transcription: '',
+  procedureType: '',
+  tags: [],
+  createdAt,
+});
+
+const ids = (notes: Note[]) => notes.map(listed => listed.id);
+
+describe('note order and cursors', () => {
+  it('sorts newest first, then by ID, with undated notes last', () => {
+    const notes = [
+      note('a', '2024-03-10T09:00:00.000Z'),
+      note('b', undefined),
+      note('c', '2024-03-10T10:00:00.000Z'),
+      note('d', '2024-03-10T09:00:00.000Z'),
+    ];
+
+    expect(ids([...notes].sort(compareNotesNewestFirst))).toEqual(['c', 'd', 'a', 'b']);
+  });
+
+  it('puts notes created at the cursor time after it only when their ID is lower', () => {
+    const cursor = cursorAfter(note('m', '2024-03-10T09:00:00.000Z'));
+
+    expect(cursor).toEqual({ createdAt: '2024-03-10T09:00:00.000Z', id: 'm' });
+    expect(isAfterCursor(note('a', '2024-03-10T09:00:00.000Z'), cursor)).toBe(true);
+    expect(isAfterCursor(note('z', '2024-03-10T09:00:00.000Z'), cursor)).toBe(false);
+    expect(isAfterCursor(note('z', '2024-03-09T09:00:00.000Z'), cursor)).toBe(true);
+  });
+});
+
+describe('mergeNotes', () => {
+  it('replaces listed notes with the loaded copy instead of listing them twice', () => {
+    const listed = [note('b', '2024-03-10T10:00:00.000Z', 'Old title'), note('a', '2024-03-09T10:00:00.000Z')];
+    const loaded = [note('b', '2024-03-10T10:00:00.000Z', 'New title'), note('c', '2024-03-08T10:00:00.000Z')];
+
+    const merged = mergeNotes(listed, loaded);
+
+    expect(ids(merged)).toEqual(['b', 'a', 'c']);
+    expect(merged[0].title).toBe('New title');
+  });
+});
+
+describe('groupNotesByDay', () => {
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(new Date(2024, 2, 10, 15));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('names today and yesterday and dates older days', () => {
+    const notes = [
+      note('a', new Date(2024, 2, 10, 9).toISOString()),
+      note('b', new Date(2024, 2, 10, 1).toISOString()),
+      note('c', new Date(2024, 2, 9, 23).toISOString()),
+      note('d', new Date(2024, 2, 8, 12).toISOString()),
+      note('e', undefined),
+    ];
+
+    expect(groupNotesByDay(notes).map(section => [section.title, ids(section.data)])).toEqual([
+      ['Today', ['a', 'b']],
+      ['Yesterday', ['c']],
+      ['Friday, Mar 8, 2024', ['d']],
+      ['Unknown date', ['e']],
+    ]);
+  });
+});
@@ -0,0 +1,72 @@
+import {
+  highlightSnippet,
+  highlightTerms,
+  matchesAllTerms,
+  parseSearchTerms,
+  searchWords,
+  splitHighlights,
+  toTsQuery,
+} from '../searchQuery';
+
+describe('parseSearchTerms', () => {
+  it('separates quoted phrases from single words', () => {
+    expect(parseSearchTerms('"chest pain" Aspirin')).toEqual({ phrases: [['chest', 'pain']], words: ['aspirin'] });
+  });
+
+  it('treats a one-word phrase as a word and runs an unclosed quote to the end', () => {
+    expect(parseSearchTerms('"knee" "left hip')).toEqual({ phrases: [['left', 'hip']], words: ['knee'] });
+  });
+
+  it('drops characters that could break the query', () => {
+    expect(parseSearchTerms("o'brien & (x-ray):*")).toEqual({ phrases: [], words: ['o', 'brien', 'x', 'ray'] });
+  });
+});
+
+describe('toTsQuery', () => {
+  it('requires every phrase and word prefix', () => {
+    expect(toTsQuery(parseSearchTerms('"chest pain" asp'))).toBe('(chest <-> pain) & asp:*');
+  });
+
+  it('returns null when there is nothing to search for', () => {
+    expect(toTsQuery(parseSearchTerms(' "" !! '))).toBeNull();
+  });
+});
+
+describe('matchesAllTerms', () => {
+  const words = searchWords('Patient reports chest pain radiating to the left arm.');
+
+  it('matches words as prefixes and phrases in order', () => {
+    expect(matchesAllTerms(words, parseSearchTerms('"chest pain" radiat'))).toBe(true);
+  });
+
+  it('needs phrase words next to each other', () => {
+    expect(matchesAllTerms(words, parseSearchTerms('"pain chest"'))).toBe(false);
+    expect(matchesAllTerms(words, parseSearchTerms('"chest radiating"'))).toBe(false);
+  });
+});
+
+describe('highlighting', () => {
+  const terms = parseSearchTerms('pain asp');
+
+  it('marks whole words starting with a term', () => {
+    expect(highlightTerms('Painful joints, aspirin helped; no spain', terms))
+      .toBe('<mark>Painful</mark> joints, <mark>aspirin</mark> helped; no spain');
+  });
+
+  it('keeps context before the first match in a snippet', () => {
+    const text = `${'x '.repeat(100)}pain in the knee${' y'.repeat(100)}`;
+    const snippet = highlightSnippet(text, terms, 80);
+
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(snippet).toContain('<mark>pain</mark> in the knee');
+  });
+
+  it('splits marked text into plain and highlighted parts', () => {
+    expect(splitHighlights('<mark>Pain</mark> in the <mark>knee</mark>')).toEqual([
+      { text: 'Pain', highlighted: true },
+      { text: ' in the ', highlighted: false },
+      { text: 'knee', highlighted: true },
+    ]);
+  });
+});
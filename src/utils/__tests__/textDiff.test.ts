@@ -0,0 +1,46 @@
+import { DiffPart, diffText } from '../textDiff';
+
+// The text a diff was made from (removed parts) or leads to (added parts)
+const side = (parts: DiffPart[], changed: 'added' | 'removed') =>
+  parts.filter(part => part.type === 'equal' || part.type === changed).map(part => part.text).join('');
+
+describe('diffText', () => {
+  it('returns one unchanged run for identical texts', () => {
+    expect(diffText('No acute distress.', 'No acute distress.')).toEqual([{ type: 'equal', text: 'No acute distress.' }]);
+  });
+
+  it('marks a replaced word as removed and added', () => {
+    expect(diffText('The pain is mild.', 'The pain is severe.')).toEqual([
+      { type: 'equal', text: 'The pain is ' },
+      { type: 'removed', text: 'mild.' },
+      { type: 'added', text: 'severe.' },
+    ]);
+  });
+
+  it('joins inserted words into one run between unchanged text', () => {
+    expect(diffText('Take aspirin daily', 'Take aspirin 81 mg daily')).toEqual([
+      { type: 'equal', text: 'Take aspirin ' },
+      { type: 'added', text: '81 mg ' },
+      { type: 'equal', text: 'daily' },
+    ]);
+  });
+
+  it('treats everything as added when there was no text before', () => {
+    expect(diffText('', 'New note')).toEqual([{ type: 'added', text: 'New note' }]);
+  });
+
+  it('compares long texts line by line and still covers both sides', () => {
+    const line = (index: number) => `${Array.from({ length: 20 }, (_, word) => `w${index}-${word}`).join(' ')}\n`;
+    const before = Array.from({ length: 120 }, (_, index) => line(index)).join('');
+    const after = before.replace(line(60), 'Changed line\n');
+
+    const parts = diffText(before, after);
+
+    expect(parts.filter(part => part.type !== 'equal')).toEqual([
+      { type: 'removed', text: line(60) },
+      { type: 'added', text: 'Changed line\n' },
+    ]);
+    expect(side(parts, 'removed')).toBe(before);
+    expect(side(parts, 'added')).toBe(after);
+  });
+});
@@ -1,7 +1,9 @@
 // utils/apiKeyManager.ts
 import * as SecureStore from 'expo-secure-store';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import Constants from 'expo-constants';
 import { Platform } from 'react-native';
+import { Letterhead } from '../types';
 
 // Type to represent configuration values (keys and URLs)
 type ConfigValue = string;
@@ -9,9 +11,55 @@ type ConfigValue = string;
 // Check if we're running on web platform
 const isWeb = Platform.OS === 'web';
 
-// Function to get config values from secure storage with fallback to app.config.js
+// Transcription engines tried in this order unless the user reorders them
+const DEFAULT_TRANSCRIPTION_PROVIDER_ORDER = ['whisper', 'gemini'];
+
+// Days a note stays in the trash before it is deleted for good
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// Web has no secure storage, values saved there go to AsyncStorage under this prefix
+const WEB_STORAGE_PREFIX = 'config:';
+
+// Keys and tokens are never written to web storage. Saved on web, they are only
+// kept in memory until the page is reloaded.
+const SECRET_CONFIG_NAMES = ['OPENAI_API_KEY', 'GEMINI_API_KEY', 'SUPABASE_KEY', 'FHIR_ACCESS_TOKEN'];
+const webSessionSecrets = new Map<string, string>();
+
+// Whether a saved value outlives the session on this platform
+export function isConfigValuePersisted(configName: string): boolean {
+  return !isWeb || !SECRET_CONFIG_NAMES.includes(configName);
+}
+
+// Read a value saved on this device. Null means it was never saved, while an
+// empty string means it was cleared and must not fall back to app.config.js.
+async function readStoredValue(configName: string): Promise<string | null> {
+  try {
+    if (!isConfigValuePersisted(configName)) {
+      return webSessionSecrets.get(configName) ?? null;
+    }
+    return isWeb
+      ? await AsyncStorage.getItem(`${WEB_STORAGE_PREFIX}${configName}`)
+      : await SecureStore.getItemAsync(configName);
+  } catch (storageError) {
+    console.warn(`[apiKeyManager] Storage error for ${configName}:`, storageError);
+    // Continue to fallbacks
+    return null;
+  }
+}
+
+// Function to get config values from device storage with fallback to app.config.js
 export async function getConfigValue(configName: string): Promise<ConfigValue> {
   try {
+    // A value saved in Settings wins over the environment, even an empty one
+    const storedValue = await readStoredValue(configName);
+    if (storedValue !== null) {
+      if (!storedValue) {
+        throw new Error(`${configName} not configured. It was cleared in Settings.`);
+      }
+      console.log(`[apiKeyManager] Found ${configName} in ${isWeb ? 'local' : 'secure'} storage`);
+      return storedValue;
+    }
+
     // For web, try to get directly from process.env via Constants
     if (isWeb) {
       // First try to get from Constants.expoConfig.extra
@@ -44,18 +92,6 @@ export async function getConfigValue(configName: string): Promise<ConfigValue> {
         console.log('[apiKeyManager] Using hardcoded Gemini key');
         return geminiKey;
       }
-    } else {
-      // For native platforms, try SecureStore first
-      try {
-        const storedValue = await SecureStore.getItemAsync(configName);
-        if (storedValue) {
-          console.log(`[apiKeyManager] Found ${configName} in secure storage`);
-          return storedValue;
-        }
-      } catch (secureStoreError) {
-        console.warn(`[apiKeyManager] SecureStore error for ${configName}:`, secureStoreError);
-        // Continue to fallbacks
-      }
     }
 
     // Common fallback for all platforms: try to get from app.config.js
@@ -90,17 +126,22 @@ export async function getConfigValue(configName: string): Promise<ConfigValue> {
   }
 }
 
-// Helper function to save config value to secure storage
+// Helper function to save config value to device storage. Saving an empty
+// value clears the setting instead of falling back to app.config.js.
 export async function saveConfigValue(configName: string, value: ConfigValue): Promise<void> {
   try {
     if (!isWeb) {
       await SecureStore.setItemAsync(configName, value);
       console.log(`[apiKeyManager] Saved ${configName} to secure storage`);
+    } else if (!isConfigValuePersisted(configName)) {
+      webSessionSecrets.set(configName, value);
+      console.log(`[apiKeyManager] Kept ${configName} for this session only`);
     } else {
-      console.warn(`[apiKeyManager] Cannot save ${configName} on web platform`);
+      await AsyncStorage.setItem(`${WEB_STORAGE_PREFIX}${configName}`, value);
+      console.log(`[apiKeyManager] Saved ${configName} to local storage`);
     }
   } catch (error) {
-    console.error(`[apiKeyManager] Error saving ${configName} to secure storage:`, error);
+    console.error(`[apiKeyManager] Error saving ${configName}:`, error);
     throw error;
   }
 }
@@ -129,6 +170,32 @@ function getValueFromConfig(configName: string): ConfigValue {
         return 'https://api.openai.com/v1';
       case 'GEMINI_API_URL':
         return 'https://generativelanguage.googleapis.com/v1';
+        
+      // Transcription settings
+      case 'LOCAL_WHISPER_URL':
+        return Constants.expoConfig?.extra?.LOCAL_WHISPER_URL || '';
+      case 'TRANSCRIPTION_PROVIDER_ORDER':
+        return Constants.expoConfig?.extra?.TRANSCRIPTION_PROVIDER_ORDER || '';
+      case 'TRANSCRIPTION_PROVIDERS_DISABLED':
+        return Constants.expoConfig?.extra?.TRANSCRIPTION_PROVIDERS_DISABLED || '';
+
+      // Note settings
+      case 'TRASH_RETENTION_DAYS':
+        return Constants.expoConfig?.extra?.TRASH_RETENTION_DAYS || String(DEFAULT_TRASH_RETENTION_DAYS);
+      case 'LETTERHEAD_INSTITUTION':
+        return Constants.expoConfig?.extra?.LETTERHEAD_INSTITUTION || '';
+      case 'LETTERHEAD_ADDRESS':
+        return Constants.expoConfig?.extra?.LETTERHEAD_ADDRESS || '';
+      case 'LETTERHEAD_CONTACT':
+        return Constants.expoConfig?.extra?.LETTERHEAD_CONTACT || '';
+      case 'LETTERHEAD_LOGO_URL':
+        return Constants.expoConfig?.extra?.LETTERHEAD_LOGO_URL || '';
+
+      // EHR integration
+      case 'FHIR_SERVER_URL':
+        return Constants.expoConfig?.extra?.FHIR_SERVER_URL || '';
+      case 'FHIR_ACCESS_TOKEN':
+        return Constants.expoConfig?.extra?.FHIR_ACCESS_TOKEN || '';
       
       // Add other config values as needed
       default:
@@ -163,4 +230,99 @@ export async function getOpenAIUrl(): Promise<string> {
 
 export async function getGeminiUrl(): Promise<string> {
   return getConfigValue('GEMINI_API_URL');
-}
\ No newline at end of file
+}
+
+export async function getLocalWhisperUrl(): Promise<string> {
+  return getConfigValue('LOCAL_WHISPER_URL');
+}
+
+export async function saveLocalWhisperUrl(url: string): Promise<void> {
+  return saveConfigValue('LOCAL_WHISPER_URL', url.trim());
+}
+
+// Parse a comma-separated config value into a list of ids
+function parseListValue(value: string): string[] {
+  return value
+    .split(',')
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+}
+
+export async function getTranscriptionProviderOrder(): Promise<string[]> {
+  const value = await getConfigValue('TRANSCRIPTION_PROVIDER_ORDER').catch(() => '');
+  if (value) {
+    return parseListValue(value);
+  }
+
+  // By default a configured local server is tried before any cloud engine
+  const localWhisperUrl = await getLocalWhisperUrl().catch(() => '');
+  return localWhisperUrl
+    ? ['local-whisper', ...DEFAULT_TRANSCRIPTION_PROVIDER_ORDER]
+    : DEFAULT_TRANSCRIPTION_PROVIDER_ORDER;
+}
+
+export async function saveTranscriptionProviderOrder(order: string[]): Promise<void> {
+  return saveConfigValue('TRANSCRIPTION_PROVIDER_ORDER', order.join(','));
+}
+
+export async function getDisabledTranscriptionProviders(): Promise<string[]> {
+  const value = await getConfigValue('TRANSCRIPTION_PROVIDERS_DISABLED').catch(() => '');
+  return parseListValue(value);
+}
+
+export async function saveDisabledTranscriptionProviders(disabled: string[]): Promise<void> {
+  return saveConfigValue('TRANSCRIPTION_PROVIDERS_DISABLED', disabled.join(','));
+}
+
+// Local-only transcription is a per-user choice, kept under the user's id
+export async function getLocalOnlyTranscription(userId: string): Promise<boolean> {
+  const value = await getConfigValue(`TRANSCRIPTION_LOCAL_ONLY_${userId}`).catch(() => '');
+  return value === 'true';
+}
+
+export async function saveLocalOnlyTranscription(userId: string, localOnly: boolean): Promise<void> {
+  return saveConfigValue(`TRANSCRIPTION_LOCAL_ONLY_${userId}`, String(localOnly));
+}
+
+export async function getTrashRetentionDays(): Promise<number> {
+  const value = await getConfigValue('TRASH_RETENTION_DAYS').catch(() => '');
+  const days = parseInt(value, 10);
+  return days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+export async function saveTrashRetentionDays(days: number): Promise<void> {
+  return saveConfigValue('TRASH_RETENTION_DAYS', String(days));
+}
+
+export async function getLetterhead(): Promise<Letterhead> {
+  const [institutionName, address, contact, logoUrl] = await Promise.all(
+    ['LETTERHEAD_INSTITUTION', 'LETTERHEAD_ADDRESS', 'LETTERHEAD_CONTACT', 'LETTERHEAD_LOGO_URL']
+      .map(name => getConfigValue(name).catch(() => ''))
+  );
+  return { institutionName, address, contact, logoUrl };
+}
+
+export async function saveLetterhead(letterhead: Letterhead): Promise<void> {
+  await saveConfigValue('LETTERHEAD_INSTITUTION', letterhead.institutionName.trim());
+  await saveConfigValue('LETTERHEAD_ADDRESS', letterhead.address.trim());
+  await saveConfigValue('LETTERHEAD_CONTACT', letterhead.contact.trim());
+  await saveConfigValue('LETTERHEAD_LOGO_URL', letterhead.logoUrl.trim());
+}
+
+// Base URL of the FHIR server notes are sent to, e.g. http://localhost:8080/fhir
+export async function getFhirServerUrl(): Promise<string> {
+  return getConfigValue('FHIR_SERVER_URL');
+}
+
+export async function saveFhirServerUrl(url: string): Promise<void> {
+  return saveConfigValue('FHIR_SERVER_URL', url.trim());
+}
+
+// Bearer token for the FHIR server; empty when it needs none
+export async function getFhirAccessToken(): Promise<string> {
+  return getConfigValue('FHIR_ACCESS_TOKEN');
+}
+
+export async function saveFhirAccessToken(token: string): Promise<void> {
+  return saveConfigValue('FHIR_ACCESS_TOKEN', token.trim());
+}
@@ -0,0 +1,236 @@
+// utils/audioBytes.ts
+import * as FileSystem from 'expo-file-system';
+import { Platform } from 'react-native';
+
+// Check if we're running on web platform
+const isWeb = Platform.OS === 'web';
+
+/**
+ * Random access reader over an audio file, so we only load the bytes we need
+ */
+export interface ByteSource {
+  size: number;
+  read: (offset: number, length: number) => Promise<Uint8Array>;
+}
+
+/**
+ * Open a file for random access reads with platform compatibility
+ */
+export async function openByteSource(fileUri: string): Promise<ByteSource> {
+  if (isWeb) {
+    const response = await fetch(fileUri);
+    const blob = await response.blob();
+
+    return {
+      size: blob.size,
+      read: async (offset, length) => {
+        const buffer = await blob.slice(offset, offset + length).arrayBuffer();
+        return new Uint8Array(buffer);
+      },
+    };
+  }
+
+  const fileInfo = await FileSystem.getInfoAsync(fileUri);
+  if (!fileInfo.exists) {
+    throw new Error('Audio file does not exist');
+  }
+
+  const size = fileInfo.size;
+
+  return {
+    size,
+    read: async (offset, length) => {
+      const boundedLength = Math.min(length, size - offset);
+      if (boundedLength <= 0) {
+        return new Uint8Array(0);
+      }
+
+      const base64 = await FileSystem.readAsStringAsync(fileUri, {
+        encoding: FileSystem.EncodingType.Base64,
+        position: offset,
+        length: boundedLength,
+      });
+      return decodeBase64(base64);
+    },
+  };
+}
+
+/**
+ * Parse an MPEG audio frame header at the given offset
+ */
+export function parseMp3FrameHeader(bytes: Uint8Array, offset: number) {
+  const versionBits = (bytes[offset + 1] >> 3) & 0x3;
+  const layerBits = (bytes[offset + 1] >> 1) & 0x3;
+  const bitrateIndex = (bytes[offset + 2] >> 4) & 0xF;
+  const sampleRateIndex = (bytes[offset + 2] >> 2) & 0x3;
+  const channelMode = (bytes[offset + 3] >> 6) & 0x3;
+
+  // Only Layer III is expected here; reject reserved values
+  if (versionBits === 1 || layerBits !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const isMpeg1 = versionBits === 3;
+  const bitratesKbps = isMpeg1
+    ? [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320]
+    : [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+  const baseSampleRates = [44100, 48000, 32000];
+  const sampleRateDivisor = versionBits === 3 ? 1 : versionBits === 2 ? 2 : 4;
+
+  return {
+    isMpeg1,
+    isMono: channelMode === 3,
+    bitrate: bitratesKbps[bitrateIndex] * 1000,
+    sampleRate: baseSampleRates[sampleRateIndex] / sampleRateDivisor,
+    samplesPerFrame: isMpeg1 ? 1152 : 576,
+  };
+}
+
+/**
+ * Read an EBML element id (keeps the length marker bits)
+ */
+export function readEbmlId(bytes: Uint8Array, offset: number): { value: number; length: number } | null {
+  const first = bytes[offset];
+  if (first === undefined || first === 0) return null;
+
+  const length = Math.clz32(first) - 23;
+  if (length > 4 || offset + length > bytes.length) return null;
+
+  return { value: readUintBE(bytes, offset, length), length };
+}
+
+/**
+ * Read an EBML variable-length size
+ */
+export function readEbmlSize(bytes: Uint8Array, offset: number): { value: number; length: number; unknown: boolean } | null {
+  const first = bytes[offset];
+  if (first === undefined || first === 0) return null;
+
+  const length = Math.clz32(first) - 23;
+  if (offset + length > bytes.length) return null;
+
+  let value = first & (0xFF >> length);
+  let allOnes = value === (0xFF >> length);
+
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+    allOnes = allOnes && bytes[offset + i] === 0xFF;
+  }
+
+  return { value, length, unknown: allOnes };
+}
+
+export function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  let result = '';
+  for (let i = offset; i < offset + length && i < bytes.length; i++) {
+    result += String.fromCharCode(bytes[i]);
+  }
+  return result;
+}
+
+export function readUintBE(bytes: Uint8Array, offset: number, length: number): number {
+  let value = 0;
+  for (let i = 0; i < length; i++) {
+    value = value * 256 + (bytes[offset + i] ?? 0);
+  }
+  return value;
+}
+
+export function readUint32BE(bytes: Uint8Array, offset: number): number {
+  return readUintBE(bytes, offset, 4);
+}
+
+export function readUint64BE(bytes: Uint8Array, offset: number): number {
+  return readUintBE(bytes, offset, 8);
+}
+
+export function readUint32LE(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset + 3] ?? 0) * 0x1000000) + ((bytes[offset + 2] ?? 0) << 16) + ((bytes[offset + 1] ?? 0) << 8) + (bytes[offset] ?? 0);
+}
+
+// Bytes turned into characters per String.fromCharCode call, well under engine argument limits
+const BASE64_SLICE_BYTES = 0x8000;
+
+/**
+ * Decode base64 (such as a file read by expo-file-system) into bytes
+ */
+export function decodeBase64(base64: string): Uint8Array {
+  const binary = atob(base64.replace(/\s/g, ''));
+  const bytes = new Uint8Array(binary.length);
+
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+
+  return bytes;
+}
+
+/**
+ * Encode bytes as base64, converting them to characters a slice at a time
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+  const parts: string[] = [];
+
+  for (let i = 0; i < bytes.length; i += BASE64_SLICE_BYTES) {
+    parts.push(String.fromCharCode.apply(null, bytes.subarray(i, i + BASE64_SLICE_BYTES) as unknown as number[]));
+  }
+
+  return btoa(parts.join(''));
+}
+
+export function uint32BE(value: number): Uint8Array {
+  return new Uint8Array([(value >>> 24) & 0xFF, (value >>> 16) & 0xFF, (value >>> 8) & 0xFF, value & 0xFF]);
+}
+
+export function uint32LE(value: number): Uint8Array {
+  return new Uint8Array([value & 0xFF, (value >>> 8) & 0xFF, (value >>> 16) & 0xFF, (value >>> 24) & 0xFF]);
+}
+
+export function asciiBytes(text: string): Uint8Array {
+  return new Uint8Array(Array.from(text, char => char.charCodeAt(0)));
+}
+
+/**
+ * Join byte arrays into one
+ */
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+
+  return result;
+}
+
+/**
+ * Write bytes to a temporary audio file with platform compatibility.
+ * On web this returns a blob URL with a `#name.ext` fragment so callers that
+ * derive the format from the URI extension still see the right one.
+ */
+export async function writeTempAudioFile(bytes: Uint8Array, fileName: string, mimeType: string): Promise<string> {
+  if (isWeb) {
+    const blob = new Blob([bytes], { type: mimeType });
+    return `${URL.createObjectURL(blob)}#${fileName}`;
+  }
+
+  const uri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(uri, encodeBase64(bytes), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  return uri;
+}
+
+/**
+ * Delete a file created by writeTempAudioFile
+ */
+export async function deleteTempAudioFile(uri: string): Promise<void> {
+  if (isWeb) {
+    URL.revokeObjectURL(uri.split('#')[0]);
+  } else {
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+  }
+}
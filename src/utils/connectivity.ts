@@ -0,0 +1,31 @@
+// utils/connectivity.ts
+import { Platform } from 'react-native';
+import { getSupabaseClientUrl } from '../firebase/supabaseConfig';
+
+const CONNECTIVITY_TIMEOUT_MS = 5000;
+
+/**
+ * Check whether Supabase is reachable. Native has no connectivity API here,
+ * so it probes the host the Supabase client uses; any HTTP response counts.
+ * Only a failed request means offline, never a missing setting.
+ */
+export async function isOnline(): Promise<boolean> {
+  if (Platform.OS === 'web') {
+    return typeof navigator === 'undefined' || navigator.onLine !== false;
+  }
+
+  const supabaseUrl = await getSupabaseClientUrl().catch(() => '');
+  if (!supabaseUrl) return true;
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), CONNECTIVITY_TIMEOUT_MS);
+
+  try {
+    await fetch(supabaseUrl, { method: 'HEAD', signal: controller.signal });
+    return true;
+  } catch {
+    return false;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
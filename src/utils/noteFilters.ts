@@ -0,0 +1,92 @@
+// utils/noteFilters.ts
+import { Note, NoteFilters } from '../types';
+import { getNoteStatus } from './noteStatus';
+
+/**
+ * Parse a YYYY-MM-DD date as local midnight
+ * @returns null if the value is not a real date in that format
+ */
+export function parseFilterDate(value?: string): Date | null {
+  const match = value?.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  // Rolled-over dates such as 2024-02-31 are rejected
+  return date.getMonth() === Number(match[2]) - 1 ? date : null;
+}
+
+/**
+ * Creation date range of the filters as ISO timestamps; the end is exclusive
+ */
+export function createdRangeBounds(filters: NoteFilters): { start?: string; end?: string } {
+  const start = parseFilterDate(filters.createdFrom);
+  const end = parseFilterDate(filters.createdTo);
+  if (end) end.setDate(end.getDate() + 1);
+
+  return { start: start?.toISOString(), end: end?.toISOString() };
+}
+
+/**
+ * Whether a note matches every criterion that is set
+ */
+export function matchesNoteFilters(note: Note, filters: NoteFilters): boolean {
+  const { start, end } = createdRangeBounds(filters);
+  if (start || end) {
+    const createdAt = Date.parse(note.createdAt || note.date || '');
+    if (isNaN(createdAt)) return false;
+    if (start && createdAt < Date.parse(start)) return false;
+    if (end && createdAt >= Date.parse(end)) return false;
+  }
+
+  const tags = note.tags || [];
+
+  if (filters.procedureTypes?.length && !filters.procedureTypes.includes(note.procedureType)) return false;
+  if (filters.includeTags?.some(tag => !tags.includes(tag))) return false;
+  if (filters.excludeTags?.some(tag => tags.includes(tag))) return false;
+  if (filters.templateIds?.length && !(note.templateId && filters.templateIds.includes(note.templateId))) return false;
+  if (filters.hasAudio !== undefined && !!note.audioFileUrl !== filters.hasAudio) return false;
+  if (filters.statuses?.length && !filters.statuses.includes(getNoteStatus(note))) return false;
+
+  return true;
+}
+
+/**
+ * Number of criteria set, not counting status
+ */
+export function countActiveFilters(filters: NoteFilters): number {
+  return [
+    filters.createdFrom || filters.createdTo,
+    filters.procedureTypes?.length,
+    filters.includeTags?.length || filters.excludeTags?.length,
+    filters.templateIds?.length,
+    filters.hasAudio !== undefined,
+  ].filter(Boolean).length;
+}
+
+/**
+ * Copy of the filters without empty criteria, as stored with saved filters
+ */
+export function compactNoteFilters(filters: NoteFilters): NoteFilters {
+  const compact: NoteFilters = {};
+
+  if (filters.createdFrom?.trim()) compact.createdFrom = filters.createdFrom.trim();
+  if (filters.createdTo?.trim()) compact.createdTo = filters.createdTo.trim();
+  if (filters.procedureTypes?.length) compact.procedureTypes = filters.procedureTypes;
+  if (filters.includeTags?.length) compact.includeTags = filters.includeTags;
+  if (filters.excludeTags?.length) compact.excludeTags = filters.excludeTags;
+  if (filters.templateIds?.length) compact.templateIds = filters.templateIds;
+  if (filters.hasAudio !== undefined) compact.hasAudio = filters.hasAudio;
+  if (filters.statuses?.length) compact.statuses = filters.statuses;
+
+  return compact;
+}
+
+/**
+ * Whether two sets of filters select the same notes, ignoring empty criteria
+ * and key order (saved filters come back from jsonb with their keys reordered)
+ */
+export function sameNoteFilters(a: NoteFilters, b: NoteFilters): boolean {
+  const key = (filters: NoteFilters) =>
+    JSON.stringify(Object.entries(compactNoteFilters(filters)).sort(([x], [y]) => x.localeCompare(y)));
+  return key(a) === key(b);
+}
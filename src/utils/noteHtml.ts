@@ -0,0 +1,67 @@
+// utils/noteHtml.ts
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Render the markdown used in notes as HTML: headings, bulleted and numbered
+ * lists, bold and italic text, and paragraphs. Anything else stays plain text.
+ */
+export function markdownToHtml(markdown: string): string {
+  const html: string[] = [];
+  let paragraph: string[] = [];
+  let list: 'ul' | 'ol' | null = null;
+
+  const closeParagraph = () => {
+    if (paragraph.length > 0) html.push(`<p>${paragraph.join('<br>')}</p>`);
+    paragraph = [];
+  };
+  const closeList = () => {
+    if (list) html.push(`</${list}>`);
+    list = null;
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const text = line.trim();
+    const heading = text.match(/^(#{1,6})\s+(.+)$/);
+    const item = text.match(/^(?:([-*•])|\d+[.)])\s+(.+)$/);
+
+    if (!text) {
+      closeParagraph();
+      closeList();
+    } else if (heading) {
+      closeParagraph();
+      closeList();
+      const level = heading[1].length;
+      html.push(`<h${level}>${formatInline(heading[2])}</h${level}>`);
+    } else if (item) {
+      closeParagraph();
+      const type = item[1] ? 'ul' : 'ol';
+      if (list !== type) {
+        closeList();
+        html.push(`<${type}>`);
+        list = type;
+      }
+      html.push(`<li>${formatInline(item[2])}</li>`);
+    } else {
+      closeList();
+      paragraph.push(formatInline(text));
+    }
+  }
+
+  closeParagraph();
+  closeList();
+  return html.join('\n');
+}
+
+function formatInline(text: string): string {
+  return escapeHtml(text)
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^*])\*(?!\s)(.+?)\*/g, '$1<em>$2</em>');
+}
@@ -0,0 +1,99 @@
+// utils/noteList.ts
+import { Note } from '../types';
+
+/**
+ * Last note of a page in newest-first order; the next page starts after it
+ */
+export interface NoteCursor {
+  createdAt: string;
+  id: string;
+}
+
+export interface NoteSection {
+  // Day the notes were created, shown as the section header
+  title: string;
+  data: Note[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Newest first by creation time, then by ID so notes created at the same
+ * moment keep a stable order between pages
+ */
+export function compareNotesNewestFirst(a: Note, b: Note): number {
+  return compareKeys(noteTime(a), a.id, noteTime(b), b.id);
+}
+
+export function cursorAfter(note: Note): NoteCursor {
+  return { createdAt: note.createdAt || note.date || '', id: note.id };
+}
+
+/**
+ * Whether a note comes after the cursor, i.e. belongs on a later page
+ */
+export function isAfterCursor(note: Note, cursor: NoteCursor): boolean {
+  return compareKeys(noteTime(note), note.id, parseTime(cursor.createdAt), cursor.id) > 0;
+}
+
+/**
+ * Add a page of notes to the list. A note that is already listed is replaced
+ * by the loaded copy, so pages that shift when notes are added never show a
+ * note twice.
+ */
+export function mergeNotes(listed: Note[], loaded: Note[]): Note[] {
+  const byId = new Map(listed.map(note => [note.id, note]));
+  loaded.forEach(note => byId.set(note.id, note));
+  return Array.from(byId.values()).sort(compareNotesNewestFirst);
+}
+
+/**
+ * Split notes sorted newest first into one section per day
+ */
+export function groupNotesByDay(notes: Note[]): NoteSection[] {
+  const sections: NoteSection[] = [];
+
+  for (const note of notes) {
+    const title = formatDay(noteTime(note));
+    const last = sections[sections.length - 1];
+
+    if (last && last.title === title) {
+      last.data.push(note);
+    } else {
+      sections.push({ title, data: [note] });
+    }
+  }
+
+  return sections;
+}
+
+function formatDay(time: number): string {
+  if (!time) return 'Unknown date';
+
+  const day = new Date(time);
+  day.setHours(0, 0, 0, 0);
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  // Rounded because days around daylight saving changes are not 24 hours long
+  const daysAgo = Math.round((today.getTime() - day.getTime()) / DAY_MS);
+  if (daysAgo === 0) return 'Today';
+  if (daysAgo === 1) return 'Yesterday';
+
+  return day.toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+function compareKeys(timeA: number, idA: string, timeB: number, idB: string): number {
+  if (timeA !== timeB) return timeB - timeA;
+  return idA < idB ? 1 : idA > idB ? -1 : 0;
+}
+
+function noteTime(note: Note): number {
+  return parseTime(note.createdAt || note.date || '');
+}
+
+// Notes without a valid creation time sort last
+function parseTime(value: string): number {
+  const time = Date.parse(value);
+  return isNaN(time) ? 0 : time;
+}
@@ -0,0 +1,22 @@
+// utils/noteStatus.ts
+import { Note, NoteStatus } from '../types';
+
+export const NOTE_STATUS_LABELS: Record<NoteStatus, string> = {
+  draft: 'Draft',
+  pending_review: 'Pending Review',
+  signed: 'Signed',
+  amended: 'Amended',
+};
+
+export function getNoteStatus(note: Pick<Note, 'status'>): NoteStatus {
+  return note.status || 'draft';
+}
+
+/**
+ * Signed notes are locked: their content can no longer be edited, only
+ * added to with addenda
+ */
+export function isNoteLocked(note: Pick<Note, 'status'>): boolean {
+  const status = getNoteStatus(note);
+  return status === 'signed' || status === 'amended';
+}
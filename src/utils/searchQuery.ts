@@ -0,0 +1,122 @@
+// utils/searchQuery.ts
+
+// Put around matched terms by the search_notes database function and by highlightTerms
+export const HIGHLIGHT_START = '<mark>';
+export const HIGHLIGHT_STOP = '</mark>';
+
+const HIGHLIGHT_MARKERS = new RegExp(`${HIGHLIGHT_START}|${HIGHLIGHT_STOP}`);
+// Characters of context kept before the first match in a snippet
+const SNIPPET_LEAD = 60;
+
+export interface SearchTerms {
+  // "Quoted phrases": words that must appear next to each other, in order
+  phrases: string[][];
+  // Other words, matched as prefixes so results show up while typing
+  words: string[];
+}
+
+export interface HighlightPart {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Split a search into quoted phrases and single words. Anything other than
+ * letters and digits separates words, so no input can break the query.
+ */
+export function parseSearchTerms(keyword: string): SearchTerms {
+  const terms: SearchTerms = { phrases: [], words: [] };
+
+  // An unclosed quote runs to the end of the search
+  for (const match of keyword.matchAll(/"([^"]*)"?|([^\s"]+)/g)) {
+    const words = searchWords(match[1] ?? match[2]);
+
+    if (match[1] !== undefined && words.length > 1) {
+      terms.phrases.push(words);
+    } else {
+      terms.words.push(...words);
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * Postgres tsquery matching every term
+ * @returns null when there is nothing to search for
+ */
+export function toTsQuery(terms: SearchTerms): string | null {
+  const parts = [
+    ...terms.phrases.map(phrase => `(${phrase.join(' <-> ')})`),
+    ...terms.words.map(word => `${word}:*`),
+  ];
+
+  return parts.length > 0 ? parts.join(' & ') : null;
+}
+
+/**
+ * Lower-case words of a text, the way searches split them
+ */
+export function searchWords(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+/**
+ * Whether the words of a text contain every term
+ */
+export function matchesAllTerms(textWords: string[], terms: SearchTerms): boolean {
+  return terms.words.every(word => textWords.some(textWord => textWord.startsWith(word))) &&
+    terms.phrases.every(phrase => containsPhrase(textWords, phrase));
+}
+
+/**
+ * Mark the terms in a text the way the database search does, for results
+ * found on the device
+ */
+export function highlightTerms(text: string, terms: SearchTerms): string {
+  const pattern = termPattern(terms);
+  if (!pattern) return text;
+
+  return text.replace(pattern, (_match, before: string, word: string) => `${before}${HIGHLIGHT_START}${word}${HIGHLIGHT_STOP}`);
+}
+
+/**
+ * Excerpt of a text around its first match, with the terms marked
+ */
+export function highlightSnippet(text: string, terms: SearchTerms, maxLength: number = 160): string {
+  const pattern = termPattern(terms);
+  const firstMatch = pattern ? text.search(pattern) : -1;
+  const start = Math.max(0, firstMatch - SNIPPET_LEAD);
+  const end = Math.min(text.length, start + maxLength);
+
+  const snippet = `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+  return highlightTerms(snippet, terms);
+}
+
+/**
+ * Split marked text into plain and highlighted parts for display
+ */
+export function splitHighlights(text: string): HighlightPart[] {
+  return text
+    .split(HIGHLIGHT_MARKERS)
+    .map((part, index) => ({ text: part, highlighted: index % 2 === 1 }))
+    .filter(part => part.text.length > 0);
+}
+
+function containsPhrase(textWords: string[], phrase: string[]): boolean {
+  for (let start = 0; start + phrase.length <= textWords.length; start++) {
+    if (phrase.every((word, offset) => textWords[start + offset] === word)) return true;
+  }
+  return false;
+}
+
+/**
+ * Matches a whole word starting with any term; the character before the word is captured
+ */
+function termPattern(terms: SearchTerms): RegExp | null {
+  const words = Array.from(new Set([...terms.words, ...terms.phrases.flat()]));
+  if (words.length === 0) return null;
+
+  // Terms only contain letters and digits, so they need no escaping
+  return new RegExp(`(^|[^\\p{L}\\p{N}])((?:${words.join('|')})[\\p{L}\\p{N}]*)`, 'giu');
+}
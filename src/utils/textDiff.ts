@@ -0,0 +1,90 @@
+// utils/textDiff.ts
+
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// Above this many cells the word table gets too large for a phone, so lines are compared instead
+const MAX_WORD_TABLE_CELLS = 4_000_000;
+
+/**
+ * Compare two texts word by word (whitespace is kept with the word before it)
+ * @returns Runs of unchanged, added and removed text in reading order
+ */
+export function diffText(before: string, after: string): DiffPart[] {
+  const beforeTokens = tokenize(before, /\S+\s*|\s+/g);
+  const afterTokens = tokenize(after, /\S+\s*|\s+/g);
+
+  if (beforeTokens.length * afterTokens.length > MAX_WORD_TABLE_CELLS) {
+    return diffTokens(tokenize(before, /[^\n]*\n|[^\n]+$/g), tokenize(after, /[^\n]*\n|[^\n]+$/g));
+  }
+
+  return diffTokens(beforeTokens, afterTokens);
+}
+
+function tokenize(text: string, pattern: RegExp): string[] {
+  return text.match(pattern) || [];
+}
+
+/**
+ * Longest-common-subsequence diff of two token lists
+ */
+function diffTokens(before: string[], after: string[]): DiffPart[] {
+  // Trim the common prefix and suffix so the table only covers the changed middle
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) prefix++;
+
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) suffix++;
+
+  const a = before.slice(prefix, before.length - suffix);
+  const b = after.slice(prefix, after.length - suffix);
+  const width = b.length + 1;
+
+  // lengths[i * width + j] is the LCS length of a[i..] and b[j..]
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else if (text) {
+      parts.push({ type, text });
+    }
+  };
+
+  push('equal', before.slice(0, prefix).join(''));
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+
+  push('equal', before.slice(before.length - suffix).join(''));
+
+  return parts;
+}